@@ -2,13 +2,36 @@ import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { RoomControls } from './room-calculator/RoomControls';
 import { PositionControls } from './room-calculator/PositionControls';
+import { SubwooferControls } from './room-calculator/SubwooferControls';
+import { MultiSubOptimizerPanel } from './room-calculator/MultiSubOptimizerPanel';
+import { ListeningSeatControls } from './room-calculator/ListeningSeatControls';
+import { SubPlacementPanel } from './room-calculator/SubPlacementPanel';
+import { ListeningHeatmapPanel } from './room-calculator/ListeningHeatmapPanel';
+import { MainSpeakerControls } from './room-calculator/MainSpeakerControls';
+import { TimeDomainPanel } from './room-calculator/TimeDomainPanel';
+import { FullRangePanel } from './room-calculator/FullRangePanel';
+import { SbirPanel } from './room-calculator/SbirPanel';
+import { WaterfallPanel } from './room-calculator/WaterfallPanel';
+import { ModeDecayTable } from './room-calculator/ModeDecayTable';
+import { BassTrapPanel } from './room-calculator/BassTrapPanel';
+import { RoomShapePanel } from './room-calculator/RoomShapePanel';
+import { WaveSolverPanel } from './room-calculator/WaveSolverPanel';
 import { RoomVisualization } from './room-calculator/RoomVisualization';
 import { ResponseChart } from './room-calculator/ResponseChart';
 import { 
   Point, 
   RoomDimensions, 
   clampToRoom, 
-  simulateRoomResponse, 
+  combineSpeakerSystemBranches,
+  analyzeComplexResponse,
+  SubwooferSource,
+  CrossoverSettings,
+  ModalDamping,
+  RoomSurface,
+  SurfaceAbsorptions,
+  analyzeRoomModes,
+  ListeningSeat,
+  calculateSeatStatistics,
   getHarmanTargetDB,
   SpeakerData,
   speakerGainLinear,
@@ -16,7 +39,6 @@ import {
   EQSettings,
   EQBand,
   generateOptimalEQ,
-  generateOptimalEQWithVisuals,
   generateEQPass1,
   generateEQPass2,
   generateEQPass3,
@@ -28,8 +50,36 @@ import {
   analyzeTargetError,
   generateCorrectionEQ,
   mergeEQSettings,
+  complexToDb,
+  DEFAULT_FREQUENCY_GRID,
+  COARSE_FREQUENCY_GRID,
   type ModeResponse
 } from '@/utils/roomModeCalculations';
+import { AbsorptionSpectrum, absorptionAt, getMaterial } from '@/utils/acousticMaterials';
+import { BassTrap, BassTrapKind, constrainBassTrap, createAbsorberPatches } from '@/utils/bassTraps';
+import { DEFAULT_ROOM_SHAPE, RoomShapeSettings, buildRoomGeometry, clampToGeometry, isShoeboxShape, shoeboxGeometry } from '@/utils/roomGeometry';
+import { FdtdResult, ResponseEngine, crossCheckFdtd, simulateFdtdResponse } from '@/utils/fdtdSolver';
+import { DEFAULT_SAMPLE_RATE } from '@/utils/biquadFilter';
+import { EQMethod } from '@/utils/eqOptimizer';
+import { DEFAULT_BOOST_BUDGET_DB_OCT, EQBoostMode, analyzeEQHeadroom, excursionLimitFromSpecs } from '@/utils/eqHeadroom';
+import { RoomSimulationInput, RoomSimulationOutput, runRoomSimulation } from '@/workers/roomSimulationTasks';
+import { useRoomSimulationWorker } from '@/hooks/use-room-simulation-worker';
+import { useFrozenWhile } from '@/hooks/use-frozen-while';
+import {
+  optimizeMultiSub,
+  type MultiSubIteration,
+  type MultiSubOptimizationResult
+} from '@/utils/multiSubOptimizer';
+import {
+  searchSubPositions,
+  calculateListeningHeatmap,
+  type KeepOutZone,
+  type ListeningHeatmap,
+  type ListeningHeatmapCell,
+  type PlacementWall,
+  type SubPlacementConstraint,
+  type SubPositionCandidate
+} from '@/utils/placementOptimizer';
 import { MoveIcon } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 
@@ -43,6 +93,9 @@ interface SpeakerManifestItem {
   path: string;
 }
 
+const MAX_SUBWOOFERS = 4;
+const MAX_SEATS = 8;
+
 const DEFAULT_SURFACE_ABSORPTIONS = {
   front: 0.1,
   back: 0.1,
@@ -52,6 +105,16 @@ const DEFAULT_SURFACE_ABSORPTIONS = {
   floor: 0.1,
 };
 
+// Material per surface from the library; null uses the flat slider value
+const DEFAULT_SURFACE_MATERIALS: Record<RoomSurface, string | null> = {
+  front: null,
+  back: null,
+  left: null,
+  right: null,
+  ceiling: null,
+  floor: null,
+};
+
 // Xerox-style dither pattern CSS
 const xeroxDitherStyle = {
   backgroundImage: `
@@ -71,9 +134,24 @@ const xeroxDitherStyle = {
 export default function RoomModeCalculator() {
   // State for room dimensions and positions
   const [room, setRoom] = useState<RoomDimensions>({ L: 4.8, W: 4.8, H: 2.7 });
-  const [sub, setSub] = useState<Point>({ x: 0.38, y: 0.25, z: 0.83 });
-  const [listener, setListener] = useState<Point>({ x: 2.0, y: 3.70, z: 0.55 });
+  const [subwoofers, setSubwoofers] = useState<SubwooferSource[]>([
+    { id: 'sub', position: { x: 0.38, y: 0.25, z: 0.83 }, gainDb: 0, delayMs: 0, polarity: 1 },
+  ]);
+  const sub = subwoofers[0].position; // Primary sub, used for distance-based effects
+  const [seats, setSeats] = useState<ListeningSeat[]>([
+    { id: 'listener', name: 'Main Seat', position: { x: 2.0, y: 3.70, z: 0.55 } },
+  ]);
+  const listener = seats[0].position; // Primary seat
+  const [mainsEnabled, setMainsEnabled] = useState<boolean>(false);
+  const [mainSpeakers, setMainSpeakers] = useState<SubwooferSource[]>([
+    { id: 'main-left', position: { x: 1.2, y: 0.4, z: 1.1 }, gainDb: 0, delayMs: 0, polarity: 1 },
+    { id: 'main-right', position: { x: 3.6, y: 0.4, z: 1.1 }, gainDb: 0, delayMs: 0, polarity: 1 },
+  ]);
+  const [crossover, setCrossover] = useState<CrossoverSettings>({ type: 'linkwitz-riley', frequency: 80, order: 4 });
   const [selectedPoint, setSelectedPoint] = useState<string | null>(null);
+  const [isDraggingPoint, setIsDraggingPoint] = useState(false);
+  const { run: runInWorker } = useRoomSimulationWorker();
+  const [workerSimulation, setWorkerSimulation] = useState<RoomSimulationOutput | null>(null);
   const [cameraResetCounter, setCameraResetCounter] = useState(0);
   const [showSpeakerGuidelines, setShowSpeakerGuidelines] = useState(false);
   const [lfCutoffHz, setLfCutoffHz] = useState<number>(30); // Default 30 Hz
@@ -85,6 +163,16 @@ export default function RoomModeCalculator() {
 
   // Surface absorption coefficients (0.01 to 1.0)
   const [surfaceAbsorptions, setSurfaceAbsorptions] = useState({...DEFAULT_SURFACE_ABSORPTIONS});
+  const [surfaceMaterials, setSurfaceMaterials] = useState({...DEFAULT_SURFACE_MATERIALS});
+  const [bassTraps, setBassTraps] = useState<BassTrap[]>([]);
+
+  // Room shape and the engine computing its response
+  const [roomShape, setRoomShape] = useState<RoomShapeSettings>(DEFAULT_ROOM_SHAPE);
+  const [responseEngine, setResponseEngine] = useState<ResponseEngine>('modal');
+  const [waveSimulation, setWaveSimulation] = useState<FdtdResult | null>(null); // Subwoofers
+  const [waveMainsSimulation, setWaveMainsSimulation] = useState<FdtdResult | null>(null); // Mains, when enabled
+  const [isWaveSimulating, setIsWaveSimulating] = useState<boolean>(false);
+  const [waveProgress, setWaveProgress] = useState<{ completed: number; total: number } | null>(null);
   const [masterAbsorptionAdjust, setMasterAbsorptionAdjust] = useState<number>(0); // New state for master offset
   const [furnitureFactor, setFurnitureFactor] = useState<number>(0.5); // Default 0.5 (moderately furnished)
 
@@ -120,6 +208,36 @@ export default function RoomModeCalculator() {
   const [eqMaxBoost, setEqMaxBoost] = useState<number>(12.0); // Increased from 9.0
   const [eqMaxCut, setEqMaxCut] = useState<number>(18.0);     // Reduced from 24.0 but still generous
   const [eqSmoothing, setEqSmoothing] = useState<number>(0.05); // Much reduced from 0.1
+  const [eqSampleRate, setEqSampleRate] = useState<number>(DEFAULT_SAMPLE_RATE); // DSP the bands are realized on
+  const [eqMethod, setEqMethod] = useState<EQMethod>('heuristic');
+  // RMS error against the target of the last run of each method, to compare them on the same room
+  const [eqErrorByMethod, setEqErrorByMethod] = useState<Partial<Record<EQMethod, { initial: number; final: number }>>>({});
+  const [eqMultiSeat, setEqMultiSeat] = useState<boolean>(false); // One band set for all seats
+  const [eqBoostMode, setEqBoostMode] = useState<EQBoostMode>('unrestricted');
+  const [eqBoostBudget, setEqBoostBudget] = useState<number>(DEFAULT_BOOST_BUDGET_DB_OCT); // dB·oct in boost-budget mode
+
+  // State for the multi-sub optimizer
+  const [isMsoRunning, setIsMsoRunning] = useState<boolean>(false);
+  const [msoIterations, setMsoIterations] = useState<MultiSubIteration[]>([]);
+  const [msoResult, setMsoResult] = useState<MultiSubOptimizationResult | null>(null);
+  const msoControllerRef = useRef<AbortController | null>(null);
+
+  // State for the sub position search
+  const [placementConstraint, setPlacementConstraint] = useState<SubPlacementConstraint>('floor');
+  const [placementWall, setPlacementWall] = useState<PlacementWall>('front');
+  const [placementGridStep, setPlacementGridStep] = useState<number>(0.4);
+  const [placementTopN, setPlacementTopN] = useState<number>(5);
+  const [keepOutZones, setKeepOutZones] = useState<KeepOutZone[]>([]);
+  const [isPlacementSearching, setIsPlacementSearching] = useState<boolean>(false);
+  const [placementProgress, setPlacementProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [subCandidates, setSubCandidates] = useState<SubPositionCandidate[]>([]);
+
+  // Listening-position heatmap state
+  const [heatmapEarHeight, setHeatmapEarHeight] = useState<number>(1.1);
+  const [heatmapGridStep, setHeatmapGridStep] = useState<number>(0.2);
+  const [isHeatmapComputing, setIsHeatmapComputing] = useState<boolean>(false);
+  const [heatmapProgress, setHeatmapProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [listeningHeatmap, setListeningHeatmap] = useState<ListeningHeatmap | null>(null);
 
   // State for draggable chart
   const [isDraggingChart, setIsDraggingChart] = useState(false);
@@ -145,7 +263,8 @@ export default function RoomModeCalculator() {
     enabled: false,
     maxBoost: eqMaxBoost,
     maxCut: eqMaxCut,
-    smoothing: eqSmoothing
+    smoothing: eqSmoothing,
+    sampleRate: eqSampleRate
   });
 
   // Visual effects for EQ iterations
@@ -374,53 +493,219 @@ export default function RoomModeCalculator() {
 
   const handleResetAbsorptions = () => {
     setSurfaceAbsorptions({...DEFAULT_SURFACE_ABSORPTIONS});
+    setSurfaceMaterials({...DEFAULT_SURFACE_MATERIALS});
     // Optionally, also reset masterAbsorptionAdjust if desired, or keep it independent.
     // setMasterAbsorptionAdjust(0); 
   };
 
-  // Calculate room response when inputs change
-  const rawResponse = useMemo(() => {
-    const { L, W, H } = room;
-    // Use a helper for clarity
-    const getEffectiveAbsorption = (surfaceKey: keyof typeof DEFAULT_SURFACE_ABSORPTIONS) => {
+  // Absorption spectra of the surfaces with a library material, shifted by the master offset
+  const surfaceSpectra = useMemo(() => {
+    const spectra: Partial<Record<RoomSurface, AbsorptionSpectrum>> = {};
+    (Object.keys(surfaceMaterials) as RoomSurface[]).forEach(surface => {
+      const material = surfaceMaterials[surface] ? getMaterial(surfaceMaterials[surface]) : undefined;
+      if (!material) return;
+      spectra[surface] = {
+        bands: material.spectrum.bands,
+        coefficients: material.spectrum.coefficients.map(alpha => Math.max(0.01, Math.min(1.0, alpha + masterAbsorptionAdjust))),
+      };
+    });
+    return spectra;
+  }, [surfaceMaterials, masterAbsorptionAdjust]);
+
+  const bassTrapAbsorbers = useMemo(() => createAbsorberPatches(bassTraps, room), [bassTraps, room]);
+
+  // Modal damping from surface absorption and furnishing: per-surface, so each mode
+  // is only damped by the surfaces it hits; a single Q when absorption is off
+  // Flat absorption per surface with the master offset applied
+  const effectiveSurfaceAbsorptions = useMemo((): SurfaceAbsorptions => {
+    const getEffectiveAbsorption = (surfaceKey: RoomSurface) => {
       return Math.max(0.01, Math.min(1.0, surfaceAbsorptions[surfaceKey] + masterAbsorptionAdjust));
     };
+    return {
+      front: getEffectiveAbsorption('front'),
+      back: getEffectiveAbsorption('back'),
+      left: getEffectiveAbsorption('left'),
+      right: getEffectiveAbsorption('right'),
+      ceiling: getEffectiveAbsorption('ceiling'),
+      floor: getEffectiveAbsorption('floor'),
+    };
+  }, [surfaceAbsorptions, masterAbsorptionAdjust]);
 
-    let currentQ = DEFAULT_Q_FACTOR;
-
-    if (applySurfaceAbsorption) {
-      const areaFrontBack = W * H;
-      const areaLeftRight = L * H;
-      const areaCeilingFloor = L * W;
-      const totalArea = 2 * (areaFrontBack + areaLeftRight + areaCeilingFloor);
-
-      if (totalArea > 0) {
-        const totalEffectiveAbsorption =
-          (getEffectiveAbsorption('front') * areaFrontBack) +
-          (getEffectiveAbsorption('back') * areaFrontBack) +
-          (getEffectiveAbsorption('left') * areaLeftRight) +
-          (getEffectiveAbsorption('right') * areaLeftRight) +
-          (getEffectiveAbsorption('ceiling') * areaCeilingFloor) +
-          (getEffectiveAbsorption('floor') * areaCeilingFloor);
-        
-        const alphaAvg = Math.max(0.01, Math.min(1.0, totalEffectiveAbsorption / totalArea));
-        currentQ = Math.max(1, Math.min(50, 1.0 / alphaAvg)); 
-      } else {
-        currentQ = DEFAULT_Q_FACTOR; 
-      }
-    } // else, currentQ remains DEFAULT_Q_FACTOR set initially
-    
+  const simulationDamping = useMemo((): ModalDamping => {
     // Adjust Q based on furnitureFactor
     const Q_DAMPING_MIN = 0.3; // Max damping effect (heavily furnished)
     const Q_DAMPING_MAX = 1.0; // No damping effect (empty room)
     // furnitureFactor is from 0 (empty) to 1 (heavily furnished)
     const effectiveFurnitureDampingMultiplier = Q_DAMPING_MAX - (furnitureFactor * (Q_DAMPING_MAX - Q_DAMPING_MIN));
-    
-    const qAdjustedForFurniture = currentQ * effectiveFurnitureDampingMultiplier;
-    const finalQ = Math.max(1, qAdjustedForFurniture);
-    
-    return simulateRoomResponse(sub, listener, L, W, H, 10, finalQ);
-  }, [sub, listener, room, surfaceAbsorptions, applySurfaceAbsorption, masterAbsorptionAdjust, furnitureFactor]); // Added furnitureFactor
+
+    if (!applySurfaceAbsorption) {
+      return Math.max(1, DEFAULT_Q_FACTOR * effectiveFurnitureDampingMultiplier);
+    }
+
+    return {
+      absorption: effectiveSurfaceAbsorptions,
+      absorptionSpectra: surfaceSpectra,
+      absorbers: bassTrapAbsorbers,
+      qMultiplier: effectiveFurnitureDampingMultiplier,
+    };
+  }, [effectiveSurfaceAbsorptions, surfaceSpectra, bassTrapAbsorbers, applySurfaceAbsorption, furnitureFactor]);
+
+  const roomGeometry = useMemo(
+    () => (isShoeboxShape(roomShape) ? null : buildRoomGeometry(room, roomShape)),
+    [room, roomShape]
+  );
+
+  // Speakers and seats stay inside the room, out of any cut-out and under a sloped ceiling
+  const clampPosition = useCallback(
+    (position: Point) => (roomGeometry ? clampToGeometry(position, roomGeometry) : clampToRoom(position, room)),
+    [roomGeometry, room]
+  );
+
+  // Move everything back inside when the shape or the dimensions change
+  useEffect(() => {
+    const clampAll = <T extends { position: Point }>(items: T[]) => {
+      const clamped = items.map(item => ({ item, position: clampPosition(item.position) }));
+      const moved = clamped.some(({ item, position }) =>
+        position.x !== item.position.x || position.y !== item.position.y || position.z !== item.position.z);
+      return moved ? clamped.map(({ item, position }) => ({ ...item, position })) : items;
+    };
+    setSubwoofers(clampAll);
+    setSeats(clampAll);
+    setMainSpeakers(clampAll);
+  }, [clampPosition]);
+
+  // The mode sum cannot describe other shapes: those always use the wave simulation
+  const activeEngine: ResponseEngine = roomGeometry && responseEngine === 'modal' ? 'fdtd-3d' : responseEngine;
+
+  // Wave simulation of the subs and, when enabled, the mains at every seat,
+  // restarted shortly after the inputs settle. A newer run aborts an older one still in progress.
+  const waveMains = mainsEnabled ? mainSpeakers : null;
+  const extraSeatPositions = useMemo(() => seats.slice(1).map(seat => seat.position), [seats]);
+  useEffect(() => {
+    if (activeEngine === 'modal') {
+      setWaveSimulation(null);
+      setWaveMainsSimulation(null);
+      setIsWaveSimulating(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsWaveSimulating(true);
+      setWaveProgress(null);
+      const geometry = roomGeometry ?? shoeboxGeometry(room);
+      const options = {
+        damping: simulationDamping,
+        dimensions: activeEngine === 'fdtd-2d' ? 2 : 3,
+        extraListeners: extraSeatPositions,
+        signal: controller.signal,
+      } as const;
+      const runs = waveMains ? 2 : 1;
+      const progressOf = (offset: number) => (completed: number, total: number) => {
+        setWaveProgress({ completed: offset * total + completed, total: runs * total });
+      };
+
+      try {
+        const subsResult = await simulateFdtdResponse(geometry, subwoofers, listener, options, progressOf(0));
+        const mainsResult = waveMains ? await simulateFdtdResponse(geometry, waveMains, listener, options, progressOf(1)) : null;
+        if (controller.signal.aborted) return;
+        setWaveSimulation(subsResult);
+        setWaveMainsSimulation(mainsResult);
+        setIsWaveSimulating(false);
+      } catch (error) {
+        if (controller.signal.aborted) return; // Superseded by a newer run
+        console.error('Wave simulation failed:', error);
+        setIsWaveSimulating(false);
+      }
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [activeEngine, roomGeometry, room, subwoofers, waveMains, listener, extraSeatPositions, simulationDamping]);
+
+  // Per-mode damping and decay times at the primary seat
+  const roomModeTable = useMemo(() => {
+    const { L, W, H } = room;
+    return analyzeRoomModes(sub, listener, L, W, H, 10, simulationDamping);
+  }, [room, sub, listener, simulationDamping]);
+
+  // Coarse log sweep while a speaker or seat is dragged, the dense grid once it is dropped
+  const responseGrid = isDraggingPoint ? COARSE_FREQUENCY_GRID : DEFAULT_FREQUENCY_GRID;
+
+  // Calculate room response when inputs change
+  // Mains and subs through the crossover; the speaker's anechoic data belongs to the mains only
+  const simulationInput = useMemo((): RoomSimulationInput => ({
+    room,
+    subwoofers,
+    mains: mainsEnabled ? mainSpeakers : null,
+    crossover,
+    mainsSpeakerData: useAnechoicResponse ? speakerData : null,
+    listener,
+    extraSeats: seats.slice(1).map(seat => seat.position),
+    damping: simulationDamping,
+    frequencyGrid: responseGrid,
+  }), [room, subwoofers, mainsEnabled, mainSpeakers, crossover, useAnechoicResponse, speakerData, listener, seats, simulationDamping, responseGrid]);
+
+  // The mode sum runs in the worker; the last result stays on screen until the latest one arrives
+  useEffect(() => {
+    runInWorker('simulate', simulationInput)
+      .then(result => { if (result) setWorkerSimulation(result); })
+      .catch(error => console.error('Room simulation failed:', error));
+  }, [runInWorker, simulationInput]);
+
+  // Until the worker has answered once, solve on the main thread
+  const initialSimulation = useMemo(
+    () => (workerSimulation ? null : runRoomSimulation(simulationInput)),
+    [workerSimulation, simulationInput]
+  );
+  const modalSimulation = workerSimulation ?? initialSimulation;
+
+  // Wave simulation results through the crossover, the same way the worker combines the mode sums
+  const mainsGainLinear = useMemo(
+    () => (useAnechoicResponse && speakerData ? (freq: number) => speakerGainLinear(speakerData, freq) : undefined),
+    [useAnechoicResponse, speakerData]
+  );
+  const waveActive = activeEngine !== 'modal' && waveSimulation !== null;
+  const waveSpeakerSystem = useMemo(() => {
+    if (!waveActive || !mainsEnabled || !waveMainsSimulation) return null;
+    return combineSpeakerSystemBranches(waveSimulation.response, waveMainsSimulation.response, crossover, mainsGainLinear);
+  }, [waveActive, mainsEnabled, waveSimulation, waveMainsSimulation, crossover, mainsGainLinear]);
+
+  const speakerSystemResponse = waveActive ? waveSpeakerSystem : modalSimulation.speakerSystem;
+
+  // Subwoofers through the mode sum, also the reference for the wave simulation cross-check
+  const modalSubResponse = modalSimulation.subResponse;
+
+  const rawResponse = useMemo(() => {
+    if (speakerSystemResponse) return speakerSystemResponse.total;
+    if (waveActive) {
+      return waveSimulation.response.map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+    }
+    return modalSubResponse;
+  }, [speakerSystemResponse, waveActive, waveSimulation, modalSubResponse]);
+
+  const waveCrossCheck = useMemo(
+    () => (waveSimulation && !roomGeometry ? crossCheckFdtd(waveSimulation, modalSubResponse) : null),
+    [waveSimulation, roomGeometry, modalSubResponse]
+  );
+
+  // Complex response at the primary seat (room model and crossover, before the magnitude-only processing)
+  const complexResponse = useMemo(() => {
+    if (speakerSystemResponse) return speakerSystemResponse.complex;
+    if (waveActive) return waveSimulation.response;
+    return modalSimulation.subComplex;
+  }, [speakerSystemResponse, waveActive, waveSimulation, modalSimulation]);
+
+  // Phase and group delay for the chart's phase views
+  const phaseResponse = useMemo(() => analyzeComplexResponse(complexResponse), [complexResponse]);
+
+  // The waterfall, impulse and full-range views are too slow to follow a drag: they keep the state from before it
+  const settledSubwoofers = useFrozenWhile(subwoofers, isDraggingPoint);
+  const settledMains = useFrozenWhile(mainSpeakers, isDraggingPoint);
+  const settledListener = useFrozenWhile(listener, isDraggingPoint);
+  const settledComplexResponse = useFrozenWhile(complexResponse, isDraggingPoint);
+  const settledSpeakerSystem = useFrozenWhile(speakerSystemResponse, isDraggingPoint);
 
   // Apply LF roll-off to the raw modal response
   const responseWithLfRollOff = useMemo(() => {
@@ -483,7 +768,7 @@ export default function RoomModeCalculator() {
     // Start with the response that has LF and Air Absorption applied
     const baseResponse = responseWithAirAbsorption; // Changed from responseWithHfRollOff
 
-    if (useAnechoicResponse && speakerData && baseResponse.length > 0) {
+    if (useAnechoicResponse && speakerData && !mainsEnabled && baseResponse.length > 0) {
       return baseResponse.map(point => {
         const magnitudeBeforeDirectivity = 10**(point.db / 20);
         // Call speakerGainLinear without angle arguments
@@ -496,7 +781,61 @@ export default function RoomModeCalculator() {
     }
     // If not using JBL directivity, the processed response is just the one with LF/Air Absorption
     return baseResponse;
-  }, [responseWithAirAbsorption, speakerData, useAnechoicResponse]);
+  }, [responseWithAirAbsorption, speakerData, useAnechoicResponse, mainsEnabled]);
+
+  // Same processing chain as processedResponse (LF roll-off, air absorption, speaker data), for additional seats
+  const processSeatResponse = useCallback((seatRaw: ModeResponse[], seatPos: Point): ModeResponse[] => {
+    const applyLfCutoff = !useAnechoicResponse && applySpeakerSettings && useLfCutoff && lfCutoffHz > 0;
+    const applyAirAbsorption = applySpeakerSettings && airAbsorptionLevel > 0;
+    const distance = Math.hypot(seatPos.x - sub.x, seatPos.y - sub.y, seatPos.z - sub.z) || 0.1;
+    const F_REF = 20000.0;
+
+    return seatRaw.map(point => {
+      if (point.freq <= 0) return { ...point };
+      let db = point.db;
+      if (applyLfCutoff) db += -10 * Math.log10(1 + Math.pow(lfCutoffHz / point.freq, 4));
+      if (applyAirAbsorption) db += -airAbsorptionLevel * Math.pow(point.freq / F_REF, 2) * distance;
+      if (useAnechoicResponse && speakerData && !mainsEnabled) {
+        const finalMagnitude = 10 ** (db / 20) * speakerGainLinear(speakerData, point.freq);
+        db = Math.max(MIN_CALC_DB_VALUE, 20 * Math.log10(Math.max(1e-9, finalMagnitude)));
+      }
+      return { ...point, db };
+    });
+  }, [useAnechoicResponse, applySpeakerSettings, useLfCutoff, lfCutoffHz, airAbsorptionLevel, sub, speakerData, mainsEnabled]);
+
+  // Raw responses of the additional seats from the engine behind the primary seat
+  const extraSeatResponses = useMemo(() => {
+    if (!waveActive) return modalSimulation.extraSeatResponses;
+    return waveSimulation.extraResponses.map((subs, index) => {
+      const mains = mainsEnabled ? waveMainsSimulation?.extraResponses[index] : undefined;
+      if (mains) return combineSpeakerSystemBranches(subs, mains, crossover, mainsGainLinear).total;
+      return subs.map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+    });
+  }, [waveActive, waveSimulation, waveMainsSimulation, mainsEnabled, crossover, mainsGainLinear, modalSimulation]);
+
+  // Per-seat responses; the primary seat reuses the main processing chain
+  const seatResponses = useMemo(() => {
+    return seats.map((seat, index) => ({
+      name: seat.name,
+      response: index === 0
+        ? processedResponse
+        : processSeatResponse(extraSeatResponses[index - 1] ?? [], seat.position), // Empty until a new seat is simulated
+    }));
+  }, [seats, processedResponse, processSeatResponse, extraSeatResponses]);
+
+  // Individual crossover branches for the chart, so cancellation at the crossover is visible
+  const crossoverBranches = useMemo(() => {
+    if (!speakerSystemResponse) return undefined;
+    return [
+      { name: `Mains (HP ${crossover.frequency} Hz)`, response: speakerSystemResponse.mains },
+      { name: `Subs (LP ${crossover.frequency} Hz)`, response: speakerSystemResponse.subs },
+    ];
+  }, [speakerSystemResponse, crossover.frequency]);
+
+  const seatStatistics = useMemo(() => {
+    if (seatResponses.length < 2) return null;
+    return calculateSeatStatistics(seatResponses.map(seat => seat.response));
+  }, [seatResponses]);
 
   // Generate initial Harman target curve data with optional bass rolloff
   const harmanTargetData = useMemo(() => {
@@ -551,6 +890,12 @@ export default function RoomModeCalculator() {
     }));
   }, [harmanTargetData, harmanAutoBaseline, harmanCurveOffset]); // Updated dependencies
 
+  // Per-seat and spatially averaged error against the target
+  const seatTargetError = useMemo(() => {
+    if (!shiftedHarmanTargetData || shiftedHarmanTargetData.length === 0) return null;
+    return analyzeTargetError(seatResponses.map(seat => seat.response), shiftedHarmanTargetData);
+  }, [seatResponses, shiftedHarmanTargetData]);
+
   // Prepare Listening Window data for the chart
   const listeningWindowCurveData = useMemo(() => {
     if (!speakerData || !speakerData.freqs || !speakerData.responses.ListeningWindow) {
@@ -569,6 +914,23 @@ export default function RoomModeCalculator() {
 
   // Calculate Schroeder frequency for the room
   const schroederFrequency = useMemo(() => {
+    const { L, W, H } = room;
+    if (Object.keys(surfaceSpectra).length > 0 || bassTrapAbsorbers.length > 0) {
+      // Area-weighted absorption per frequency, library materials evaluated from their spectra
+      // and bass traps adding their own absorption area
+      const surfaceAreas: Record<RoomSurface, number> = {
+        front: L * H, back: L * H, left: W * H, right: W * H, ceiling: L * W, floor: L * W,
+      };
+      const totalArea = Object.values(surfaceAreas).reduce((sum, area) => sum + area, 0);
+      return calculateSchroederFrequency(room, (freq) => (Object.keys(surfaceAreas) as RoomSurface[]).reduce((sum, surface) => {
+        const spectrum = surfaceSpectra[surface];
+        const alpha = spectrum
+          ? absorptionAt(spectrum, freq)
+          : Math.max(0.01, Math.min(1.0, surfaceAbsorptions[surface] + masterAbsorptionAdjust));
+        return sum + alpha * surfaceAreas[surface];
+      }, bassTrapAbsorbers.reduce((sum, trap) => sum + absorptionAt(trap.spectrum, freq) * trap.area, 0)) / totalArea);
+    }
+
     // Calculate average absorption from surface absorptions
     const absorptions = Object.values(surfaceAbsorptions);
     const avgAbsorption = absorptions.reduce((sum, abs) => sum + abs, 0) / absorptions.length;
@@ -577,7 +939,7 @@ export default function RoomModeCalculator() {
     const effectiveAbsorption = Math.max(0.01, Math.min(1.0, avgAbsorption + masterAbsorptionAdjust));
     
     return calculateSchroederFrequency(room, effectiveAbsorption);
-  }, [room, surfaceAbsorptions, masterAbsorptionAdjust]);
+  }, [room, surfaceAbsorptions, surfaceSpectra, bassTrapAbsorbers, masterAbsorptionAdjust]);
 
   // Handle surface absorption changes
   const handleSurfaceAbsorptionChange = (surface: string, value: number) => {
@@ -587,6 +949,13 @@ export default function RoomModeCalculator() {
     }));
   };
 
+  const handleSurfaceMaterialChange = (surface: RoomSurface, materialId: string | null) => {
+    setSurfaceMaterials(prev => ({
+      ...prev,
+      [surface]: materialId,
+    }));
+  };
+
   // Calculate EQ settings using the new visual effects system
   // NOTE: This will only run when manually triggered by Generate button, not when checkbox changes
   const generateEQWithVisualEffects = useCallback(async () => {
@@ -596,7 +965,8 @@ export default function RoomModeCalculator() {
         enabled: false,
         maxBoost: eqMaxBoost,
         maxCut: eqMaxCut,
-        smoothing: eqSmoothing
+        smoothing: eqSmoothing,
+        sampleRate: eqSampleRate
       });
       setCurrentEQPass(0);
       setActiveEQBands(new Set());
@@ -611,6 +981,7 @@ export default function RoomModeCalculator() {
       maxBoost: eqMaxBoost,
       maxCut: eqMaxCut,
       smoothing: eqSmoothing,
+      sampleRate: eqSampleRate,
       minQ: 0.7,
       maxQ: 12.0,
       schroederFreq: schroederFrequency
@@ -642,7 +1013,8 @@ export default function RoomModeCalculator() {
           enabled: true,
           maxBoost: eqMaxBoost,
           maxCut: eqMaxCut,
-          smoothing: eqSmoothing
+          smoothing: eqSmoothing,
+          sampleRate: eqSampleRate
         });
       },
       
@@ -663,14 +1035,37 @@ export default function RoomModeCalculator() {
       }
     };
 
+    // Several seats are fitted together by their weights, otherwise the main seat alone
+    const eqResponse = eqMultiSeat && seatResponses.length > 1
+      ? seatResponses.map((seat, index) => ({ response: seat.response, weight: seats[index]?.eqWeight ?? 1 }))
+      : processedResponse;
+
     // Execute visual EQ generation with morphing effects
     try {
-      const finalEQSettings = await generateOptimalEQWithVisuals(processedResponse, shiftedHarmanTargetData, eqOptions, visualCallbacks);
+      const eqResult = await runInWorker(
+        'generateEQ',
+        {
+          method: eqMethod,
+          response: eqResponse,
+          target: shiftedHarmanTargetData,
+          options: eqOptions,
+          boost: { mode: eqBoostMode, budgetDbOct: eqBoostBudget },
+        },
+        progress => {
+          if (progress.event === 'passStart') visualCallbacks.onPassStart(progress.passNumber, progress.passName);
+          else if (progress.event === 'bandsGenerated') visualCallbacks.onBandsGenerated(progress.passNumber, progress.newBands, progress.activeBandFreqs);
+          else if (progress.event === 'passComplete') visualCallbacks.onPassComplete(progress.passNumber, progress.totalBands, progress.correctedResponse);
+          else visualCallbacks.onProgressUpdate(progress.message);
+        }
+      );
+      if (!eqResult) return; // Superseded by a newer run
+      const finalEQSettings = eqResult.eqSettings;
       setCalculatedEQSettings(finalEQSettings);
+      setEqErrorByMethod(prev => ({ ...prev, [eqMethod]: { initial: eqResult.initialRmsError, final: eqResult.rmsError } }));
       setCurrentEQPass(0); // Reset to normal state
       setActiveEQBands(new Set());
-      setEqIterationProgress('🎉 4-Pass EQ Generation Complete!');
-      console.log(`🎬 VISUAL: Final EQ complete with ${finalEQSettings.bands.length} bands`);
+      setEqIterationProgress(eqMethod === 'least-squares' ? '🎉 Least-Squares EQ Fit Complete!' : '🎉 4-Pass EQ Generation Complete!');
+      console.log(`🎬 VISUAL: Final EQ complete with ${finalEQSettings.bands.length} bands, RMS ${eqResult.initialRmsError.toFixed(2)}dB → ${eqResult.rmsError.toFixed(2)}dB (${eqMethod})`);
       
       // Clear progress message after a moment
       setTimeout(() => {
@@ -682,7 +1077,13 @@ export default function RoomModeCalculator() {
       setActiveEQBands(new Set());
       setEqIterationProgress('❌ EQ generation failed');
     }
-  }, [processedResponse, shiftedHarmanTargetData, eqEnabled, eqNumBands, eqMaxBoost, eqMaxCut, eqSmoothing, schroederFrequency, calculatedEQSettings.bands]);
+  }, [processedResponse, seatResponses, seats, eqMultiSeat, shiftedHarmanTargetData, eqEnabled, eqNumBands, eqMaxBoost, eqMaxCut, eqSmoothing, eqSampleRate, eqMethod, eqBoostMode, eqBoostBudget, schroederFrequency, calculatedEQSettings.bands, runInWorker]);
+
+  // The bands stay, only their digital realization changes
+  const handleEqSampleRateChange = (sampleRate: number) => {
+    setEqSampleRate(sampleRate);
+    setCalculatedEQSettings(prev => ({ ...prev, sampleRate }));
+  };
 
   // Handle Generate EQ button click
   const handleGenerateEQ = () => {
@@ -723,6 +1124,28 @@ export default function RoomModeCalculator() {
     return corrected;
   }, [processedResponse, calculatedEQSettings, eqEnabled]);
 
+  // Every seat through the current EQ, for before/after curves and errors per seat
+  const eqSeatResponses = useMemo(() => {
+    if (!eqEnabled || !calculatedEQSettings.enabled || !calculatedEQSettings.bands.length || seatResponses.length < 2) return undefined;
+    return seatResponses.map(seat => ({ name: seat.name, response: applyEQToResponse(seat.response, calculatedEQSettings) }));
+  }, [seatResponses, calculatedEQSettings, eqEnabled]);
+
+  // The selected speaker drives the EQ'd response only when its anechoic data is used
+  const excursionLimit = useMemo(() => (
+    useAnechoicResponse ? excursionLimitFromSpecs(speakerData?.metadata) : null
+  ), [useAnechoicResponse, speakerData]);
+
+  // Maximum boost, preamp attenuation and excursion check of the current EQ
+  const eqHeadroom = useMemo(() => {
+    if (!eqEnabled || !calculatedEQSettings.enabled || !calculatedEQSettings.bands.length) return null;
+    return analyzeEQHeadroom(calculatedEQSettings, excursionLimit);
+  }, [eqEnabled, calculatedEQSettings, excursionLimit]);
+
+  const eqSeatTargetError = useMemo(() => {
+    if (!eqSeatResponses || !shiftedHarmanTargetData || shiftedHarmanTargetData.length === 0) return null;
+    return analyzeTargetError(eqSeatResponses.map(seat => seat.response), shiftedHarmanTargetData);
+  }, [eqSeatResponses, shiftedHarmanTargetData]);
+
   // Debug EQ corrected response changes
   useEffect(() => {
     console.log('🔍 EQ Corrected Response changed:', {
@@ -757,21 +1180,255 @@ export default function RoomModeCalculator() {
   const handleRoomChange = (key: keyof RoomDimensions, value: number) => {
     setRoom((prev) => {
       const updated = { ...prev, [key]: value };
-      // Ensure points remain inside room
-      setSub(clampToRoom(sub, updated));
-      setListener(clampToRoom(listener, updated));
+      // Speakers and seats are clamped to the new room once its geometry updates
+      setBassTraps(prevTraps => prevTraps.map(trap => constrainBassTrap(trap, updated)));
       return updated;
     });
+    setListeningHeatmap(null); // Cells no longer match the floor
+  };
+
+  const handleRoomShapeChange = (shape: RoomShapeSettings) => {
+    setRoomShape(shape);
+    setListeningHeatmap(null); // Cells inside and outside the room have changed
   };
 
-  // Handle subwoofer position changes
+  // Handle changes to the main speakers (position, gain, delay, polarity)
+  const handleMainSpeakerChange = useCallback((id: string, changes: Partial<Omit<SubwooferSource, 'id'>>) => {
+    const clamped = changes.position ? { ...changes, position: clampPosition(changes.position) } : changes;
+    setMainSpeakers((prev) => prev.map((main) => (main.id === id ? { ...main, ...clamped } : main)));
+  }, [clampPosition]);
+
+  const handleMainSpeakerPositionChange = useCallback((id: string, position: Point) => {
+    handleMainSpeakerChange(id, { position });
+  }, [handleMainSpeakerChange]);
+
+  // Handle primary subwoofer position changes
   const handleSubChange = (key: keyof Point, value: number) => {
-    setSub((prev) => ({ ...prev, [key]: value }));
+    setSubwoofers((prev) => prev.map((s, i) => (i === 0 ? { ...s, position: clampPosition({ ...s.position, [key]: value }) } : s)));
+  };
+
+  // Handle changes to any subwoofer (position, gain, delay, polarity)
+  const handleSubwooferChange = useCallback((id: string, changes: Partial<Omit<SubwooferSource, 'id'>>) => {
+    const clamped = changes.position ? { ...changes, position: clampPosition(changes.position) } : changes;
+    setSubwoofers((prev) => prev.map((s) => (s.id === id ? { ...s, ...clamped } : s)));
+  }, [clampPosition]);
+
+  const handleSubwooferPositionChange = useCallback((id: string, position: Point) => {
+    handleSubwooferChange(id, { position });
+  }, [handleSubwooferChange]);
+
+  // Add a subwoofer, mirrored across the room width from the primary sub
+  const handleAddSubwoofer = () => {
+    setSubwoofers((prev) => {
+      if (prev.length >= MAX_SUBWOOFERS) return prev;
+      const primary = prev[0].position;
+      const usedIds = new Set(prev.map(s => s.id));
+      let nextNumber = prev.length + 1;
+      while (usedIds.has(`sub-${nextNumber}`)) nextNumber++;
+      const newSub: SubwooferSource = {
+        id: `sub-${nextNumber}`,
+        position: clampPosition({ x: primary.x, y: room.W - primary.y, z: primary.z }),
+        gainDb: 0,
+        delayMs: 0,
+        polarity: 1,
+      };
+      return [...prev, newSub];
+    });
+  };
+
+  const handleRemoveSubwoofer = (id: string) => {
+    setSubwoofers((prev) => prev.filter((s, i) => i === 0 || s.id !== id));
+    if (selectedPoint === id) setSelectedPoint(null);
+  };
+
+  // Run the multi-sub optimizer; the result is only applied once accepted
+  const handleRunMultiSubOptimizer = async () => {
+    const controller = new AbortController();
+    msoControllerRef.current = controller;
+    setIsMsoRunning(true);
+    setMsoIterations([]);
+    setMsoResult(null);
+    try {
+      const result = await optimizeMultiSub(
+        subwoofers,
+        {
+          room,
+          listenerPositions: seats.map(seat => seat.position),
+          baseQFactor: simulationDamping,
+          maxBoost: eqMaxBoost,
+          maxCut: eqMaxCut,
+          bassRolloffFreq: harmanBassRolloffEnabled ? harmanBassRolloffFreq : undefined,
+          bassRolloffSlope: harmanBassRolloffEnabled ? harmanBassRolloffSlope : undefined,
+        },
+        (iteration) => setMsoIterations(prev => [...prev, iteration]),
+        () => controller.signal.aborted
+      );
+      setMsoResult(result);
+    } catch (error) {
+      if (!controller.signal.aborted) console.error('Multi-sub optimization failed:', error);
+    } finally {
+      if (msoControllerRef.current === controller) msoControllerRef.current = null;
+      setIsMsoRunning(false);
+    }
+  };
+
+  const handleCancelMultiSubOptimizer = () => {
+    msoControllerRef.current?.abort();
+  };
+
+  // Stop a running optimization when the calculator unmounts
+  useEffect(() => () => msoControllerRef.current?.abort(), []);
+
+  const handleAcceptMultiSubResult = () => {
+    if (!msoResult) return;
+    setSubwoofers(msoResult.subwoofers.map(s => ({ ...s, position: clampPosition(s.position) })));
+    if (msoResult.eqSettings.bands.length > 0) {
+      setCalculatedEQSettings(msoResult.eqSettings);
+      setEqEnabled(true);
+    }
+    setMsoResult(null);
+    setMsoIterations([]);
   };
 
-  // Handle listener position changes
+  // Keep-out zones for the sub position search
+  const handleAddKeepOutZone = () => {
+    setKeepOutZones(prev => [
+      ...prev,
+      { id: `zone-${Date.now()}`, xMin: room.L / 2 - 0.5, xMax: room.L / 2 + 0.5, yMin: 0, yMax: 1.0 },
+    ]);
+  };
+
+  const handleKeepOutZoneChange = (id: string, changes: Partial<Omit<KeepOutZone, 'id'>>) => {
+    setKeepOutZones(prev => prev.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  const handleRemoveKeepOutZone = (id: string) => {
+    setKeepOutZones(prev => prev.filter(zone => zone.id !== id));
+  };
+
+  // Bass traps: corner traps start floor-to-ceiling in the front-left corner, panels centred on the back wall
+  const handleAddBassTrap = (kind: BassTrapKind) => {
+    const trap: BassTrap = kind === 'corner'
+      ? { id: `trap-${Date.now()}`, kind, surface: 'front', corner: 'front-left', position: { x: 0, y: 0, z: room.H / 2 }, width: 0.6, height: room.H, materialId: 'porous-20' }
+      : { id: `trap-${Date.now()}`, kind, surface: 'back', corner: 'front-left', position: { x: room.L / 2, y: room.W, z: room.H / 2 }, width: 1.2, height: 0.6, materialId: 'porous-10-gap' };
+    setBassTraps(prev => [...prev, constrainBassTrap(trap, room)]);
+  };
+
+  const handleBassTrapChange = (id: string, changes: Partial<Omit<BassTrap, 'id'>>) => {
+    setBassTraps(prev => prev.map(trap => (trap.id === id ? constrainBassTrap({ ...trap, ...changes }, room) : trap)));
+  };
+
+  const handleRemoveBassTrap = (id: string) => {
+    setBassTraps(prev => prev.filter(trap => trap.id !== id));
+  };
+
+  // Search candidate positions for the primary sub against the current target
+  const handleSearchSubPositions = async () => {
+    setIsPlacementSearching(true);
+    setSubCandidates([]);
+    try {
+      const candidates = await searchSubPositions(
+        {
+          room,
+          geometry: roomGeometry,
+          listenerPositions: seats.map(seat => seat.position),
+          target: shiftedHarmanTargetData,
+          subwoofers,
+          constraint: placementConstraint,
+          wall: placementWall,
+          keepOutZones,
+          gridStep: placementGridStep,
+          topN: placementTopN,
+          baseQFactor: simulationDamping,
+        },
+        (completed, total) => setPlacementProgress({ completed, total })
+      );
+      setSubCandidates(candidates);
+    } catch (error) {
+      console.error('Sub position search failed:', error);
+    } finally {
+      setIsPlacementSearching(false);
+      setPlacementProgress(null);
+    }
+  };
+
+  const handleApplySubCandidate = (candidate: SubPositionCandidate) => {
+    handleSubwooferChange(subwoofers[0].id, { position: candidate.position });
+  };
+
+  // Score the floor grid at ear height for the current sub layout
+  const handleComputeHeatmap = async () => {
+    setIsHeatmapComputing(true);
+    try {
+      const heatmap = await calculateListeningHeatmap(
+        {
+          room,
+          geometry: roomGeometry,
+          subwoofers,
+          target: shiftedHarmanTargetData,
+          earHeight: heatmapEarHeight,
+          gridStep: heatmapGridStep,
+          baseQFactor: simulationDamping,
+        },
+        (completed, total) => setHeatmapProgress({ completed, total })
+      );
+      setListeningHeatmap(heatmap);
+    } catch (error) {
+      console.error('Listening heatmap failed:', error);
+    } finally {
+      setIsHeatmapComputing(false);
+      setHeatmapProgress(null);
+    }
+  };
+
+  const handleDiscardMultiSubResult = () => {
+    setMsoResult(null);
+    setMsoIterations([]);
+  };
+
+  // Handle primary listener position changes
   const handleListenerChange = (key: keyof Point, value: number) => {
-    setListener((prev) => ({ ...prev, [key]: value }));
+    setSeats((prev) => prev.map((seat, i) => (i === 0 ? { ...seat, position: clampPosition({ ...seat.position, [key]: value }) } : seat)));
+  };
+
+  // Handle changes to any seat (name, position)
+  const handleSeatChange = useCallback((id: string, changes: Partial<Omit<ListeningSeat, 'id'>>) => {
+    const clamped = changes.position ? { ...changes, position: clampPosition(changes.position) } : changes;
+    setSeats((prev) => prev.map((seat) => (seat.id === id ? { ...seat, ...clamped } : seat)));
+  }, [clampPosition]);
+
+  const handleSeatPositionChange = useCallback((id: string, position: Point) => {
+    handleSeatChange(id, { position });
+  }, [handleSeatChange]);
+
+  // Move the main seat to a heatmap cell
+  const handleHeatmapCellClick = useCallback((cell: ListeningHeatmapCell) => {
+    if (!listeningHeatmap) return;
+    handleSeatPositionChange(seats[0].id, { x: cell.x, y: cell.y, z: listeningHeatmap.earHeight });
+  }, [handleSeatPositionChange, listeningHeatmap, seats]);
+
+  // Add a seat next to the primary seat, alternating left and right
+  const handleAddSeat = () => {
+    setSeats((prev) => {
+      if (prev.length >= MAX_SEATS) return prev;
+      const primary = prev[0].position;
+      const usedIds = new Set(prev.map(seat => seat.id));
+      let nextNumber = prev.length + 1;
+      while (usedIds.has(`seat-${nextNumber}`)) nextNumber++;
+      const side = prev.length % 2 === 1 ? 1 : -1;
+      const offset = Math.ceil(prev.length / 2) * 0.6;
+      const newSeat: ListeningSeat = {
+        id: `seat-${nextNumber}`,
+        name: `Seat ${nextNumber}`,
+        position: clampPosition({ x: primary.x + side * offset, y: primary.y, z: primary.z }),
+      };
+      return [...prev, newSeat];
+    });
+  };
+
+  const handleRemoveSeat = (id: string) => {
+    setSeats((prev) => prev.filter((seat, i) => i === 0 || seat.id !== id));
+    if (selectedPoint === id) setSelectedPoint(null);
   };
 
   // Handle EQ export
@@ -863,6 +1520,8 @@ export default function RoomModeCalculator() {
               onRoomChange={handleRoomChange}
               surfaceAbsorptions={surfaceAbsorptions}
               onSurfaceAbsorptionChange={handleSurfaceAbsorptionChange}
+              surfaceMaterials={surfaceMaterials}
+              onSurfaceMaterialChange={handleSurfaceMaterialChange}
               onRandomizeAbsorptions={handleRandomizeAbsorptions}
               onResetAbsorptions={handleResetAbsorptions}
               masterAbsorptionAdjust={masterAbsorptionAdjust}
@@ -915,13 +1574,41 @@ export default function RoomModeCalculator() {
               onEqMaxCutChange={setEqMaxCut}
               eqSmoothing={eqSmoothing}
               onEqSmoothingChange={setEqSmoothing}
+              eqSampleRate={eqSampleRate}
+              onEqSampleRateChange={handleEqSampleRateChange}
+              eqMethod={eqMethod}
+              onEqMethodChange={setEqMethod}
+              eqErrorByMethod={eqErrorByMethod}
+              eqMultiSeat={eqMultiSeat}
+              onEqMultiSeatChange={setEqMultiSeat}
+              seatCount={seats.length}
               showEQCurve={showEQCurve}
               onShowEQCurveChange={setShowEQCurve}
               eqBandCount={calculatedEQSettings.bands.length}
+              eqBoostMode={eqBoostMode}
+              onEqBoostModeChange={setEqBoostMode}
+              eqBoostBudget={eqBoostBudget}
+              onEqBoostBudgetChange={setEqBoostBudget}
+              eqHeadroom={eqHeadroom}
+              excursionLimit={excursionLimit}
               onGenerateEQ={handleGenerateEQ}
               onExportEQ={handleExportEQ}
               speakerData={speakerData}
             />
+            <RoomShapePanel
+              room={room}
+              shape={roomShape}
+              onShapeChange={handleRoomShapeChange}
+            />
+            <WaveSolverPanel
+              engine={activeEngine}
+              onEngineChange={setResponseEngine}
+              modalAvailable={!roomGeometry}
+              isSimulating={isWaveSimulating}
+              progress={waveProgress}
+              result={activeEngine !== 'modal' ? waveSimulation : null}
+              crossCheck={activeEngine !== 'modal' ? waveCrossCheck : null}
+            />
           </div>
         </div>
 
@@ -945,15 +1632,25 @@ export default function RoomModeCalculator() {
             >
               <RoomVisualization
                 room={room}
-                sub={sub}
+                subwoofers={subwoofers}
                 listener={listener}
+                seats={seats}
                 selectedPoint={selectedPoint}
-                onSubPositionChange={setSub}
-                onListenerPositionChange={setListener}
+                onSubwooferPositionChange={handleSubwooferPositionChange}
+                onSeatPositionChange={handleSeatPositionChange}
                 onSelectPoint={setSelectedPoint}
                 resetTrigger={cameraResetCounter}
                 showAngleGuidelines={showSpeakerGuidelines}
                 highlightedSurface={highlightedSurface}
+                subCandidates={subCandidates}
+                keepOutZones={keepOutZones}
+                listeningHeatmap={listeningHeatmap}
+                bassTraps={bassTraps}
+                roomGeometry={roomGeometry}
+                mains={mainsEnabled ? mainSpeakers : undefined}
+                onMainPositionChange={handleMainSpeakerPositionChange}
+                onDragStateChange={setIsDraggingPoint}
+                onHeatmapCellClick={handleHeatmapCellClick}
               />
             </div>
           </div>
@@ -989,6 +1686,12 @@ export default function RoomModeCalculator() {
                      currentEQPass={currentEQPass}
                      activeEQBands={activeEQBands}
                      showPassAnimation={showPassAnimation}
+                     seatResponses={seatResponses.length > 1 ? seatResponses : undefined}
+                     eqSeatResponses={eqSeatResponses}
+                     spatialAverage={seatStatistics?.average}
+                     seatStdDev={seatStatistics?.standardDeviation}
+                     crossoverBranches={crossoverBranches}
+                     phaseResponse={phaseResponse}
                    />
                 </div>
               </CardContent>
@@ -1089,6 +1792,126 @@ export default function RoomModeCalculator() {
               onSubChange={handleSubChange}
               onListenerChange={handleListenerChange}
             />
+            <div className="px-4">
+              <ListeningSeatControls
+                room={room}
+                seats={seats}
+                maxSeats={MAX_SEATS}
+                targetError={seatTargetError}
+                eqTargetError={eqSeatTargetError}
+                showEqWeights={eqMultiSeat}
+                onAddSeat={handleAddSeat}
+                onRemoveSeat={handleRemoveSeat}
+                onSeatChange={handleSeatChange}
+              />
+              <SubwooferControls
+                room={room}
+                subwoofers={subwoofers}
+                maxSubwoofers={MAX_SUBWOOFERS}
+                onAddSubwoofer={handleAddSubwoofer}
+                onRemoveSubwoofer={handleRemoveSubwoofer}
+                onSubwooferChange={handleSubwooferChange}
+              />
+              <MainSpeakerControls
+                room={room}
+                enabled={mainsEnabled}
+                onEnabledChange={setMainsEnabled}
+                mains={mainSpeakers}
+                onMainChange={handleMainSpeakerChange}
+                crossover={crossover}
+                onCrossoverChange={(changes) => setCrossover(prev => ({ ...prev, ...changes }))}
+              />
+              <MultiSubOptimizerPanel
+                subwooferCount={subwoofers.length}
+                seatCount={seats.length}
+                isRunning={isMsoRunning}
+                iterations={msoIterations}
+                result={msoResult}
+                onRun={handleRunMultiSubOptimizer}
+                onCancel={handleCancelMultiSubOptimizer}
+                onAccept={handleAcceptMultiSubResult}
+                onDiscard={handleDiscardMultiSubResult}
+              />
+              <SubPlacementPanel
+                room={room}
+                constraint={placementConstraint}
+                onConstraintChange={setPlacementConstraint}
+                wall={placementWall}
+                onWallChange={setPlacementWall}
+                gridStep={placementGridStep}
+                onGridStepChange={setPlacementGridStep}
+                topN={placementTopN}
+                onTopNChange={setPlacementTopN}
+                keepOutZones={keepOutZones}
+                onAddKeepOutZone={handleAddKeepOutZone}
+                onRemoveKeepOutZone={handleRemoveKeepOutZone}
+                onKeepOutZoneChange={handleKeepOutZoneChange}
+                isSearching={isPlacementSearching}
+                progress={placementProgress}
+                candidates={subCandidates}
+                onSearch={handleSearchSubPositions}
+                onApplyCandidate={handleApplySubCandidate}
+                onClearCandidates={() => setSubCandidates([])}
+                boundingBoxOnly={roomGeometry !== null}
+              />
+              <TimeDomainPanel
+                complexResponse={settledComplexResponse}
+                eqSettings={eqEnabled ? calculatedEQSettings : null}
+              />
+              <FullRangePanel
+                room={room}
+                mains={settledMains}
+                enabled={mainsEnabled}
+                listener={settledListener}
+                crossover={crossover}
+                speakerData={useAnechoicResponse ? speakerData : null}
+                absorption={effectiveSurfaceAbsorptions}
+                absorptionSpectra={surfaceSpectra}
+                modalResponse={settledSpeakerSystem ? settledSpeakerSystem.total : null}
+                schroederFrequency={schroederFrequency}
+              />
+              <SbirPanel
+                room={room}
+                mains={mainSpeakers}
+                enabled={mainsEnabled}
+                listener={listener}
+                crossover={crossover}
+                speakerData={useAnechoicResponse ? speakerData : null}
+                absorption={effectiveSurfaceAbsorptions}
+                absorptionSpectra={surfaceSpectra}
+                onMainPositionChange={handleMainSpeakerPositionChange}
+              />
+              <BassTrapPanel
+                room={room}
+                traps={bassTraps}
+                enabled={applySurfaceAbsorption}
+                onAddTrap={handleAddBassTrap}
+                onRemoveTrap={handleRemoveBassTrap}
+                onTrapChange={handleBassTrapChange}
+              />
+              <ModeDecayTable modes={roomModeTable} boundingBoxOnly={roomGeometry !== null} />
+              <WaterfallPanel
+                room={room}
+                subwoofers={settledSubwoofers}
+                listener={settledListener}
+                baseQFactor={simulationDamping}
+                eqSettings={eqEnabled ? calculatedEQSettings : null}
+              />
+              <ListeningHeatmapPanel
+                room={room}
+                earHeight={heatmapEarHeight}
+                onEarHeightChange={setHeatmapEarHeight}
+                gridStep={heatmapGridStep}
+                onGridStepChange={setHeatmapGridStep}
+                isComputing={isHeatmapComputing}
+                progress={heatmapProgress}
+                heatmap={listeningHeatmap}
+                onCompute={handleComputeHeatmap}
+                onMoveListener={handleHeatmapCellClick}
+                onClear={() => setListeningHeatmap(null)}
+                boundingBoxOnly={roomGeometry !== null}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,142 @@
+import { Slider } from '@/components/ui/slider';
+import { RoomDimensions, RoomSurface } from '@/utils/roomModeCalculations';
+import { MATERIAL_LIBRARY } from '@/utils/acousticMaterials';
+import { BassTrap, BassTrapKind, RoomCorner, surfaceAxes } from '@/utils/bassTraps';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface BassTrapPanelProps {
+  room: RoomDimensions;
+  traps: BassTrap[];
+  enabled: boolean; // Traps only take part with surface absorption applied
+  onAddTrap: (kind: BassTrapKind) => void;
+  onRemoveTrap: (id: string) => void;
+  onTrapChange: (id: string, changes: Partial<Omit<BassTrap, 'id'>>) => void;
+}
+
+const SURFACE_OPTIONS: RoomSurface[] = ['front', 'back', 'left', 'right', 'ceiling', 'floor'];
+const CORNER_OPTIONS: RoomCorner[] = ['front-left', 'front-right', 'back-left', 'back-right'];
+
+const extentOf = (axis: 'x' | 'y' | 'z', room: RoomDimensions) => (axis === 'x' ? room.L : axis === 'y' ? room.W : room.H);
+
+export function BassTrapPanel({ room, traps, enabled, onAddTrap, onRemoveTrap, onTrapChange }: BassTrapPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const renderSlider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center text-xs">
+        <Label className="text-black">{label}</Label>
+        <span className="font-mono text-black">{value.toFixed(2)} m</span>
+      </div>
+      <Slider min={min} max={Math.max(min, max)} step={0.05} value={[value]} onValueChange={([v]) => onChange(v)} />
+    </div>
+  );
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Bass Traps</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Bass Traps" : "Expand Bass Traps"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[4000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-3">
+          <p className="text-xs text-black">
+            Each trap damps a mode by its area and absorption, weighted by the mode's pressure where it sits: traps in pressure maxima work hardest.
+            {!enabled && ' Enable surface absorption in the room settings to include them.'}
+          </p>
+
+          {traps.map((trap, index) => {
+            const axes = surfaceAxes(trap.surface);
+            return (
+              <div key={trap.id} className="p-3 border border-black bg-gray-50 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-semibold text-black">
+                    {trap.kind === 'corner' ? 'Corner Trap' : 'Panel'} {index + 1}
+                  </span>
+                  <Button variant="ghost" size="xs" onClick={() => onRemoveTrap(trap.id)} title="Remove trap">
+                    <Trash2 size={14} className="text-black" />
+                  </Button>
+                </div>
+
+                <Select value={trap.materialId} onValueChange={(value) => onTrapChange(trap.id, { materialId: value })}>
+                  <SelectTrigger className="w-full h-8 text-xs bg-white border-black text-black focus:ring-black">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white border-black text-black">
+                    {MATERIAL_LIBRARY.filter(material => material.category !== 'surface').map(material => (
+                      <SelectItem key={material.id} value={material.id} className="text-xs hover:bg-gray-200 focus:bg-gray-300">
+                        {material.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {trap.kind === 'corner' ? (
+                  <>
+                    <Select value={trap.corner} onValueChange={(value) => onTrapChange(trap.id, { corner: value as RoomCorner })}>
+                      <SelectTrigger className="w-full h-8 text-xs bg-white border-black text-black focus:ring-black capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-black text-black">
+                        {CORNER_OPTIONS.map(corner => (
+                          <SelectItem key={corner} value={corner} className="text-xs capitalize hover:bg-gray-200 focus:bg-gray-300">
+                            {corner.replace('-', ' ')} corner
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {renderSlider('Face Width', trap.width, 0.2, 1.2, v => onTrapChange(trap.id, { width: v }))}
+                    {renderSlider('Height', trap.height, 0.3, room.H, v => onTrapChange(trap.id, { height: v, position: { ...trap.position, z: v / 2 } }))}
+                  </>
+                ) : (
+                  <>
+                    <Select value={trap.surface} onValueChange={(value) => onTrapChange(trap.id, { surface: value as RoomSurface })}>
+                      <SelectTrigger className="w-full h-8 text-xs bg-white border-black text-black focus:ring-black capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white border-black text-black">
+                        {SURFACE_OPTIONS.map(surface => (
+                          <SelectItem key={surface} value={surface} className="text-xs capitalize hover:bg-gray-200 focus:bg-gray-300">
+                            {surface}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {renderSlider(`${axes.widthAxis.toUpperCase()} Position`, trap.position[axes.widthAxis], 0, extentOf(axes.widthAxis, room),
+                      v => onTrapChange(trap.id, { position: { ...trap.position, [axes.widthAxis]: v } }))}
+                    {renderSlider(`${axes.heightAxis.toUpperCase()} Position`, trap.position[axes.heightAxis], 0, extentOf(axes.heightAxis, room),
+                      v => onTrapChange(trap.id, { position: { ...trap.position, [axes.heightAxis]: v } }))}
+                    {renderSlider('Width', trap.width, 0.3, extentOf(axes.widthAxis, room), v => onTrapChange(trap.id, { width: v }))}
+                    {renderSlider('Height', trap.height, 0.3, extentOf(axes.heightAxis, room), v => onTrapChange(trap.id, { height: v }))}
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center space-x-2">
+            <Button variant="default" size="sm" className="flex-1" onClick={() => onAddTrap('corner')}>
+              <Plus size={16} className="text-black" />
+              Corner Trap
+            </Button>
+            <Button variant="default" size="sm" className="flex-1" onClick={() => onAddTrap('panel')}>
+              <Plus size={16} className="text-black" />
+              Wall Panel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ interface DraggablePointProps {
   camera: THREE.Camera;
   renderer: THREE.WebGLRenderer;
   type: 'speaker' | 'head';
+  onDragStateChange?: (isDragging: boolean) => void;
 }
 
 const DraggablePoint: React.FC<DraggablePointProps> = ({ 
@@ -23,7 +24,8 @@ const DraggablePoint: React.FC<DraggablePointProps> = ({
   scene,
   camera,
   renderer,
-  type
+  type,
+  onDragStateChange
 }) => {
   const meshRef = useRef<THREE.Mesh | null>(null);
   const isDragging = useRef(false);
@@ -126,6 +128,7 @@ const DraggablePoint: React.FC<DraggablePointProps> = ({
         onSelect();
         if (isSelected) {
           isDragging.current = true;
+          onDragStateChange?.(true);
           
           plane.current.setFromNormalAndCoplanarPoint(
             camera.getWorldDirection(new THREE.Vector3()).negate(),
@@ -162,8 +165,11 @@ const DraggablePoint: React.FC<DraggablePointProps> = ({
       }
     };
 
+    // Also released outside the canvas, so the drag state cannot stay stuck on
     const handlePointerUp = () => {
+      if (!isDragging.current) return;
       isDragging.current = false;
+      onDragStateChange?.(false);
       
       if (meshRef.current) {
         onPositionChange({
@@ -177,7 +183,7 @@ const DraggablePoint: React.FC<DraggablePointProps> = ({
     // Add event listeners
     renderer.domElement.addEventListener('mousedown', handlePointerDown);
     renderer.domElement.addEventListener('mousemove', handlePointerMove);
-    renderer.domElement.addEventListener('mouseup', handlePointerUp);
+    window.addEventListener('mouseup', handlePointerUp);
 
     // Update position if it changes externally
     if (meshRef.current) {
@@ -189,13 +195,20 @@ const DraggablePoint: React.FC<DraggablePointProps> = ({
       cancelAnimationFrame(animationFrameId); // Ensure to cancel the frame
       renderer.domElement.removeEventListener('mousedown', handlePointerDown);
       renderer.domElement.removeEventListener('mousemove', handlePointerMove);
-      renderer.domElement.removeEventListener('mouseup', handlePointerUp);
+      window.removeEventListener('mouseup', handlePointerUp);
       
       if (meshRef.current) {
         scene.remove(meshRef.current);
       }
     };
-  }, [position, color, isSelected, scene, camera, renderer, onPositionChange, onSelect, type]);
+  }, [position, color, isSelected, scene, camera, renderer, onPositionChange, onSelect, type, onDragStateChange]);
+
+  // A point removed mid-drag still ends the drag
+  const onDragStateChangeRef = useRef(onDragStateChange);
+  onDragStateChangeRef.current = onDragStateChange;
+  useEffect(() => () => {
+    if (isDragging.current) onDragStateChangeRef.current?.(false);
+  }, []);
 
   return null; // We're directly manipulating the Three.js scene
 };
@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  type ChartOptions,
+} from 'chart.js';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  CrossoverSettings,
+  ModeResponse,
+  Point,
+  RoomDimensions,
+  RoomSurface,
+  SpeakerData,
+  SubwooferSource,
+  SurfaceAbsorptions,
+  calculateCrossoverFilter,
+  speakerCurveGainLinear,
+} from '@/utils/roomModeCalculations';
+import { AbsorptionSpectrum } from '@/utils/acousticMaterials';
+import { blendWithModalResponse, calculateReflectionResponse } from '@/utils/imageSourceModel';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from '@/components/ui/slider';
+
+ChartJS.register(LinearScale, LogarithmicScale, PointElement, LineElement, Tooltip, Legend);
+
+interface FullRangePanelProps {
+  room: RoomDimensions;
+  mains: SubwooferSource[];
+  enabled: boolean;                 // Needs the stereo mains to be simulated
+  listener: Point;
+  crossover: CrossoverSettings;
+  speakerData: SpeakerData | null;  // Directivity curves of the mains, null for an ideal speaker
+  absorption: SurfaceAbsorptions;
+  absorptionSpectra: Partial<Record<RoomSurface, AbsorptionSpectrum>>;
+  modalResponse: ModeResponse[] | null; // Speaker system through the modal model (20-300 Hz)
+  schroederFrequency: number;
+}
+
+const TOP_REFLECTIONS = 8;
+
+export function FullRangePanel({
+  room,
+  mains,
+  enabled,
+  listener,
+  crossover,
+  speakerData,
+  absorption,
+  absorptionSpectra,
+  modalResponse,
+  schroederFrequency,
+}: FullRangePanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [maxOrder, setMaxOrder] = useState<number>(3);
+
+  const reflectionResult = useMemo(() => {
+    if (!isExpanded || !enabled || mains.length === 0) return null;
+    return calculateReflectionResponse(mains, listener, room, {
+      maxOrder,
+      absorption,
+      absorptionSpectra,
+      directGain: freq => speakerCurveGainLinear(speakerData, 'OnAxis', freq),
+      reflectionGain: freq => speakerCurveGainLinear(speakerData, 'EarlyReflections', freq),
+      sourceFilter: freq => calculateCrossoverFilter(freq, crossover, 'highpass'),
+    });
+  }, [isExpanded, enabled, mains, listener, room, maxOrder, absorption, absorptionSpectra, speakerData, crossover]);
+
+  const fullRange = useMemo(() => {
+    if (!reflectionResult || !modalResponse) return [];
+    return blendWithModalResponse(modalResponse, reflectionResult.response, schroederFrequency);
+  }, [reflectionResult, modalResponse, schroederFrequency]);
+
+  const chartData = useMemo(() => ({
+    datasets: [
+      {
+        label: 'Full range',
+        data: fullRange.map(p => ({ x: p.freq, y: p.db })),
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1.5,
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: 'Modal',
+        data: fullRange.filter(p => p.modalDb !== null).map(p => ({ x: p.freq, y: p.modalDb as number })),
+        borderColor: 'rgb(59, 130, 246)',
+        borderWidth: 1,
+        borderDash: [4, 3],
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: 'Image sources',
+        data: fullRange.map(p => ({ x: p.freq, y: p.reflectionDb })),
+        borderColor: 'rgb(156, 163, 175)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: false,
+      },
+    ],
+  }), [fullRange]);
+
+  const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { intersect: false, mode: 'nearest' },
+    scales: {
+      x: { type: 'logarithmic' as const, min: 20, max: 20000, title: { display: true, text: 'Frequency (Hz)' } },
+      y: { type: 'linear' as const, title: { display: true, text: 'Level (dB)' } },
+    },
+    plugins: {
+      legend: { display: true, position: 'top' as const },
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        titleColor: 'rgb(0, 0, 0)',
+        bodyColor: 'rgb(0, 0, 0)',
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        cornerRadius: 0,
+      },
+    },
+  }), []);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Full-Range Response</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Full-Range Response" : "Expand Full-Range Response"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        {!enabled ? (
+          <p className="text-xs text-black">Enable the stereo mains to trace their reflections.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-black">
+              Modes below and mirrored-source reflections above the Schroeder frequency ({Math.round(schroederFrequency)} Hz), crossfaded over one octave.
+              Notches above it are comb filtering from the reflections.
+            </p>
+
+            <div className="h-56 border border-black">
+              <Line data={chartData} options={chartOptions} />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <Label className="text-black">Reflection Order</Label>
+                <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                  {maxOrder}{reflectionResult ? ` · ${reflectionResult.imageCount} images` : ''}
+                </span>
+              </div>
+              <Slider min={0} max={8} step={1} value={[maxOrder]} onValueChange={([v]) => setMaxOrder(v)} />
+            </div>
+
+            {reflectionResult && reflectionResult.reflections.length > 0 && (
+              <div className="border border-black">
+                <table className="w-full text-xs text-black font-mono">
+                  <thead className="bg-gray-50">
+                    <tr className="border-b border-black">
+                      <th className="px-1 py-1 text-left font-semibold">Src</th>
+                      <th className="px-1 py-1 text-left font-semibold">Path</th>
+                      <th className="px-1 py-1 text-right font-semibold">Delay</th>
+                      <th className="px-1 py-1 text-right font-semibold">Level</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reflectionResult.reflections.slice(0, TOP_REFLECTIONS).map((reflection, index) => (
+                      <tr key={index} className="border-b border-gray-300">
+                        <td className="px-1 py-0.5">{reflection.sourceId}</td>
+                        <td className="px-1 py-0.5">{reflection.surfaces.join(' + ')}</td>
+                        <td className="px-1 py-0.5 text-right">{reflection.delayMs.toFixed(1)} ms</td>
+                        <td className="px-1 py-0.5 text-right">{reflection.levelDb.toFixed(1)} dB</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { Slider } from '@/components/ui/slider';
+import { RoomDimensions } from '@/utils/roomModeCalculations';
+import type { ListeningHeatmap, ListeningHeatmapCell } from '@/utils/placementOptimizer';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+interface ListeningHeatmapPanelProps {
+  room: RoomDimensions;
+  earHeight: number;
+  onEarHeightChange: (value: number) => void;
+  gridStep: number;
+  onGridStepChange: (value: number) => void;
+  isComputing: boolean;
+  progress: { completed: number; total: number } | null;
+  heatmap: ListeningHeatmap | null;
+  onCompute: () => void;
+  onMoveListener: (cell: ListeningHeatmapCell) => void;
+  onClear: () => void;
+  boundingBoxOnly?: boolean; // Non-shoebox room: cells are limited to it, responses use the bounding box
+}
+
+export function ListeningHeatmapPanel({
+  room,
+  earHeight,
+  onEarHeightChange,
+  gridStep,
+  onGridStepChange,
+  isComputing,
+  progress,
+  heatmap,
+  onCompute,
+  onMoveListener,
+  onClear,
+  boundingBoxOnly = false,
+}: ListeningHeatmapPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Listening Position Map</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Listening Position Map" : "Expand Listening Position Map"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <p className="text-xs text-black">
+            Scores every floor cell by flatness, null depth and deviation from the target. Click a cell in the 3D view to move the main seat there.
+            {boundingBoxOnly && ' Only cells inside the shaped room are scored, but with the mode sum of its bounding box.'}
+          </p>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <Label className="text-black">Ear Height</Label>
+              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                {earHeight.toFixed(2)} m
+              </span>
+            </div>
+            <Slider min={0.5} max={Math.max(0.5, room.H)} step={0.05} value={[earHeight]} onValueChange={([v]) => onEarHeightChange(v)} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <Label className="text-black">Grid Spacing</Label>
+              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                {gridStep.toFixed(2)} m
+              </span>
+            </div>
+            <Slider min={0.1} max={0.5} step={0.05} value={[gridStep]} onValueChange={([v]) => onGridStepChange(v)} />
+          </div>
+
+          <Button variant="default" size="sm" className="w-full" onClick={onCompute} disabled={isComputing}>
+            {isComputing && progress ? `Computing... ${progress.completed}/${progress.total}` : 'Compute Heatmap'}
+          </Button>
+
+          {heatmap && (
+            <div className="p-3 border border-black bg-gray-50 space-y-2 text-xs text-black">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold">Best Cell</h4>
+                <Button variant="ghost" size="xs" className="text-xs px-2" onClick={onClear}>
+                  Clear
+                </Button>
+              </div>
+              <div className="flex justify-between font-mono">
+                <span>Position</span>
+                <span>({heatmap.best.x.toFixed(2)}, {heatmap.best.y.toFixed(2)})</span>
+              </div>
+              <div className="flex justify-between font-mono">
+                <span>Flatness</span>
+                <span>{heatmap.best.flatness.toFixed(1)} dB</span>
+              </div>
+              <div className="flex justify-between font-mono">
+                <span>Deepest null</span>
+                <span>{heatmap.best.nullDepth.toFixed(1)} dB</span>
+              </div>
+              <div className="flex justify-between font-mono">
+                <span>Target deviation</span>
+                <span>{heatmap.best.targetDeviation.toFixed(1)} dB</span>
+              </div>
+              <div className="flex items-center gap-2 pt-2 border-t border-black">
+                <span>Best</span>
+                <div className="flex-1 h-2 border border-black" style={{ background: 'linear-gradient(to right, hsl(120, 85%, 50%), hsl(60, 85%, 50%), hsl(0, 85%, 50%))' }} />
+                <span>Worst</span>
+              </div>
+              <Button variant="default" size="sm" className="w-full" onClick={() => onMoveListener(heatmap.best)}>
+                Move Main Seat to Best Cell
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { Slider } from '@/components/ui/slider';
+import { Point, RoomDimensions, ListeningSeat, TargetErrorAnalysis } from '@/utils/roomModeCalculations';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ListeningSeatControlsProps {
+  room: RoomDimensions;
+  seats: ListeningSeat[];
+  maxSeats: number;
+  targetError: TargetErrorAnalysis | null; // Per-seat errors against the current target
+  eqTargetError?: TargetErrorAnalysis | null; // The same after the EQ, when one is applied
+  showEqWeights?: boolean; // Multi-seat EQ is on
+  onAddSeat: () => void;
+  onRemoveSeat: (id: string) => void;
+  onSeatChange: (id: string, changes: Partial<Omit<ListeningSeat, 'id'>>) => void;
+}
+
+const positionAxes = [
+  { key: 'x' as const, label: 'X', roomDimKey: 'L' as const },
+  { key: 'y' as const, label: 'Y', roomDimKey: 'W' as const },
+  { key: 'z' as const, label: 'Z', roomDimKey: 'H' as const },
+];
+
+export function ListeningSeatControls({
+  room,
+  seats,
+  maxSeats,
+  targetError,
+  eqTargetError,
+  showEqWeights = false,
+  onAddSeat,
+  onRemoveSeat,
+  onSeatChange,
+}: ListeningSeatControlsProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const handlePositionChange = (seat: ListeningSeat, key: keyof Point, value: number) => {
+    onSeatChange(seat.id, { position: { ...seat.position, [key]: value } });
+  };
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Listening Seats ({seats.length})</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Listening Seats" : "Expand Listening Seats"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          {seats.length > 1 && targetError?.averageSeatRmsError !== undefined && (
+            <div className="p-3 border border-black bg-gray-50 text-xs text-black space-y-1">
+              <div className="flex justify-between">
+                <span>Spatial average RMS error</span>
+                <span className="font-mono">
+                  {targetError.rmsError.toFixed(2)}{eqTargetError && ` → ${eqTargetError.rmsError.toFixed(2)}`} dB
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Mean per-seat RMS error</span>
+                <span className="font-mono">
+                  {targetError.averageSeatRmsError.toFixed(2)}
+                  {eqTargetError?.averageSeatRmsError !== undefined && ` → ${eqTargetError.averageSeatRmsError.toFixed(2)}`} dB
+                </span>
+              </div>
+            </div>
+          )}
+
+          {seats.map((seat, index) => {
+            const seatError = targetError?.seatErrors?.[index];
+            const eqSeatError = eqTargetError?.seatErrors?.[index];
+            const eqWeight = seat.eqWeight ?? 1;
+            return (
+              <div key={seat.id} className="p-3 border border-black bg-gray-50 space-y-3">
+                <div className="flex justify-between items-center gap-2">
+                  <Input
+                    value={seat.name}
+                    onChange={(e) => onSeatChange(seat.id, { name: e.target.value })}
+                    className="h-8 bg-white border-black text-black text-sm"
+                    aria-label="Seat name"
+                  />
+                  {seatError && (
+                    <span
+                      className="font-mono text-xs text-black bg-white border border-black px-2 py-0.5 whitespace-nowrap"
+                      title={eqSeatError ? "RMS error against target before → after EQ" : "RMS error against target"}
+                    >
+                      {seatError.rmsError.toFixed(1)}{eqSeatError && ` → ${eqSeatError.rmsError.toFixed(1)}`} dB
+                    </span>
+                  )}
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => onRemoveSeat(seat.id)}
+                      title="Remove seat"
+                    >
+                      <Trash2 size={14} className="text-black" />
+                    </Button>
+                  )}
+                </div>
+
+                {showEqWeights && seats.length > 1 && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <Label className="text-black">EQ Weight</Label>
+                      <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                        {eqWeight.toFixed(1)}×
+                      </span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={[eqWeight]}
+                      onValueChange={([v]) => onSeatChange(seat.id, { eqWeight: v })}
+                    />
+                  </div>
+                )}
+
+                {/* Position of the primary seat lives in the position controls above */}
+                {index > 0 && positionAxes.map(axis => (
+                  <div key={axis.key} className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <Label className="text-black">{axis.label} Position</Label>
+                      <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                        {seat.position[axis.key].toFixed(2)} m
+                      </span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={room[axis.roomDimKey]}
+                      step={0.01}
+                      value={[seat.position[axis.key]]}
+                      onValueChange={([v]) => handlePositionChange(seat, axis.key, v)}
+                    />
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+
+          <Button
+            variant="default"
+            size="sm"
+            className="w-full"
+            onClick={onAddSeat}
+            disabled={seats.length >= maxSeats}
+            title={seats.length >= maxSeats ? `Maximum of ${maxSeats} seats` : "Add seat"}
+          >
+            <Plus size={16} className="text-black" />
+            Add Seat
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { Slider } from '@/components/ui/slider';
+import { CrossoverSettings, CrossoverType, Point, RoomDimensions, SubwooferSource } from '@/utils/roomModeCalculations';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface MainSpeakerControlsProps {
+  room: RoomDimensions;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  mains: SubwooferSource[];
+  onMainChange: (id: string, changes: Partial<Omit<SubwooferSource, 'id'>>) => void;
+  crossover: CrossoverSettings;
+  onCrossoverChange: (changes: Partial<CrossoverSettings>) => void;
+}
+
+const positionAxes = [
+  { key: 'x' as const, label: 'X', roomDimKey: 'L' as const },
+  { key: 'y' as const, label: 'Y', roomDimKey: 'W' as const },
+  { key: 'z' as const, label: 'Z', roomDimKey: 'H' as const },
+];
+
+const ORDER_OPTIONS: Record<CrossoverType, number[]> = {
+  'linkwitz-riley': [2, 4, 8],
+  'butterworth': [1, 2, 3, 4],
+};
+
+export function MainSpeakerControls({
+  room,
+  enabled,
+  onEnabledChange,
+  mains,
+  onMainChange,
+  crossover,
+  onCrossoverChange,
+}: MainSpeakerControlsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const handlePositionChange = (main: SubwooferSource, key: keyof Point, value: number) => {
+    onMainChange(main.id, { position: { ...main.position, [key]: value } });
+  };
+
+  const handleTypeChange = (type: CrossoverType) => {
+    // Keep the order valid for the new filter family
+    const orders = ORDER_OPTIONS[type];
+    const order = orders.includes(crossover.order) ? crossover.order : orders[orders.length > 2 ? 1 : 0];
+    onCrossoverChange({ type, order });
+  };
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Main Speakers &amp; Crossover</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Main Speakers" : "Expand Main Speakers"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[3000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <Label htmlFor="enableMains" className="text-sm text-black">Simulate Stereo Mains</Label>
+            <Checkbox
+              id="enableMains"
+              checked={enabled}
+              onCheckedChange={(checked) => onEnabledChange(checked === true)}
+              aria-label="Simulate left and right main speakers with crossover"
+            />
+          </div>
+
+          <div className={`space-y-4 ${!enabled ? 'opacity-50 pointer-events-none' : ''}`}>
+            <div className="space-y-2">
+              <Label className="text-sm text-black">Crossover Type</Label>
+              <Select value={crossover.type} onValueChange={(value) => handleTypeChange(value as CrossoverType)}>
+                <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  <SelectItem value="linkwitz-riley" className="hover:bg-gray-200 focus:bg-gray-300">Linkwitz-Riley</SelectItem>
+                  <SelectItem value="butterworth" className="hover:bg-gray-200 focus:bg-gray-300">Butterworth</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm text-black">Slope</Label>
+              <Select value={String(crossover.order)} onValueChange={(value) => onCrossoverChange({ order: Number(value) })}>
+                <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  {ORDER_OPTIONS[crossover.type].map(order => (
+                    <SelectItem key={order} value={String(order)} className="hover:bg-gray-200 focus:bg-gray-300">
+                      {order * 6} dB/oct (order {order})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <Label className="text-black">Crossover Frequency</Label>
+                <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                  {crossover.frequency.toFixed(0)} Hz
+                </span>
+              </div>
+              <Slider min={40} max={200} step={1} value={[crossover.frequency]} onValueChange={([v]) => onCrossoverChange({ frequency: v })} />
+            </div>
+
+            {mains.map((main, index) => (
+              <div key={main.id} className="p-3 border border-black bg-gray-50 space-y-3">
+                <h4 className="text-sm font-semibold text-black">{index === 0 ? 'Left' : 'Right'} Main</h4>
+
+                {positionAxes.map(axis => (
+                  <div key={axis.key} className="space-y-1">
+                    <div className="flex justify-between items-center text-sm">
+                      <Label className="text-black">{axis.label} Position</Label>
+                      <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                        {main.position[axis.key].toFixed(2)} m
+                      </span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={room[axis.roomDimKey]}
+                      step={0.01}
+                      value={[main.position[axis.key]]}
+                      onValueChange={([v]) => handlePositionChange(main, axis.key, v)}
+                    />
+                  </div>
+                ))}
+
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center text-sm">
+                    <Label className="text-black">Gain</Label>
+                    <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                      {main.gainDb > 0 ? '+' : ''}{main.gainDb.toFixed(1)} dB
+                    </span>
+                  </div>
+                  <Slider min={-12} max={6} step={0.5} value={[main.gainDb]} onValueChange={([v]) => onMainChange(main.id, { gainDb: v })} />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between items-center text-sm">
+                    <Label className="text-black">Delay</Label>
+                    <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                      {main.delayMs.toFixed(1)} ms
+                    </span>
+                  </div>
+                  <Slider min={0} max={20} step={0.1} value={[main.delayMs]} onValueChange={([v]) => onMainChange(main.id, { delayMs: v })} />
+                </div>
+
+                <div className="flex justify-between items-center text-sm">
+                  <Label className="text-black">Polarity</Label>
+                  <Button
+                    variant="default"
+                    size="xs"
+                    className="px-2 text-xs"
+                    onClick={() => onMainChange(main.id, { polarity: main.polarity === 1 ? -1 : 1 })}
+                    title="Toggle polarity"
+                  >
+                    {main.polarity === 1 ? 'Normal (+)' : 'Inverted (−)'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
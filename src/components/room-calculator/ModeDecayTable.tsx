@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { RoomModeInfo } from '@/utils/roomModeCalculations';
+import { Button } from "@/components/ui/button";
+
+interface ModeDecayTableProps {
+  modes: RoomModeInfo[]; // Modes at the primary seat, from analyzeRoomModes
+  boundingBoxOnly?: boolean; // Non-shoebox room: the modes are those of its bounding box
+}
+
+type SortKey = 'frequency' | 'mode' | 'type' | 'q' | 't60' | 'coupling';
+
+// Decay times above this ring audibly longer than the rest of the room
+const LONG_DECAY_S = 0.5;
+
+const TYPE_ORDER: Record<RoomModeInfo['type'], number> = { axial: 0, tangential: 1, oblique: 2 };
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'frequency', label: 'Hz' },
+  { key: 'mode', label: '(n,m,l)' },
+  { key: 'type', label: 'Type' },
+  { key: 'q', label: 'Q' },
+  { key: 't60', label: 'T60' },
+  { key: 'coupling', label: 'Coupl.' },
+];
+
+const sortValue = (mode: RoomModeInfo, key: SortKey): number => {
+  switch (key) {
+    case 'mode': return mode.nMode * 10000 + mode.mMode * 100 + mode.lMode;
+    case 'type': return TYPE_ORDER[mode.type];
+    case 'coupling': return Math.abs(mode.coupling);
+    default: return mode[key];
+  }
+};
+
+export function ModeDecayTable({ modes, boundingBoxOnly = false }: ModeDecayTableProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('t60');
+  const [ascending, setAscending] = useState(false);
+
+  const sortedModes = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    return [...modes].sort((a, b) => direction * (sortValue(a, sortKey) - sortValue(b, sortKey)));
+  }, [modes, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'frequency' || key === 'mode' || key === 'type');
+    }
+  };
+
+  const longDecayCount = modes.filter(mode => mode.t60 > LONG_DECAY_S).length;
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Mode Decay Times</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Mode Decay Times" : "Expand Mode Decay Times"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-3">
+          <p className="text-xs text-black">
+            Each mode is damped only by the surfaces it travels between, so axial modes between two hard walls ring longest.
+            {' '}{longDecayCount} of {modes.length} modes decay slower than {LONG_DECAY_S} s.
+            {boundingBoxOnly && ' These are the modes of the L × W × H bounding box, not of the shaped room.'}
+          </p>
+
+          <div className="max-h-96 overflow-y-auto border border-black">
+            <table className="w-full text-xs text-black font-mono">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr className="border-b border-black">
+                  {COLUMNS.map(column => (
+                    <th key={column.key} className="px-1 py-1 text-left font-semibold">
+                      <button onClick={() => handleSort(column.key)} className="hover:underline">
+                        {column.label}{sortKey === column.key ? (ascending ? ' ▲' : ' ▼') : ''}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedModes.map(mode => (
+                  <tr
+                    key={`${mode.nMode}-${mode.mMode}-${mode.lMode}`}
+                    className={`border-b border-gray-300 ${mode.t60 > LONG_DECAY_S ? 'bg-gray-200 font-semibold' : ''}`}
+                  >
+                    <td className="px-1 py-0.5">{mode.frequency.toFixed(1)}</td>
+                    <td className="px-1 py-0.5">({mode.nMode},{mode.mMode},{mode.lMode})</td>
+                    <td className="px-1 py-0.5">{mode.type}</td>
+                    <td className="px-1 py-0.5">{mode.q.toFixed(1)}</td>
+                    <td className="px-1 py-0.5">{mode.t60.toFixed(2)} s</td>
+                    <td className="px-1 py-0.5">{Math.abs(mode.coupling).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { Button } from "@/components/ui/button";
+import type { MultiSubIteration, MultiSubOptimizationResult } from '@/utils/multiSubOptimizer';
+
+interface MultiSubOptimizerPanelProps {
+  subwooferCount: number;
+  seatCount: number;
+  isRunning: boolean;
+  iterations: MultiSubIteration[];
+  result: MultiSubOptimizationResult | null;
+  onRun: () => void;
+  onCancel: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const STAGE_LABELS: Record<MultiSubIteration['stage'], string> = {
+  alignment: 'Align',
+  refinement: 'Refine',
+  eq: 'EQ',
+};
+
+export function MultiSubOptimizerPanel({
+  subwooferCount,
+  seatCount,
+  isRunning,
+  iterations,
+  result,
+  onRun,
+  onCancel,
+  onAccept,
+  onDiscard,
+}: MultiSubOptimizerPanelProps) {
+  const maxObjective = iterations.reduce((max, it) => Math.max(max, it.objective), 0) || 1;
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white space-y-3">
+      <h3 className="text-lg font-semibold text-black">Multi-Sub Optimizer</h3>
+      <p className="text-xs text-black">
+        Optimizes gain, delay and polarity of each sub plus a shared EQ for flat response across {seatCount} seat{seatCount === 1 ? '' : 's'}.
+      </p>
+
+      <div className="flex gap-2">
+        <Button
+          variant="default"
+          size="sm"
+          className="flex-1"
+          onClick={onRun}
+          disabled={isRunning || subwooferCount < 2}
+          title={subwooferCount < 2 ? "Add at least two subwoofers" : "Run optimizer"}
+        >
+          {isRunning ? 'Optimizing...' : 'Run Optimizer'}
+        </Button>
+        {isRunning && (
+          <Button variant="outline" size="sm" onClick={onCancel} title="Stop the optimizer">
+            Stop
+          </Button>
+        )}
+      </div>
+
+      {iterations.length > 0 && (
+        <div className="p-3 border border-black bg-gray-50">
+          <h4 className="text-sm font-semibold text-black mb-2">Objective per iteration</h4>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {iterations.map(it => (
+              <div key={it.iteration} className="flex items-center gap-2 text-xs font-mono text-black">
+                <span className="w-6 text-right">{it.iteration}</span>
+                <span className="w-12">{STAGE_LABELS[it.stage]}</span>
+                <div className="flex-1 h-2 border border-black bg-white">
+                  <div className="h-full bg-black" style={{ width: `${(it.objective / maxObjective) * 100}%` }} />
+                </div>
+                <span className="w-12 text-right">{it.objective.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {result && !isRunning && (
+        <div className="p-3 border border-black bg-gray-50 space-y-2 text-xs text-black">
+          <div className="flex justify-between">
+            <span>Objective</span>
+            <span className="font-mono">{result.initial.objective.toFixed(2)} → {result.final.objective.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Seat variation</span>
+            <span className="font-mono">{result.initial.seatVariation.toFixed(2)} → {result.final.seatVariation.toFixed(2)} dB</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Target deviation</span>
+            <span className="font-mono">{result.initial.targetDeviation.toFixed(2)} → {result.final.targetDeviation.toFixed(2)} dB</span>
+          </div>
+          <div className="pt-2 border-t border-black space-y-1">
+            {result.subwoofers.map((sub, index) => (
+              <div key={sub.id} className="flex justify-between font-mono">
+                <span>Sub {index + 1}</span>
+                <span>
+                  {sub.gainDb > 0 ? '+' : ''}{sub.gainDb.toFixed(1)} dB · {sub.delayMs.toFixed(1)} ms · {sub.polarity === 1 ? '+' : '−'}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between font-mono">
+              <span>Shared EQ</span>
+              <span>{result.eqSettings.bands.length} band{result.eqSettings.bands.length === 1 ? '' : 's'}</span>
+            </div>
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button variant="default" size="sm" className="flex-1" onClick={onAccept}>
+              Accept
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={onDiscard}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useMemo, useRef, useEffect, useState, useCallback } from 'react';
 import { Line } from 'react-chartjs-2';
 import { HelpCircle } from 'lucide-react';
-import { ModeResponse } from '@/utils/roomModeCalculations';
+import { ModeResponse, ComplexModeResponse } from '@/utils/roomModeCalculations';
 import { EQBand } from '@/utils/roomModeCalculations'; // Import EQBand type
 import { 
   Chart as ChartJS,
@@ -59,6 +59,13 @@ interface ResponseChartProps {
   currentEQPass?: number; // Current EQ pass number (0 = not active, 1-4 = pass number)
   activeEQBands?: Set<number>; // Set of active frequency bands being corrected
   showPassAnimation?: boolean; // Whether to show pass animation effects
+  // Multi-seat props
+  seatResponses?: Array<{ name: string; response: ModeResponse[] }>; // Per-seat responses
+  eqSeatResponses?: Array<{ name: string; response: ModeResponse[] }>; // Per-seat responses after the EQ
+  spatialAverage?: ModeResponse[]; // Spatial average across all seats
+  seatStdDev?: ModeResponse[]; // Seat-to-seat standard deviation (dB) per frequency
+  crossoverBranches?: Array<{ name: string; response: ModeResponse[] }>; // Mains / subs after the crossover, before summation
+  phaseResponse?: ComplexModeResponse[]; // Phase and group delay of the room model, enables the phase views
 }
 
 // Throttle utility function for performance optimization
@@ -81,7 +88,7 @@ const throttle = <T extends (...args: unknown[]) => void>(func: T, delay: number
   };
 };
 
-export function ResponseChart({ response, harmanTarget, listeningWindowResponse, selectedSpeakerName, eqCorrectedResponse, eqCurve, showEQCurve, showHarmanFill, schroederFrequency, eqBands, currentEQPass, activeEQBands, showPassAnimation }: ResponseChartProps) {
+export function ResponseChart({ response, harmanTarget, listeningWindowResponse, selectedSpeakerName, eqCorrectedResponse, eqCurve, showEQCurve, showHarmanFill, schroederFrequency, eqBands, currentEQPass, activeEQBands, showPassAnimation, seatResponses, eqSeatResponses, spatialAverage, seatStdDev, crossoverBranches, phaseResponse }: ResponseChartProps) {
   const chartRef = useRef<ChartJS<"line", (number | ChartPoint | null)[], number> | null>(null); // Update TData type
   const chartContainerRef = useRef<HTMLDivElement>(null);
   
@@ -105,6 +112,7 @@ export function ResponseChart({ response, harmanTarget, listeningWindowResponse,
   const [lastPanPoint, setLastPanPoint] = useState<{ x: number; y: number } | null>(null);
   const [crosshairPosition, setCrosshairPosition] = useState<{ x: number; y: number } | null>(null);
   const [hasUserInteracted, setHasUserInteracted] = useState(false); // Track if user has manually interacted
+  const [chartView, setChartView] = useState<'magnitude' | 'phase' | 'groupDelay'>('magnitude');
 
   // Force chart update when crosshair position changes - OPTIMIZED for immediate response
   useEffect(() => {
@@ -321,12 +329,105 @@ export function ResponseChart({ response, harmanTarget, listeningWindowResponse,
       } as ChartDataset<'line', (ChartPoint | null)[]>);
     }
 
+    // Multi-seat overlays: appended last so the index-based fill of the main response is unaffected
+    if (seatResponses && seatResponses.length > 1) {
+      seatResponses.forEach(seat => {
+        datasets.push({
+          label: `Seat: ${seat.name}`,
+          data: seat.response.map(r => ({ x: r.freq, y: r.db })),
+          borderColor: 'rgba(100, 100, 100, 0.6)',
+          fill: false,
+          tension: 0.4,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          borderWidth: 1,
+          borderDash: [2, 2],
+          order: 7, // Behind the main curves
+        } as ChartDataset<'line', (ChartPoint | null)[]>);
+      });
+    }
+
+    if (eqSeatResponses && eqSeatResponses.length > 1) {
+      eqSeatResponses.forEach(seat => {
+        datasets.push({
+          label: `Seat: ${seat.name} (EQ)`,
+          data: seat.response.map(r => ({ x: r.freq, y: r.db })),
+          borderColor: 'rgba(34, 197, 94, 0.6)', // Same hue as the EQ corrected response
+          fill: false,
+          tension: 0.4,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          borderWidth: 1,
+          order: 7,
+        } as ChartDataset<'line', (ChartPoint | null)[]>);
+      });
+    }
+
+    if (spatialAverage && spatialAverage.length > 0 && seatStdDev && seatStdDev.length === spatialAverage.length) {
+      // Standard deviation band: upper edge fills down to the lower edge (next dataset)
+      datasets.push({
+        label: 'Seat Spread (±1σ)',
+        data: spatialAverage.map((r, i) => ({ x: r.freq, y: r.db + seatStdDev[i].db })),
+        borderColor: 'rgba(14, 165, 233, 0.4)',
+        backgroundColor: 'rgba(14, 165, 233, 0.15)',
+        fill: '+1',
+        tension: 0.4,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        borderWidth: 1,
+        order: 8,
+      } as ChartDataset<'line', (ChartPoint | null)[]>);
+      datasets.push({
+        label: 'Seat Spread (−1σ)',
+        data: spatialAverage.map((r, i) => ({ x: r.freq, y: r.db - seatStdDev[i].db })),
+        borderColor: 'rgba(14, 165, 233, 0.4)',
+        fill: false,
+        tension: 0.4,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        borderWidth: 1,
+        order: 8,
+      } as ChartDataset<'line', (ChartPoint | null)[]>);
+    }
+
+    if (spatialAverage && spatialAverage.length > 0) {
+      datasets.push({
+        label: 'Spatial Average (dB)',
+        data: spatialAverage.map(r => ({ x: r.freq, y: r.db })),
+        borderColor: 'rgb(14, 165, 233)', // Sky blue for the seat average
+        fill: false,
+        tension: 0.4,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        borderWidth: 2,
+        order: 2,
+      } as ChartDataset<'line', (ChartPoint | null)[]>);
+    }
+
+    if (crossoverBranches) {
+      const branchColors = ['rgb(75, 85, 99)', 'rgb(234, 56, 76)']; // Mains grey, subs red (as in the 3D view)
+      crossoverBranches.forEach((branch, index) => {
+        datasets.push({
+          label: branch.name,
+          data: branch.response.map(r => ({ x: r.freq, y: r.db })),
+          borderColor: branchColors[index % branchColors.length],
+          fill: false,
+          tension: 0.4,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          borderWidth: 1.5,
+          borderDash: [6, 3],
+          order: 6,
+        } as ChartDataset<'line', (ChartPoint | null)[]>);
+      });
+    }
+
     return {
       labels: labels, // Keep labels for now, Chart.js might use them for tick generation or fallbacks
       datasets: datasets,
     };
     // console.log('ResponseChart finalChartData (simplified):', finalChartData);
-  }, [response, harmanTarget, listeningWindowResponse, selectedSpeakerName, eqCorrectedResponse, eqCurve, showEQCurve, showHarmanFill]); // Added showHarmanFill dependency
+  }, [response, harmanTarget, listeningWindowResponse, selectedSpeakerName, eqCorrectedResponse, eqCurve, showEQCurve, showHarmanFill, seatResponses, eqSeatResponses, spatialAverage, seatStdDev, crossoverBranches]); // Added showHarmanFill dependency
   
   const chartOptions: ChartOptions<'line'> = useMemo(() => ({
     responsive: true,
@@ -519,6 +620,80 @@ export function ResponseChart({ response, harmanTarget, listeningWindowResponse,
     // Remove onClick handler - crosshair will be set via right-click in separate handler
   }), [zoomState, isPanning, crosshairPosition, schroederFrequency, eqBands]);
 
+  // Phase / group delay view: same frequency axis as the magnitude view, auto-scaled Y
+  const phaseChartData = useMemo(() => {
+    if (!phaseResponse || phaseResponse.length === 0) return { datasets: [] };
+    const isPhase = chartView === 'phase';
+    return {
+      datasets: [{
+        label: isPhase ? 'Phase (°, unwrapped)' : 'Group Delay (ms)',
+        data: phaseResponse.map(r => ({ x: r.freq, y: isPhase ? r.phaseDeg : r.groupDelayMs })),
+        borderColor: isPhase ? 'rgb(0, 0, 0)' : 'rgb(124, 58, 237)',
+        fill: false,
+        tension: 0.2,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        borderWidth: 2,
+      } as ChartDataset<'line', (ChartPoint | null)[]>],
+    };
+  }, [phaseResponse, chartView]);
+
+  const phaseChartOptions: ChartOptions<'line'> = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: { duration: 50 },
+    interaction: { intersect: false, mode: 'nearest' },
+    scales: {
+      x: {
+        type: 'logarithmic' as const,
+        title: { display: true, text: 'Frequency (Hz) - Logarithmic Scale' },
+        min: zoomState.xMin, // Already clamped to the frequency limits by the zoom handlers
+        max: zoomState.xMax,
+        ticks: {
+          callback: function(value: string | number) {
+            const numValue = typeof value === 'string' ? parseFloat(value) : value;
+            return Math.round(numValue).toString();
+          }
+        }
+      },
+      y: {
+        type: 'linear' as const,
+        title: { display: true, text: chartView === 'phase' ? 'Phase (degrees)' : 'Group Delay (ms)' },
+      },
+    },
+    plugins: {
+      legend: { display: true, position: 'top' as const },
+      title: {
+        display: true,
+        text: chartView === 'phase' ? 'Phase Response (room model)' : 'Group Delay (room model)',
+      },
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        titleColor: 'rgb(0, 0, 0)',
+        bodyColor: 'rgb(0, 0, 0)',
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        cornerRadius: 0,
+        titleFont: { family: 'monospace', size: 12, weight: 'bold' },
+        bodyFont: { family: 'monospace', size: 11, weight: 'normal' },
+      },
+      annotation: {
+        annotations: {
+          ...(schroederFrequency && schroederFrequency > 0 ? {
+            schroederLine: {
+              type: 'line' as const,
+              xMin: schroederFrequency,
+              xMax: schroederFrequency,
+              borderColor: 'rgba(128, 128, 128, 0.6)',
+              borderWidth: 1,
+              borderDash: [10, 5],
+            }
+          } : {}),
+        }
+      }
+    },
+  }), [chartView, zoomState.xMin, zoomState.xMax, schroederFrequency]);
+
   // Auto-center view around main response data
   const autoCenter = (markAsUserInteraction = true) => {
     if (!response || response.length === 0) return;
@@ -871,12 +1046,39 @@ export function ResponseChart({ response, harmanTarget, listeningWindowResponse,
   
   return (
     <div className="h-full w-full relative bg-white"> {/* Removed border border-black */}
-      <div ref={chartContainerRef} className="h-full w-full">
+      <div ref={chartContainerRef} className={`h-full w-full ${chartView !== 'magnitude' ? 'hidden' : ''}`}>
         <Line ref={chartRef} data={chartData} options={chartOptions} />
       </div>
+      {chartView !== 'magnitude' && (
+        <div className="h-full w-full">
+          <Line data={phaseChartData} options={phaseChartOptions} />
+        </div>
+      )}
+
+      {/* View selector - Xerox Style */}
+      {phaseResponse && phaseResponse.length > 0 && (
+        <div className="absolute top-2 left-12 flex bg-white border border-black">
+          {([
+            ['magnitude', 'dB'],
+            ['phase', 'Phase'],
+            ['groupDelay', 'Group Delay'],
+          ] as const).map(([view, label], index) => (
+            <button
+              key={view}
+              onClick={() => setChartView(view)}
+              className={`px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                chartView === view ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+              } transition-colors`}
+              title={`Show ${label.toLowerCase()}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
       
       {/* Zoom Controls - Xerox Style */}
-      <div className="absolute top-2 right-2 flex flex-col bg-white border border-black">
+      <div className={`absolute top-2 right-2 flex flex-col bg-white border border-black ${chartView !== 'magnitude' ? 'hidden' : ''}`}>
         <button
           onClick={() => crosshairPosition && handleZoom(true, crosshairPosition.x, crosshairPosition.y)}
           className={`px-3 py-2 text-sm font-bold border-b border-black bg-white text-black transition-colors ${
@@ -927,7 +1129,7 @@ export function ResponseChart({ response, harmanTarget, listeningWindowResponse,
       </div>
       
       {/* Schroeder Frequency Label - Xerox Style */}
-      {schroederFrequency && schroederFrequency > 0 && (
+      {chartView === 'magnitude' && schroederFrequency && schroederFrequency > 0 && (
         <div 
           className="absolute bottom-14 group pointer-events-auto"
           style={{
@@ -1,5 +1,9 @@
 import { Slider } from '@/components/ui/slider';
-import { RoomDimensions, SpeakerData } from '@/utils/roomModeCalculations';
+import { RoomDimensions, RoomSurface, SpeakerData } from '@/utils/roomModeCalculations';
+import { MATERIAL_LIBRARY, absorptionAt, getMaterial } from '@/utils/acousticMaterials';
+import { SAMPLE_RATES } from '@/utils/biquadFilter';
+import { EQMethod } from '@/utils/eqOptimizer';
+import { EQBoostMode, EQHeadroomAnalysis, ExcursionLimit } from '@/utils/eqHeadroom';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from "@/components/ui/button";
@@ -15,6 +19,17 @@ interface SpeakerManifestItem {
   path: string;
 }
 
+const EQ_METHODS: { value: EQMethod; label: string }[] = [
+  { value: 'heuristic', label: 'Heuristic Passes' },
+  { value: 'least-squares', label: 'Least Squares' },
+];
+
+const EQ_BOOST_MODES: { value: EQBoostMode; label: string }[] = [
+  { value: 'unrestricted', label: 'Boost & Cut' },
+  { value: 'cut-only', label: 'Cut Only' },
+  { value: 'boost-budget', label: 'Boost Budget' },
+];
+
 interface RoomControlsProps {
   room: RoomDimensions;
   onRoomChange: (key: keyof RoomDimensions, value: number) => void;
@@ -27,6 +42,8 @@ interface RoomControlsProps {
     floor: number;
   };
   onSurfaceAbsorptionChange: (surface: string, value: number) => void;
+  surfaceMaterials: Record<RoomSurface, string | null>; // Library material per surface, null for the flat slider value
+  onSurfaceMaterialChange: (surface: RoomSurface, materialId: string | null) => void;
   applySurfaceAbsorption: boolean;
   onApplySurfaceAbsorptionChange: (value: boolean) => void;
   highlightedSurface: string | null;
@@ -80,10 +97,24 @@ interface RoomControlsProps {
   onEqMaxCutChange: (value: number) => void;
   eqSmoothing: number;
   onEqSmoothingChange: (value: number) => void;
+  eqSampleRate: number;
+  onEqSampleRateChange: (value: number) => void;
+  eqMethod: EQMethod;
+  onEqMethodChange: (value: EQMethod) => void;
+  eqErrorByMethod: Partial<Record<EQMethod, { initial: number; final: number }>>; // RMS error of the last run per method
+  eqMultiSeat: boolean; // Fit one band set to all seats instead of the main seat
+  onEqMultiSeatChange: (value: boolean) => void;
+  seatCount: number;
   showEQCurve: boolean;
   onShowEQCurveChange: (value: boolean) => void;
   eqBandCount: number;
   onGenerateEQ: () => void;
+  eqBoostMode: EQBoostMode;
+  onEqBoostModeChange: (value: EQBoostMode) => void;
+  eqBoostBudget: number; // dB·oct in boost-budget mode
+  onEqBoostBudgetChange: (value: number) => void;
+  eqHeadroom: EQHeadroomAnalysis | null; // Of the current EQ
+  excursionLimit: ExcursionLimit | null; // From the selected speaker's specs
   onExportEQ: () => void;
   onAutoDetectBassRolloff?: () => void;
   speakerData?: SpeakerData | null;
@@ -94,6 +125,8 @@ export function RoomControls({
   onRoomChange,
   surfaceAbsorptions,
   onSurfaceAbsorptionChange,
+  surfaceMaterials,
+  onSurfaceMaterialChange,
   applySurfaceAbsorption,
   onApplySurfaceAbsorptionChange,
   highlightedSurface,
@@ -145,10 +178,24 @@ export function RoomControls({
   onEqMaxCutChange,
   eqSmoothing,
   onEqSmoothingChange,
+  eqSampleRate,
+  onEqSampleRateChange,
+  eqMethod,
+  onEqMethodChange,
+  eqErrorByMethod,
+  eqMultiSeat,
+  onEqMultiSeatChange,
+  seatCount,
   showEQCurve,
   onShowEQCurveChange,
   eqBandCount,
   onGenerateEQ,
+  eqBoostMode,
+  onEqBoostModeChange,
+  eqBoostBudget,
+  onEqBoostBudgetChange,
+  eqHeadroom,
+  excursionLimit,
   onExportEQ,
   onAutoDetectBassRolloff,
   speakerData,
@@ -228,7 +275,7 @@ export function RoomControls({
               </div>
 
               {/* Collapsible Content for Advanced Settings */}
-              <div className={`px-2 pb-1 overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isAdvancedRoomSettingsExpanded ? 'max-h-[1000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+              <div className={`px-2 pb-1 overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isAdvancedRoomSettingsExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
                   {/* Surface Absorption Coefficients Section */}
                   <div className={`mb-6 ${!applySurfaceAbsorption ? 'opacity-70' : ''}`}>
                     <div className="flex justify-between items-center">
@@ -286,34 +333,68 @@ export function RoomControls({
                     </div>
 
                     <div className={`grid grid-cols-2 gap-x-4 gap-y-3 ${!applySurfaceAbsorption ? 'pointer-events-none' : ''}`}>
-                      {(['front', 'back', 'left', 'right', 'ceiling', 'floor'] as const).map((surface) => (
-                        <div 
-                          key={surface} 
-                          className="space-y-1 cursor-grab"
-                          onMouseEnter={() => applySurfaceAbsorption && onHighlightedSurfaceChange(surface)}
-                          onMouseLeave={() => applySurfaceAbsorption && onHighlightedSurfaceChange(null)}
-                          onMouseDown={() => applySurfaceAbsorption && onHighlightedSurfaceChange(surface)}
-                          onMouseUp={() => applySurfaceAbsorption && onHighlightedSurfaceChange(null)}
-                        >
-                          <div className="flex justify-between items-center text-sm">
-                            <Label className="text-black capitalize">{surface}</Label>
-                            <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
-                              {surfaceAbsorptions[surface].toFixed(2)}
-                            </span>
+                      {(['front', 'back', 'left', 'right', 'ceiling', 'floor'] as const).map((surface) => {
+                        const material = surfaceMaterials[surface] ? getMaterial(surfaceMaterials[surface]) : undefined;
+                        return (
+                          <div 
+                            key={surface} 
+                            className="space-y-1 cursor-grab"
+                            onMouseEnter={() => applySurfaceAbsorption && onHighlightedSurfaceChange(surface)}
+                            onMouseLeave={() => applySurfaceAbsorption && onHighlightedSurfaceChange(null)}
+                            onMouseDown={() => applySurfaceAbsorption && onHighlightedSurfaceChange(surface)}
+                            onMouseUp={() => applySurfaceAbsorption && onHighlightedSurfaceChange(null)}
+                          >
+                            <div className="flex justify-between items-center text-sm">
+                              <Label className="text-black capitalize">{surface}</Label>
+                              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                                {material ? `${absorptionAt(material.spectrum, 63).toFixed(2)}*` : surfaceAbsorptions[surface].toFixed(2)}
+                              </span>
+                            </div>
+                            <Select
+                              value={surfaceMaterials[surface] ?? 'flat'}
+                              onValueChange={(value) => onSurfaceMaterialChange(surface, value === 'flat' ? null : value)}
+                              disabled={!applySurfaceAbsorption}
+                            >
+                              <SelectTrigger className="w-full h-7 text-xs bg-white border-black text-black focus:ring-black">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-white border-black text-black">
+                                <SelectItem value="flat" className="text-xs hover:bg-gray-200 focus:bg-gray-300">Flat α (slider)</SelectItem>
+                                {MATERIAL_LIBRARY.map(option => (
+                                  <SelectItem key={option.id} value={option.id} className="text-xs hover:bg-gray-200 focus:bg-gray-300">
+                                    {option.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {material ? (
+                              <div className="grid grid-cols-3 text-center text-[10px] font-mono text-black border border-black bg-gray-50" title="Absorption coefficient at 40, 80 and 160 Hz">
+                                {[40, 80, 160].map(freq => (
+                                  <div key={freq}>
+                                    <div>{freq} Hz</div>
+                                    <div>{absorptionAt(material.spectrum, freq).toFixed(2)}</div>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <Slider
+                                min={0.01}
+                                max={1.0}
+                                step={0.01}
+                                value={[surfaceAbsorptions[surface]]}
+                                onValueChange={([v]) => {
+                                  onSurfaceAbsorptionChange(surface, v);
+                                }}
+                                disabled={!applySurfaceAbsorption}
+                              />
+                            )}
                           </div>
-                          <Slider
-                            min={0.01}
-                            max={1.0}
-                            step={0.01}
-                            value={[surfaceAbsorptions[surface]]}
-                            onValueChange={([v]) => {
-                              onSurfaceAbsorptionChange(surface, v);
-                            }}
-                            disabled={!applySurfaceAbsorption}
-                          />
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
+                    <p className="text-xs text-black mt-2">
+                      * Library materials absorb differently per frequency; the badge shows α at 63 Hz.
+                    </p>
                   </div>
 
                   {/* Room Furnishing Level Section */}
@@ -577,7 +658,138 @@ export function RoomControls({
                 <span className="font-mono">{eqBandCount}</span>
               </div>
               <div className="text-xs text-gray-600 mt-1">
-                Direct target matching with smart peak detection and high-precision corrections
+                {eqMethod === 'least-squares'
+                  ? 'Joint fit of frequency, gain and Q of all bands within the boost, cut and Q limits'
+                  : 'Direct target matching with smart peak detection and high-precision corrections'}
+              </div>
+              {eqMultiSeat && seatCount > 1 && (
+                <div className="text-xs text-gray-600 mt-1">
+                  One band set for {seatCount} seats by weighted error, no boost into nulls at only some seats
+                </div>
+              )}
+              {EQ_METHODS.filter(({ value }) => eqErrorByMethod[value]).map(({ value, label }) => (
+                <div key={value} className="flex justify-between text-xs mt-1">
+                  <span>{label} RMS Error:</span>
+                  <span className="font-mono">
+                    {eqErrorByMethod[value]!.initial.toFixed(2)} → {eqErrorByMethod[value]!.final.toFixed(2)} dB
+                  </span>
+                </div>
+              ))}
+              {eqHeadroom && (
+                <>
+                  <div className="flex justify-between text-xs mt-1">
+                    <span>Max Boost:</span>
+                    <span className="font-mono">
+                      {eqHeadroom.maxBoostFreq !== null
+                        ? `+${eqHeadroom.maxBoostDb.toFixed(1)} dB @ ${eqHeadroom.maxBoostFreq.toFixed(0)} Hz`
+                        : 'none'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-xs mt-1">
+                    <span>Preamp:</span>
+                    <span className="font-mono">{eqHeadroom.preampDb < 0 ? eqHeadroom.preampDb.toFixed(1) : '0.0'} dB</span>
+                  </div>
+                  <div className="flex justify-between text-xs mt-1">
+                    <span>Boost Energy:</span>
+                    <span className="font-mono">
+                      {eqHeadroom.boostEnergyDbOct.toFixed(1)}{eqBoostMode === 'boost-budget' && ` / ${eqBoostBudget.toFixed(0)}`} dB·oct
+                    </span>
+                  </div>
+                  {eqHeadroom.excursionWarning ? (
+                    <div className="text-xs mt-2 p-2 border border-black bg-white">
+                      ⚠️ +{eqHeadroom.excursionWarning.boostDb.toFixed(1)} dB at {eqHeadroom.excursionWarning.freq.toFixed(0)} Hz
+                      exceeds the driver excursion limit of {eqHeadroom.excursionWarning.limitDb >= 0 ? '+' : ''}
+                      {eqHeadroom.excursionWarning.limitDb.toFixed(1)} dB
+                      {excursionLimit && ` (${excursionLimit.source} ${excursionLimit.cornerHz.toFixed(0)} Hz)`}
+                    </div>
+                  ) : (
+                    <div className="text-xs text-gray-600 mt-1">
+                      {excursionLimit
+                        ? `Boosts within the excursion limit (${excursionLimit.source} ${excursionLimit.cornerHz.toFixed(0)} Hz)`
+                        : 'No LF specs for an excursion check'}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* EQ Method */}
+            <div className="space-y-2">
+              <Label className="text-sm text-black">EQ Method</Label>
+              <div className="flex bg-white border border-black">
+                {EQ_METHODS.map(({ value, label }, index) => (
+                  <button
+                    key={value}
+                    onClick={() => onEqMethodChange(value)}
+                    className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                      eqMethod === value ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                    } transition-colors`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* EQ Positions */}
+            {seatCount > 1 && (
+              <div className="space-y-2">
+                <Label className="text-sm text-black">EQ Positions</Label>
+                <div className="flex bg-white border border-black">
+                  {[false, true].map((multiSeat, index) => (
+                    <button
+                      key={String(multiSeat)}
+                      onClick={() => onEqMultiSeatChange(multiSeat)}
+                      className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                        eqMultiSeat === multiSeat ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                      } transition-colors`}
+                    >
+                      {multiSeat ? `All Seats (${seatCount})` : 'Main Seat'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Boost Mode */}
+            <div className="space-y-2">
+              <Label className="text-sm text-black">Boost Mode</Label>
+              <div className="flex bg-white border border-black">
+                {EQ_BOOST_MODES.map(({ value, label }, index) => (
+                  <button
+                    key={value}
+                    onClick={() => onEqBoostModeChange(value)}
+                    className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                      eqBoostMode === value ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                    } transition-colors`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {eqBoostMode === 'boost-budget' && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center text-sm">
+                    <Label className="text-black">Boost Budget</Label>
+                    <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                      {eqBoostBudget.toFixed(0)} dB·oct
+                    </span>
+                  </div>
+                  <Slider
+                    min={1}
+                    max={24}
+                    step={1}
+                    value={[eqBoostBudget]}
+                    onValueChange={([v]) => onEqBoostBudgetChange(v)}
+                  />
+                </div>
+              )}
+              <div className="text-xs text-gray-600">
+                {eqBoostMode === 'cut-only'
+                  ? 'Never boosts, for amplifiers without headroom'
+                  : eqBoostMode === 'boost-budget'
+                    ? 'Boosts are scaled down together until their total energy fits the budget'
+                    : 'Boosts up to the max boost per band'}
               </div>
             </div>
 
@@ -618,6 +830,7 @@ export function RoomControls({
                   step={0.1}
                   value={[eqMaxBoost]}
                   onValueChange={([v]) => onEqMaxBoostChange(v)}
+                  disabled={eqBoostMode === 'cut-only'}
                 />
                 <div className="flex justify-between text-xs text-gray-600">
                   <span>0dB</span>
@@ -662,6 +875,27 @@ export function RoomControls({
                   onValueChange={([v]) => onEqSmoothingChange(v)}
                 />
               </div>
+
+              {/* DSP Sample Rate */}
+              <div className="space-y-2">
+                <Label className="text-sm text-black">DSP Sample Rate</Label>
+                <div className="flex bg-white border border-black">
+                  {SAMPLE_RATES.map((rate, index) => (
+                    <button
+                      key={rate}
+                      onClick={() => onEqSampleRateChange(rate)}
+                      className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                        eqSampleRate === rate ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                      } transition-colors`}
+                    >
+                      {(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 1)} kHz
+                    </button>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-600">
+                  Bands are shown as the biquads a DSP at this rate realizes
+                </div>
+              </div>
             </div>
 
             {/* Display Options */}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { RoomDimensions } from '@/utils/roomModeCalculations';
+import { RoomCorner } from '@/utils/bassTraps';
+import { RoomShapeSettings } from '@/utils/roomGeometry';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface RoomShapePanelProps {
+  room: RoomDimensions; // Bounding box of the shape
+  shape: RoomShapeSettings;
+  onShapeChange: (shape: RoomShapeSettings) => void;
+}
+
+const CORNER_OPTIONS: RoomCorner[] = ['front-left', 'front-right', 'back-left', 'back-right'];
+const WALL_OPTIONS: RoomShapeSettings['slope']['wall'][] = ['front', 'back', 'left', 'right'];
+
+export function RoomShapePanel({ room, shape, onShapeChange }: RoomShapePanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const updateNotch = (changes: Partial<RoomShapeSettings['notch']>) =>
+    onShapeChange({ ...shape, notch: { ...shape.notch, ...changes } });
+  const updateSlope = (changes: Partial<RoomShapeSettings['slope']>) =>
+    onShapeChange({ ...shape, slope: { ...shape.slope, ...changes } });
+
+  const slopeExtent = shape.slope.wall === 'left' || shape.slope.wall === 'right' ? room.L : room.W;
+
+  const renderSlider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center text-xs">
+        <Label className="text-black">{label}</Label>
+        <span className="font-mono text-black">{value.toFixed(2)} m</span>
+      </div>
+      <Slider min={min} max={Math.max(min, max)} step={0.05} value={[value]} onValueChange={([v]) => onChange(v)} />
+    </div>
+  );
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Room Shape</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Room Shape" : "Expand Room Shape"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <p className="text-xs text-black">
+            The room dimensions set the bounding box. L-shaped and attic rooms are solved with the FDTD wave simulation instead of the shoebox mode sum;
+            the response chart, every seat, the crossover to the mains and the generated EQ follow the shape. Speakers and seats are kept inside the room,
+            and the sub search and position map only consider points inside it, but still rank them with the bounding box, as do the multi-sub optimizer, the waterfall and the mode table.
+          </p>
+
+          <div className="p-3 border border-black bg-gray-50 space-y-2">
+            <div className="flex justify-between items-center">
+              <Label htmlFor="enableNotch" className="text-sm text-black">L-Shaped (Cut-Out Corner)</Label>
+              <Checkbox
+                id="enableNotch"
+                checked={shape.notch.enabled}
+                onCheckedChange={(checked) => updateNotch({ enabled: checked === true })}
+                aria-label="Cut a rectangle out of one corner of the room"
+              />
+            </div>
+            <div className={`space-y-2 ${!shape.notch.enabled ? 'opacity-50 pointer-events-none' : ''}`}>
+              <Select value={shape.notch.corner} onValueChange={(value) => updateNotch({ corner: value as RoomCorner })}>
+                <SelectTrigger className="w-full h-8 text-xs bg-white border-black text-black focus:ring-black capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  {CORNER_OPTIONS.map(corner => (
+                    <SelectItem key={corner} value={corner} className="text-xs capitalize hover:bg-gray-200 focus:bg-gray-300">
+                      {corner.replace('-', ' ')} corner
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderSlider('Cut-Out Length (X)', shape.notch.length, 0.5, room.L * 0.8, v => updateNotch({ length: v }))}
+              {renderSlider('Cut-Out Width (Y)', shape.notch.width, 0.5, room.W * 0.8, v => updateNotch({ width: v }))}
+            </div>
+          </div>
+
+          <div className="p-3 border border-black bg-gray-50 space-y-2">
+            <div className="flex justify-between items-center">
+              <Label htmlFor="enableSlope" className="text-sm text-black">Sloped Ceiling</Label>
+              <Checkbox
+                id="enableSlope"
+                checked={shape.slope.enabled}
+                onCheckedChange={(checked) => updateSlope({ enabled: checked === true })}
+                aria-label="Slope the ceiling down towards one wall"
+              />
+            </div>
+            <div className={`space-y-2 ${!shape.slope.enabled ? 'opacity-50 pointer-events-none' : ''}`}>
+              <Select value={shape.slope.wall} onValueChange={(value) => updateSlope({ wall: value as RoomShapeSettings['slope']['wall'] })}>
+                <SelectTrigger className="w-full h-8 text-xs bg-white border-black text-black focus:ring-black capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  {WALL_OPTIONS.map(wall => (
+                    <SelectItem key={wall} value={wall} className="text-xs capitalize hover:bg-gray-200 focus:bg-gray-300">
+                      Down towards {wall} wall
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderSlider('Slope Starts From Wall', shape.slope.startDistance, 0.5, slopeExtent, v => updateSlope({ startDistance: v }))}
+              {renderSlider('Knee Wall Height', shape.slope.kneeHeight, 0.3, room.H, v => updateSlope({ kneeHeight: v }))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,42 +2,120 @@ import { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { DraggablePoint } from './DraggablePoint';
-import { Point, RoomDimensions } from '@/utils/roomModeCalculations';
+import { Point, RoomDimensions, SubwooferSource, ListeningSeat } from '@/utils/roomModeCalculations';
+import type { KeepOutZone, ListeningHeatmap, ListeningHeatmapCell, SubPositionCandidate } from '@/utils/placementOptimizer';
+import type { BassTrap } from '@/utils/bassTraps';
+import { RoomGeometry, ceilingHeightAt } from '@/utils/roomGeometry';
 
 interface RoomVisualizationProps {
   room: RoomDimensions;
-  sub: Point;
-  listener: Point;
+  subwoofers: SubwooferSource[];
+  listener: Point; // Primary seat, used for the stereo angle guidelines
+  seats: ListeningSeat[];
   selectedPoint: string | null;
-  onSubPositionChange: (position: Point) => void;
-  onListenerPositionChange: (position: Point) => void;
+  onSubwooferPositionChange: (id: string, position: Point) => void;
+  onSeatPositionChange: (id: string, position: Point) => void;
   onSelectPoint: (point: string | null) => void;
   resetTrigger?: number;
   showAngleGuidelines?: boolean;
   highlightedSurface?: string | null;
+  subCandidates?: SubPositionCandidate[]; // Ghost markers from the sub position search
+  keepOutZones?: KeepOutZone[];
+  listeningHeatmap?: ListeningHeatmap | null; // Listening-position scores drawn on the floor
+  onHeatmapCellClick?: (cell: ListeningHeatmapCell) => void;
+  mains?: SubwooferSource[]; // Left/right main speakers, when simulated
+  onMainPositionChange?: (id: string, position: Point) => void;
+  bassTraps?: BassTrap[];
+  roomGeometry?: RoomGeometry | null; // Non-shoebox shape inside the room box, drawn as an outline
+  onDragStateChange?: (isDragging: boolean) => void; // A speaker or seat is being dragged
 }
 
 const SPEAKER_GUIDELINE_1_NAME = 'speakerGuideline1';
 const SPEAKER_GUIDELINE_2_NAME = 'speakerGuideline2';
 const SPEAKER_ANGLE_ARC_NAME = 'speakerAngleArc';
 
+const SUB_CANDIDATES_GROUP_NAME = 'subCandidateGhosts';
+const KEEP_OUT_ZONES_GROUP_NAME = 'keepOutZones';
+const LISTENING_HEATMAP_NAME = 'listeningHeatmap';
+const BASS_TRAPS_GROUP_NAME = 'bassTraps';
+const BASS_TRAP_COLOR = 0x8b7355;
+const BASS_TRAP_DEPTH = 0.1; // Display thickness of wall panels
+const ROOM_OUTLINE_NAME = 'roomShapeOutline';
+const OUTLINE_SEGMENT_M = 0.1; // Edge subdivision so sloped ceilings follow their kinks
+
+// Primary sub keeps the original red, additional subs get darker shades
+const SUBWOOFER_COLORS = ['#ea384c', '#b3202f', '#8a1622', '#f06b7a'];
+const MAIN_SPEAKER_COLOR = '#4b5563';
+
+// Build a camera-facing text label from a canvas texture
+function createTextSprite(text: string): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 3;
+    ctx.strokeRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    ctx.font = 'bold 28px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  const material = new THREE.SpriteMaterial({ map: texture, depthTest: false });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(0.6, 0.15, 1);
+  sprite.renderOrder = 2;
+  return sprite;
+}
+
+// Dispose geometries, materials and textures of everything below an object
+function disposeObject(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Sprite) {
+      if (!(child instanceof THREE.Sprite)) child.geometry.dispose(); // Sprites share one geometry
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(material => {
+        if ('map' in material && material.map instanceof THREE.Texture) material.map.dispose();
+        material.dispose();
+      });
+    }
+  });
+}
+
 export function RoomVisualization({
   room,
-  sub,
+  subwoofers,
   listener,
+  seats,
   selectedPoint,
-  onSubPositionChange,
-  onListenerPositionChange,
+  onSubwooferPositionChange,
+  onSeatPositionChange,
   onSelectPoint,
   resetTrigger,
   showAngleGuidelines,
-  highlightedSurface
+  highlightedSurface,
+  subCandidates,
+  keepOutZones,
+  listeningHeatmap,
+  onHeatmapCellClick,
+  mains,
+  onMainPositionChange,
+  bassTraps,
+  roomGeometry,
+  onDragStateChange
 }: RoomVisualizationProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [renderer, setRenderer] = useState<THREE.WebGLRenderer | null>(null);
   const [scene, setScene] = useState<THREE.Scene | null>(null);
   const [camera, setCamera] = useState<THREE.PerspectiveCamera | null>(null);
   const [controls, setControls] = useState<OrbitControls | null>(null);
+  const selectedPointRef = useRef(selectedPoint);
+  selectedPointRef.current = selectedPoint;
   
   // Initialize Three.js scene
   useEffect(() => {
@@ -289,8 +367,8 @@ export function RoomVisualization({
     // left: -X (index 1)
     // ceiling: +Y (index 2) (Box Y maps to Room H/Z)
     // floor: -Y (index 3) (Box Y maps to Room H/Z)
-    // front: +Z (index 4) (Box Z maps to Room W/Y)
-    // back: -Z (index 5) (Box Z maps to Room W/Y)
+    // back: +Z (index 4) (Box Z maps to Room W/Y)
+    // front: -Z (index 5) (Box Z maps to Room W/Y), the wall the listener faces
 
     let highlightIndex = -1;
     switch (highlightedSurface) {
@@ -298,8 +376,8 @@ export function RoomVisualization({
       case 'left': highlightIndex = 1; break;  
       case 'ceiling': highlightIndex = 2; break;
       case 'floor': highlightIndex = 3; break;  
-      case 'front': highlightIndex = 4; break; 
-      case 'back': highlightIndex = 5; break;   
+      case 'back': highlightIndex = 4; break; 
+      case 'front': highlightIndex = 5; break;  
     }
 
     if (highlightIndex !== -1) {
@@ -407,35 +485,284 @@ export function RoomVisualization({
     };
   }, [scene, listener, room, showAngleGuidelines]); // Add showAngleGuidelines to dependencies
 
+  // Ghost markers for the best sub positions found by the search
+  useEffect(() => {
+    if (!scene || !subCandidates || subCandidates.length === 0) return;
+
+    const group = new THREE.Group();
+    group.name = SUB_CANDIDATES_GROUP_NAME;
+
+    subCandidates.forEach(candidate => {
+      // Same footprint as the sub marker in DraggablePoint
+      const ghost = new THREE.Mesh(
+        new THREE.BoxGeometry(0.3, 0.4, 0.3),
+        new THREE.MeshStandardMaterial({ color: 0xea384c, transparent: true, opacity: 0.25, depthWrite: false })
+      );
+      ghost.position.set(candidate.position.x, candidate.position.z, candidate.position.y);
+      group.add(ghost);
+
+      const label = createTextSprite(`#${candidate.rank} ${candidate.score.toFixed(1)} dB`);
+      label.position.set(candidate.position.x, candidate.position.z + 0.35, candidate.position.y);
+      group.add(label);
+    });
+
+    scene.add(group);
+    return () => {
+      scene.remove(group);
+      disposeObject(group);
+    };
+  }, [scene, subCandidates]);
+
+  // Keep-out zones drawn as translucent rectangles on the floor
+  useEffect(() => {
+    if (!scene || !keepOutZones || keepOutZones.length === 0) return;
+
+    const group = new THREE.Group();
+    group.name = KEEP_OUT_ZONES_GROUP_NAME;
+
+    keepOutZones.forEach(zone => {
+      const width = Math.max(0.01, zone.xMax - zone.xMin);
+      const depth = Math.max(0.01, zone.yMax - zone.yMin);
+      const plane = new THREE.Mesh(
+        new THREE.PlaneGeometry(width, depth),
+        new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.2, side: THREE.DoubleSide, depthWrite: false })
+      );
+      plane.rotation.x = -Math.PI / 2;
+      plane.position.set(zone.xMin + width / 2, 0.005, zone.yMin + depth / 2);
+      group.add(plane);
+    });
+
+    scene.add(group);
+    return () => {
+      scene.remove(group);
+      disposeObject(group);
+    };
+  }, [scene, keepOutZones]);
+
+  // Bass traps: panels as thin boxes against their surface, corner traps as quarter cylinders
+  useEffect(() => {
+    if (!scene || !bassTraps || bassTraps.length === 0) return;
+
+    const group = new THREE.Group();
+    group.name = BASS_TRAPS_GROUP_NAME;
+    const material = new THREE.MeshStandardMaterial({ color: BASS_TRAP_COLOR, transparent: true, opacity: 0.75 });
+
+    bassTraps.forEach(trap => {
+      const { x, y, z } = trap.position;
+      if (trap.kind === 'corner') {
+        // Quadrant pointing into the room; cylinder vertices sit at (r·sin θ, r·cos θ) in Three X/Z
+        const intoX = x === 0 ? 1 : -1;
+        const intoZ = y === 0 ? 1 : -1;
+        const thetaStart = intoX > 0 ? (intoZ > 0 ? 0 : Math.PI / 2) : (intoZ > 0 ? (3 * Math.PI) / 2 : Math.PI);
+        const radius = trap.width / Math.SQRT2;
+        const mesh = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, trap.height, 12, 1, false, thetaStart, Math.PI / 2), material.clone());
+        mesh.position.set(x, z, y);
+        group.add(mesh);
+        return;
+      }
+
+      let size: [number, number, number];
+      const position = new THREE.Vector3(x, z, y);
+      switch (trap.surface) {
+        case 'front':
+        case 'back':
+          size = [trap.width, trap.height, BASS_TRAP_DEPTH];
+          position.z += trap.surface === 'front' ? BASS_TRAP_DEPTH / 2 : -BASS_TRAP_DEPTH / 2;
+          break;
+        case 'left':
+        case 'right':
+          size = [BASS_TRAP_DEPTH, trap.height, trap.width];
+          position.x += trap.surface === 'left' ? BASS_TRAP_DEPTH / 2 : -BASS_TRAP_DEPTH / 2;
+          break;
+        default:
+          size = [trap.width, BASS_TRAP_DEPTH, trap.height];
+          position.y += trap.surface === 'floor' ? BASS_TRAP_DEPTH / 2 : -BASS_TRAP_DEPTH / 2;
+      }
+      const mesh = new THREE.Mesh(new THREE.BoxGeometry(...size), material.clone());
+      mesh.position.copy(position);
+      group.add(mesh);
+    });
+    material.dispose();
+
+    scene.add(group);
+    return () => {
+      scene.remove(group);
+      disposeObject(group);
+    };
+  }, [scene, bassTraps]);
+
+  // Outline of an L-shaped or sloped-ceiling room: floor plan, ceiling edge and vertical corners
+  useEffect(() => {
+    if (!scene || !roomGeometry) return;
+
+    const group = new THREE.Group();
+    group.name = ROOM_OUTLINE_NAME;
+    const material = new THREE.LineBasicMaterial({ color: 0x000000 });
+    const plan = roomGeometry.floorPlan;
+    const floorPoints: THREE.Vector3[] = [];
+    const ceilingPoints: THREE.Vector3[] = [];
+
+    plan.forEach((corner, index) => {
+      const nextCorner = plan[(index + 1) % plan.length];
+      const segments = Math.max(1, Math.ceil(Math.hypot(nextCorner.x - corner.x, nextCorner.y - corner.y) / OUTLINE_SEGMENT_M));
+      for (let s = 0; s < segments; s++) {
+        const x = corner.x + ((nextCorner.x - corner.x) * s) / segments;
+        const y = corner.y + ((nextCorner.y - corner.y) * s) / segments;
+        floorPoints.push(new THREE.Vector3(x, 0, y));
+        ceilingPoints.push(new THREE.Vector3(x, ceilingHeightAt(roomGeometry, x, y), y));
+      }
+      const cornerHeight = ceilingHeightAt(roomGeometry, corner.x, corner.y);
+      group.add(new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(corner.x, 0, corner.y), new THREE.Vector3(corner.x, cornerHeight, corner.y)]),
+        material.clone()
+      ));
+    });
+    group.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(floorPoints), material.clone()));
+    group.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(ceilingPoints), material.clone()));
+    material.dispose();
+
+    scene.add(group);
+    return () => {
+      scene.remove(group);
+      disposeObject(group);
+    };
+  }, [scene, roomGeometry]);
+
+  // Listening-position heatmap on the floor, green = best score, red = worst
+  useEffect(() => {
+    if (!scene || !listeningHeatmap) return;
+
+    const { columns, rows, cells, minScore, maxScore } = listeningHeatmap;
+    const canvas = document.createElement('canvas');
+    canvas.width = columns;
+    canvas.height = rows;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const range = maxScore - minScore || 1;
+      cells.forEach((cell, index) => {
+        if (!cell.inside) return; // Left transparent outside the room
+        const t = (cell.score - minScore) / range;
+        ctx.fillStyle = `hsl(${(1 - t) * 120}, 85%, 50%)`;
+        ctx.fillRect(index % columns, Math.floor(index / columns), 1, 1);
+      });
+    }
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    texture.minFilter = THREE.NearestFilter;
+
+    // Canvas rows run along room y, which maps to +Z after laying the plane flat
+    const heatmap = new THREE.Mesh(
+      new THREE.PlaneGeometry(room.L, room.W),
+      new THREE.MeshBasicMaterial({ map: texture, transparent: true, opacity: 0.6, side: THREE.DoubleSide, depthWrite: false })
+    );
+    heatmap.name = LISTENING_HEATMAP_NAME;
+    heatmap.rotation.x = -Math.PI / 2;
+    heatmap.position.set(room.L / 2, 0.003, room.W / 2);
+    scene.add(heatmap);
+
+    return () => {
+      scene.remove(heatmap);
+      disposeObject(heatmap);
+    };
+  }, [scene, room, listeningHeatmap]);
+
+  // Click on a heatmap cell to move the listener there (ignored after orbit drags and point selection)
+  useEffect(() => {
+    if (!scene || !camera || !renderer || !listeningHeatmap || !onHeatmapCellClick) return;
+
+    const raycaster = new THREE.Raycaster();
+    const mouse = new THREE.Vector2();
+    let downPosition: { x: number; y: number } | null = null;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downPosition = { x: event.clientX, y: event.clientY };
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (!downPosition || selectedPointRef.current) return;
+      if (Math.hypot(event.clientX - downPosition.x, event.clientY - downPosition.y) > 4) return;
+
+      const heatmap = scene.getObjectByName(LISTENING_HEATMAP_NAME);
+      if (!heatmap) return;
+
+      const rect = renderer.domElement.getBoundingClientRect();
+      mouse.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(mouse, camera);
+      const [hit] = raycaster.intersectObject(heatmap);
+      if (!hit) return;
+
+      const { columns, rows, cells } = listeningHeatmap;
+      const column = Math.min(columns - 1, Math.max(0, Math.floor(hit.point.x / (room.L / columns))));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(hit.point.z / (room.W / rows))));
+      const cell = cells[row * columns + column];
+      if (cell.inside) onHeatmapCellClick(cell);
+    };
+
+    const element = renderer.domElement;
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('click', handleClick);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('click', handleClick);
+    };
+  }, [scene, camera, renderer, room, listeningHeatmap, onHeatmapCellClick]);
+
   return (
     <>
       <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
       
       {renderer && scene && camera && (
         <>
-          <DraggablePoint
-            position={sub}
-            color="#ea384c" // Using the red color from useful-context
-            onPositionChange={onSubPositionChange}
-            isSelected={selectedPoint === 'sub'}
-            onSelect={() => onSelectPoint('sub')}
-            scene={scene}
-            camera={camera}
-            renderer={renderer}
-            type="speaker"
-          />
+          {subwoofers.map((subwoofer, index) => (
+            <DraggablePoint
+              key={subwoofer.id}
+              position={subwoofer.position}
+              color={SUBWOOFER_COLORS[index % SUBWOOFER_COLORS.length]}
+              onPositionChange={(position) => onSubwooferPositionChange(subwoofer.id, position)}
+              isSelected={selectedPoint === subwoofer.id}
+              onSelect={() => onSelectPoint(subwoofer.id)}
+              scene={scene}
+              camera={camera}
+              renderer={renderer}
+              type="speaker"
+              onDragStateChange={onDragStateChange}
+            />
+          ))}
           
-          <DraggablePoint
-            position={listener}
-            color="#1EAEDB" // Using the bright blue from useful-context
-            onPositionChange={onListenerPositionChange}
-            isSelected={selectedPoint === 'listener'}
-            onSelect={() => onSelectPoint('listener')}
-            scene={scene}
-            camera={camera}
-            renderer={renderer}
-            type="head"
-          />
+          {mains?.map(main => (
+            <DraggablePoint
+              key={main.id}
+              position={main.position}
+              color={MAIN_SPEAKER_COLOR}
+              onPositionChange={(position) => onMainPositionChange?.(main.id, position)}
+              isSelected={selectedPoint === main.id}
+              onSelect={() => onSelectPoint(main.id)}
+              scene={scene}
+              camera={camera}
+              renderer={renderer}
+              type="speaker"
+              onDragStateChange={onDragStateChange}
+            />
+          ))}
+
+          {seats.map(seat => (
+            <DraggablePoint
+              key={seat.id}
+              position={seat.position}
+              color="#1EAEDB" // Using the bright blue from useful-context
+              onPositionChange={(position) => onSeatPositionChange(seat.id, position)}
+              isSelected={selectedPoint === seat.id}
+              onSelect={() => onSelectPoint(seat.id)}
+              scene={scene}
+              camera={camera}
+              renderer={renderer}
+              type="head"
+              onDragStateChange={onDragStateChange}
+            />
+          ))}
         </>
       )}
     </>
@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  LogarithmicScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  type ChartOptions,
+} from 'chart.js';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  CrossoverSettings,
+  Point,
+  RoomDimensions,
+  RoomSurface,
+  SpeakerData,
+  SubwooferSource,
+  SurfaceAbsorptions,
+} from '@/utils/roomModeCalculations';
+import { AbsorptionSpectrum } from '@/utils/acousticMaterials';
+import { analyzeSbir } from '@/utils/sbirCalculator';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from '@/components/ui/slider';
+
+ChartJS.register(LinearScale, LogarithmicScale, PointElement, LineElement, Tooltip);
+
+interface SbirPanelProps {
+  room: RoomDimensions;
+  mains: SubwooferSource[];
+  enabled: boolean;                 // Needs the stereo mains to be simulated
+  listener: Point;
+  crossover: CrossoverSettings;     // Lower edge of the band the mains play
+  speakerData: SpeakerData | null;  // Directivity curves of the mains, null for an omnidirectional speaker
+  absorption: SurfaceAbsorptions;
+  absorptionSpectra: Partial<Record<RoomSurface, AbsorptionSpectrum>>;
+  onMainPositionChange: (id: string, position: Point) => void;
+}
+
+const SUGGESTED_BOUNDARIES = 3; // Nearest boundaries to suggest distances for
+
+export function SbirPanel({
+  room,
+  mains,
+  enabled,
+  listener,
+  crossover,
+  speakerData,
+  absorption,
+  absorptionSpectra,
+  onMainPositionChange,
+}: SbirPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>('main-left');
+  const [bandHigh, setBandHigh] = useState<number>(300);
+
+  const speaker = mains.find(main => main.id === selectedId) ?? mains[0];
+
+  const analysis = useMemo(() => {
+    if (!isExpanded || !enabled || !speaker) return null;
+    return analyzeSbir(speaker.position, listener, room, {
+      absorption,
+      absorptionSpectra,
+      speakerData,
+      bandLow: crossover.frequency,
+      bandHigh,
+    });
+  }, [isExpanded, enabled, speaker, listener, room, absorption, absorptionSpectra, speakerData, crossover.frequency, bandHigh]);
+
+  const chartData = useMemo(() => ({
+    datasets: [{
+      label: 'Direct + first reflections',
+      data: analysis ? analysis.response.map(p => ({ x: p.freq, y: p.db })) : [],
+      borderColor: 'rgb(0, 0, 0)',
+      borderWidth: 1.5,
+      pointRadius: 0,
+      fill: false,
+    }],
+  }), [analysis]);
+
+  const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { intersect: false, mode: 'nearest' },
+    scales: {
+      x: { type: 'logarithmic' as const, min: 20, max: 1000, title: { display: true, text: 'Frequency (Hz)' } },
+      y: { type: 'linear' as const, min: -30, max: 12, title: { display: true, text: 'Relative to direct (dB)' } },
+    },
+    plugins: {
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        titleColor: 'rgb(0, 0, 0)',
+        bodyColor: 'rgb(0, 0, 0)',
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        cornerRadius: 0,
+      },
+    },
+  }), []);
+
+  const inBand = (freq: number) => freq >= crossover.frequency && freq <= bandHigh;
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Boundary Interference (SBIR)</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Boundary Interference" : "Expand Boundary Interference"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        {!enabled || !speaker ? (
+          <p className="text-xs text-black">Enable the stereo mains to check their boundary notches.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex bg-white border border-black">
+              {mains.map((main, index) => (
+                <button
+                  key={main.id}
+                  onClick={() => setSelectedId(main.id)}
+                  className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                    speaker.id === main.id ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                  } transition-colors`}
+                >
+                  {main.id === 'main-left' ? 'Left Main' : main.id === 'main-right' ? 'Right Main' : main.id}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-xs text-black">
+              Each nearby boundary reflects a delayed copy of the speaker that cancels the direct sound a quarter wavelength away.
+              Depths use the surface absorption and {speakerData ? 'the measured directivity of the speaker' : 'an omnidirectional speaker'}.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <Label className="text-black">Band of Concern</Label>
+                <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                  {crossover.frequency}–{bandHigh} Hz
+                </span>
+              </div>
+              <Slider min={150} max={600} step={10} value={[bandHigh]} onValueChange={([v]) => setBandHigh(v)} />
+            </div>
+
+            <div className="h-48 border border-black">
+              <Line data={chartData} options={chartOptions} />
+            </div>
+
+            {analysis && (
+              <>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-black">Deepest In-Band Notch</span>
+                  <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                    {analysis.worstNotch
+                      ? `${Math.round(analysis.worstNotch.freq)} Hz · ${analysis.worstNotch.depthDb.toFixed(1)} dB (${analysis.worstNotch.surface})`
+                      : 'None'}
+                  </span>
+                </div>
+
+                <div className="border border-black">
+                  <table className="w-full text-xs text-black font-mono">
+                    <thead className="bg-gray-50">
+                      <tr className="border-b border-black">
+                        <th className="px-1 py-1 text-left font-semibold">Boundary</th>
+                        <th className="px-1 py-1 text-right font-semibold">Dist</th>
+                        <th className="px-1 py-1 text-right font-semibold">Notches</th>
+                        <th className="px-1 py-1 text-right font-semibold">Depth</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.boundaries.map(boundary => (
+                        <tr key={boundary.surface} className="border-b border-gray-300">
+                          <td className="px-1 py-0.5 capitalize">{boundary.surface}</td>
+                          <td className="px-1 py-0.5 text-right">{boundary.distance.toFixed(2)} m</td>
+                          <td className="px-1 py-0.5 text-right">
+                            {boundary.notches.map((notch, index) => (
+                              <span key={index} className={inBand(notch.freq) ? 'font-semibold' : 'text-gray-500'}>
+                                {index > 0 ? ' · ' : ''}{Math.round(notch.freq)}
+                              </span>
+                            ))} Hz
+                          </td>
+                          <td className="px-1 py-0.5 text-right">{boundary.notches[0].depthDb.toFixed(1)} dB</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="p-3 border border-black bg-gray-50 space-y-2 text-xs text-black">
+                  <p>Distances that move the first notch out of the band:</p>
+                  {analysis.suggestions.slice(0, SUGGESTED_BOUNDARIES).map(suggestion => (
+                    <div key={suggestion.surface} className="flex justify-between items-center gap-2">
+                      <span className="capitalize">{suggestion.surface} ({suggestion.currentDistance.toFixed(2)} m)</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs h-6 px-2 font-mono border-black"
+                          onClick={() => onMainPositionChange(speaker.id, suggestion.closePosition)}
+                          title={`Notch above ${bandHigh} Hz`}
+                        >
+                          ≤ {suggestion.closeDistance.toFixed(2)} m
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs h-6 px-2 font-mono border-black"
+                          disabled={!suggestion.farPosition}
+                          onClick={() => suggestion.farPosition && onMainPositionChange(speaker.id, suggestion.farPosition)}
+                          title={suggestion.farPosition ? `Notch below ${crossover.frequency} Hz` : 'The room is too small'}
+                        >
+                          {suggestion.farDistance !== null ? `≥ ${suggestion.farDistance.toFixed(2)} m` : 'n/a'}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { Slider } from '@/components/ui/slider';
+import { RoomDimensions } from '@/utils/roomModeCalculations';
+import type { KeepOutZone, PlacementWall, SubPlacementConstraint, SubPositionCandidate } from '@/utils/placementOptimizer';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface SubPlacementPanelProps {
+  room: RoomDimensions;
+  constraint: SubPlacementConstraint;
+  onConstraintChange: (value: SubPlacementConstraint) => void;
+  wall: PlacementWall;
+  onWallChange: (value: PlacementWall) => void;
+  gridStep: number;
+  onGridStepChange: (value: number) => void;
+  topN: number;
+  onTopNChange: (value: number) => void;
+  keepOutZones: KeepOutZone[];
+  onAddKeepOutZone: () => void;
+  onRemoveKeepOutZone: (id: string) => void;
+  onKeepOutZoneChange: (id: string, changes: Partial<Omit<KeepOutZone, 'id'>>) => void;
+  isSearching: boolean;
+  progress: { completed: number; total: number } | null;
+  candidates: SubPositionCandidate[];
+  onSearch: () => void;
+  onApplyCandidate: (candidate: SubPositionCandidate) => void;
+  onClearCandidates: () => void;
+  boundingBoxOnly?: boolean; // Non-shoebox room: candidates are limited to it, responses use the bounding box
+}
+
+const zoneAxes = [
+  { key: 'xMin' as const, label: 'X min', roomDimKey: 'L' as const },
+  { key: 'xMax' as const, label: 'X max', roomDimKey: 'L' as const },
+  { key: 'yMin' as const, label: 'Y min', roomDimKey: 'W' as const },
+  { key: 'yMax' as const, label: 'Y max', roomDimKey: 'W' as const },
+];
+
+export function SubPlacementPanel({
+  room,
+  constraint,
+  onConstraintChange,
+  wall,
+  onWallChange,
+  gridStep,
+  onGridStepChange,
+  topN,
+  onTopNChange,
+  keepOutZones,
+  onAddKeepOutZone,
+  onRemoveKeepOutZone,
+  onKeepOutZoneChange,
+  isSearching,
+  progress,
+  candidates,
+  onSearch,
+  onApplyCandidate,
+  onClearCandidates,
+  boundingBoxOnly = false,
+}: SubPlacementPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Sub Position Search</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Sub Position Search" : "Expand Sub Position Search"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[3000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-sm text-black">Placement</Label>
+            <Select value={constraint} onValueChange={(value) => onConstraintChange(value as SubPlacementConstraint)}>
+              <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-black text-black">
+                <SelectItem value="floor" className="hover:bg-gray-200 focus:bg-gray-300">Floor only</SelectItem>
+                <SelectItem value="wall" className="hover:bg-gray-200 focus:bg-gray-300">Against a wall</SelectItem>
+                <SelectItem value="anywhere" className="hover:bg-gray-200 focus:bg-gray-300">Anywhere (3D)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {constraint === 'wall' && (
+            <div className="space-y-2">
+              <Label className="text-sm text-black">Wall</Label>
+              <Select value={wall} onValueChange={(value) => onWallChange(value as PlacementWall)}>
+                <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  <SelectItem value="front" className="hover:bg-gray-200 focus:bg-gray-300">Front (y = 0)</SelectItem>
+                  <SelectItem value="back" className="hover:bg-gray-200 focus:bg-gray-300">Back (y = W)</SelectItem>
+                  <SelectItem value="left" className="hover:bg-gray-200 focus:bg-gray-300">Left (x = 0)</SelectItem>
+                  <SelectItem value="right" className="hover:bg-gray-200 focus:bg-gray-300">Right (x = L)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <Label className="text-black">Grid Spacing</Label>
+              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                {gridStep.toFixed(2)} m
+              </span>
+            </div>
+            <Slider min={0.1} max={1.0} step={0.05} value={[gridStep]} onValueChange={([v]) => onGridStepChange(v)} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <Label className="text-black">Candidates Shown</Label>
+              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                {topN}
+              </span>
+            </div>
+            <Slider min={1} max={10} step={1} value={[topN]} onValueChange={([v]) => onTopNChange(v)} />
+          </div>
+
+          {/* Keep-out zones */}
+          <div className="pt-4 border-t border-black space-y-3">
+            <h4 className="text-md font-medium text-black">Keep-out Zones</h4>
+            {keepOutZones.map((zone, index) => (
+              <div key={zone.id} className="p-3 border border-black bg-gray-50 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-semibold text-black">Zone {index + 1}</span>
+                  <Button variant="ghost" size="xs" onClick={() => onRemoveKeepOutZone(zone.id)} title="Remove zone">
+                    <Trash2 size={14} className="text-black" />
+                  </Button>
+                </div>
+                {zoneAxes.map(axis => (
+                  <div key={axis.key} className="space-y-1">
+                    <div className="flex justify-between items-center text-xs">
+                      <Label className="text-black">{axis.label}</Label>
+                      <span className="font-mono text-black">{zone[axis.key].toFixed(2)} m</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={room[axis.roomDimKey]}
+                      step={0.05}
+                      value={[zone[axis.key]]}
+                      onValueChange={([v]) => onKeepOutZoneChange(zone.id, { [axis.key]: v })}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+            <Button variant="default" size="sm" className="w-full" onClick={onAddKeepOutZone}>
+              <Plus size={16} className="text-black" />
+              Add Keep-out Zone
+            </Button>
+          </div>
+
+          {boundingBoxOnly && (
+            <p className="text-xs text-black">
+              Candidates stay inside the shaped room, but are ranked with the mode sum of its bounding box.
+            </p>
+          )}
+
+          <Button variant="default" size="sm" className="w-full" onClick={onSearch} disabled={isSearching}>
+            {isSearching && progress ? `Searching... ${progress.completed}/${progress.total}` : 'Find Best Sub Positions'}
+          </Button>
+
+          {candidates.length > 0 && (
+            <div className="p-3 border border-black bg-gray-50 space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold text-black">Best Positions</h4>
+                <Button variant="ghost" size="xs" className="text-xs px-2" onClick={onClearCandidates}>
+                  Clear
+                </Button>
+              </div>
+              {candidates.map(candidate => (
+                <div key={candidate.rank} className="flex justify-between items-center text-xs font-mono text-black">
+                  <span>#{candidate.rank}</span>
+                  <span>
+                    ({candidate.position.x.toFixed(2)}, {candidate.position.y.toFixed(2)}, {candidate.position.z.toFixed(2)})
+                  </span>
+                  <span>{candidate.score.toFixed(1)} dB</span>
+                  <Button variant="default" size="xs" className="px-2 text-xs" onClick={() => onApplyCandidate(candidate)}>
+                    Use
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { Slider } from '@/components/ui/slider';
+import { Point, RoomDimensions, SubwooferSource } from '@/utils/roomModeCalculations';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+interface SubwooferControlsProps {
+  room: RoomDimensions;
+  subwoofers: SubwooferSource[];
+  maxSubwoofers: number;
+  onAddSubwoofer: () => void;
+  onRemoveSubwoofer: (id: string) => void;
+  onSubwooferChange: (id: string, changes: Partial<Omit<SubwooferSource, 'id'>>) => void;
+}
+
+const positionAxes = [
+  { key: 'x' as const, label: 'X', roomDimKey: 'L' as const },
+  { key: 'y' as const, label: 'Y', roomDimKey: 'W' as const },
+  { key: 'z' as const, label: 'Z', roomDimKey: 'H' as const },
+];
+
+export function SubwooferControls({
+  room,
+  subwoofers,
+  maxSubwoofers,
+  onAddSubwoofer,
+  onRemoveSubwoofer,
+  onSubwooferChange,
+}: SubwooferControlsProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const handlePositionChange = (subwoofer: SubwooferSource, key: keyof Point, value: number) => {
+    onSubwooferChange(subwoofer.id, { position: { ...subwoofer.position, [key]: value } });
+  };
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Subwoofers ({subwoofers.length})</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Subwoofers" : "Expand Subwoofers"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          {subwoofers.map((subwoofer, index) => (
+            <div key={subwoofer.id} className="p-3 border border-black bg-gray-50 space-y-3">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold text-black">
+                  Sub {index + 1}{index === 0 ? ' (Primary)' : ''}
+                </h4>
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    onClick={() => onRemoveSubwoofer(subwoofer.id)}
+                    title="Remove subwoofer"
+                  >
+                    <Trash2 size={14} className="text-black" />
+                  </Button>
+                )}
+              </div>
+
+              {/* Position of the primary sub lives in the position controls below */}
+              {index > 0 && positionAxes.map(axis => (
+                <div key={axis.key} className="space-y-1">
+                  <div className="flex justify-between items-center text-sm">
+                    <Label className="text-black">{axis.label} Position</Label>
+                    <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                      {subwoofer.position[axis.key].toFixed(2)} m
+                    </span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={room[axis.roomDimKey]}
+                    step={0.01}
+                    value={[subwoofer.position[axis.key]]}
+                    onValueChange={([v]) => handlePositionChange(subwoofer, axis.key, v)}
+                  />
+                </div>
+              ))}
+
+              <div className="space-y-1">
+                <div className="flex justify-between items-center text-sm">
+                  <Label className="text-black">Gain</Label>
+                  <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                    {subwoofer.gainDb > 0 ? '+' : ''}{subwoofer.gainDb.toFixed(1)} dB
+                  </span>
+                </div>
+                <Slider
+                  min={-12}
+                  max={6}
+                  step={0.5}
+                  value={[subwoofer.gainDb]}
+                  onValueChange={([v]) => onSubwooferChange(subwoofer.id, { gainDb: v })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex justify-between items-center text-sm">
+                  <Label className="text-black">Delay</Label>
+                  <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                    {subwoofer.delayMs.toFixed(1)} ms
+                  </span>
+                </div>
+                <Slider
+                  min={0}
+                  max={20}
+                  step={0.1}
+                  value={[subwoofer.delayMs]}
+                  onValueChange={([v]) => onSubwooferChange(subwoofer.id, { delayMs: v })}
+                />
+              </div>
+
+              <div className="flex justify-between items-center text-sm">
+                <Label className="text-black">Polarity</Label>
+                <Button
+                  variant="default"
+                  size="xs"
+                  className="px-2 text-xs"
+                  onClick={() => onSubwooferChange(subwoofer.id, { polarity: subwoofer.polarity === 1 ? -1 : 1 })}
+                  title="Toggle polarity"
+                >
+                  {subwoofer.polarity === 1 ? 'Normal (+)' : 'Inverted (−)'}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="default"
+            size="sm"
+            className="w-full"
+            onClick={onAddSubwoofer}
+            disabled={subwoofers.length >= maxSubwoofers}
+            title={subwoofers.length >= maxSubwoofers ? `Maximum of ${maxSubwoofers} subwoofers` : "Add subwoofer"}
+          >
+            <Plus size={16} className="text-black" />
+            Add Subwoofer
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  type ChartOptions,
+} from 'chart.js';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ComplexResponsePoint, EQSettings } from '@/utils/roomModeCalculations';
+import { calculateDecayTime, calculateImpulseResponse, type SpectrumWindow } from '@/utils/timeDomainResponse';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface TimeDomainPanelProps {
+  complexResponse: ComplexResponsePoint[]; // Complex response at the primary seat
+  eqSettings: EQSettings | null;          // Current EQ, null when EQ is disabled
+}
+
+const DURATION_OPTIONS = [100, 250, 500, 1000];
+
+export function TimeDomainPanel({ complexResponse, eqSettings }: TimeDomainPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [view, setView] = useState<'impulse' | 'step'>('impulse');
+  const [spectrumWindow, setSpectrumWindow] = useState<SpectrumWindow>('tukey');
+  const [durationMs, setDurationMs] = useState<number>(500);
+  const [applyEQ, setApplyEQ] = useState<boolean>(true);
+
+  const hasEQ = !!eqSettings && eqSettings.enabled && eqSettings.bands.length > 0;
+
+  const original = useMemo(() => {
+    if (!isExpanded) return [];
+    return calculateImpulseResponse(complexResponse, { window: spectrumWindow, durationMs });
+  }, [isExpanded, complexResponse, spectrumWindow, durationMs]);
+
+  const corrected = useMemo(() => {
+    if (!isExpanded || !hasEQ || !applyEQ) return null;
+    return calculateImpulseResponse(complexResponse, { window: spectrumWindow, durationMs, eqSettings });
+  }, [isExpanded, hasEQ, applyEQ, complexResponse, spectrumWindow, durationMs, eqSettings]);
+
+  const chartData = useMemo(() => {
+    const key = view === 'impulse' ? 'impulse' : 'step';
+    const datasets = [{
+      label: view === 'impulse' ? 'Impulse' : 'Step',
+      data: original.map(p => ({ x: p.timeMs, y: p[key] })),
+      borderColor: 'rgb(0, 0, 0)',
+      borderWidth: 1,
+      pointRadius: 0,
+      fill: false,
+    }];
+    if (corrected) {
+      datasets.push({
+        label: view === 'impulse' ? 'Impulse (EQ)' : 'Step (EQ)',
+        data: corrected.map(p => ({ x: p.timeMs, y: p[key] })),
+        borderColor: 'rgb(34, 197, 94)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: false,
+      });
+    }
+    return { datasets };
+  }, [original, corrected, view]);
+
+  const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { intersect: false, mode: 'nearest' },
+    scales: {
+      x: { type: 'linear' as const, min: 0, max: durationMs, title: { display: true, text: 'Time (ms)' } },
+      y: { type: 'linear' as const, min: -1, max: 1, title: { display: true, text: 'Amplitude (normalized)' } },
+    },
+    plugins: {
+      legend: { display: true, position: 'top' as const },
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        titleColor: 'rgb(0, 0, 0)',
+        bodyColor: 'rgb(0, 0, 0)',
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        cornerRadius: 0,
+      },
+    },
+  }), [durationMs]);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Time Domain</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Time Domain" : "Expand Time Domain"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <div className="flex bg-white border border-black">
+            {(['impulse', 'step'] as const).map((option, index) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                  view === option ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                } transition-colors`}
+              >
+                {option === 'impulse' ? 'Impulse' : 'Step'}
+              </button>
+            ))}
+          </div>
+
+          <div className="h-56 border border-black">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-black">Window</Label>
+              <Select value={spectrumWindow} onValueChange={(value) => setSpectrumWindow(value as SpectrumWindow)}>
+                <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  <SelectItem value="rectangular" className="hover:bg-gray-200 focus:bg-gray-300">Rectangular</SelectItem>
+                  <SelectItem value="tukey" className="hover:bg-gray-200 focus:bg-gray-300">Tukey</SelectItem>
+                  <SelectItem value="hann" className="hover:bg-gray-200 focus:bg-gray-300">Hann</SelectItem>
+                  <SelectItem value="blackman" className="hover:bg-gray-200 focus:bg-gray-300">Blackman</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-black">Length</Label>
+              <Select value={String(durationMs)} onValueChange={(value) => setDurationMs(Number(value))}>
+                <SelectTrigger className="w-full bg-white border-black text-black focus:ring-black">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-black text-black">
+                  {DURATION_OPTIONS.map(duration => (
+                    <SelectItem key={duration} value={String(duration)} className="hover:bg-gray-200 focus:bg-gray-300">
+                      {duration} ms
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className={`flex justify-between items-center ${!hasEQ ? 'opacity-50 pointer-events-none' : ''}`}>
+            <Label htmlFor="timeDomainApplyEQ" className="text-sm text-black">Compare with EQ</Label>
+            <Checkbox
+              id="timeDomainApplyEQ"
+              checked={applyEQ}
+              onCheckedChange={(checked) => setApplyEQ(checked === true)}
+              disabled={!hasEQ}
+              aria-label="Show impulse response with the current EQ applied"
+            />
+          </div>
+
+          <div className="p-3 border border-black bg-gray-50 space-y-1 text-xs text-black">
+            <div className="flex justify-between">
+              <span>Decay to −40 dB</span>
+              <span className="font-mono">{calculateDecayTime(original).toFixed(0)} ms</span>
+            </div>
+            {corrected && (
+              <div className="flex justify-between">
+                <span>Decay to −40 dB with EQ</span>
+                <span className="font-mono">{calculateDecayTime(corrected).toFixed(0)} ms</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
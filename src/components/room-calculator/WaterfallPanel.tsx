@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  EQSettings,
+  ModalDamping,
+  Point,
+  RoomDimensions,
+  SubwooferSource,
+  WaterfallSlice,
+  calculateModalWaterfall,
+} from '@/utils/roomModeCalculations';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from '@/components/ui/slider';
+
+interface WaterfallPanelProps {
+  room: RoomDimensions;
+  subwoofers: SubwooferSource[];
+  listener: Point;
+  baseQFactor: ModalDamping;
+  eqSettings: EQSettings | null; // Current EQ, null when EQ is disabled
+}
+
+const CANVAS_WIDTH = 320;
+const CANVAS_HEIGHT = 220;
+const DURATION_MS = 500;
+const FREQ_MIN = 20;
+const FREQ_MAX = 300;
+
+// Spectrogram colour: blue (quiet) to red (loud), t in 0..1 (fully saturated HSL hue ramp)
+const levelColor = (t: number): [number, number, number] => {
+  const hue = (1 - t) * 240;
+  const x = 1 - Math.abs(((hue / 60) % 2) - 1);
+  const [r, g, b] = hue < 60 ? [1, x, 0] : hue < 120 ? [x, 1, 0] : hue < 180 ? [0, 1, x] : [0, x, 1];
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+};
+
+export function WaterfallPanel({ room, subwoofers, listener, baseQFactor, eqSettings }: WaterfallPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showEQ, setShowEQ] = useState(false);
+  const [rangeDb, setRangeDb] = useState<number>(50);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const hasEQ = !!eqSettings && eqSettings.enabled && eqSettings.bands.length > 0;
+  const activeEQ = showEQ && hasEQ ? eqSettings : null;
+
+  const slices: WaterfallSlice[] = useMemo(() => {
+    if (!isExpanded) return [];
+    return calculateModalWaterfall(subwoofers, listener, room.L, room.W, room.H, {
+      baseQFactor,
+      durationMs: DURATION_MS,
+      eqSettings: activeEQ,
+    });
+  }, [isExpanded, subwoofers, listener, room, baseQFactor, activeEQ]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || slices.length === 0) return;
+
+    // Levels relative to the loudest point of the first slice
+    const peakDb = Math.max(...slices[0].response.map(p => p.db));
+    const firstFreq = slices[0].response[0].freq;
+    const freqStep = slices[0].response.length > 1 ? slices[0].response[1].freq - firstFreq : 1;
+    const image = ctx.createImageData(CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    for (let py = 0; py < CANVAS_HEIGHT; py++) {
+      const slice = slices[Math.min(slices.length - 1, Math.round((py / (CANVAS_HEIGHT - 1)) * (slices.length - 1)))];
+      for (let px = 0; px < CANVAS_WIDTH; px++) {
+        const freq = FREQ_MIN * (FREQ_MAX / FREQ_MIN) ** (px / (CANVAS_WIDTH - 1));
+        const index = Math.min(slice.response.length - 1, Math.max(0, Math.round((freq - firstFreq) / freqStep)));
+        const level = Math.min(1, Math.max(0, 1 + (slice.response[index].db - peakDb) / rangeDb));
+        const [r, g, b] = level > 0 ? levelColor(level) : [255, 255, 255];
+        const offset = (py * CANVAS_WIDTH + px) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [slices, rangeDb]);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Modal Decay (Waterfall)</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Modal Decay" : "Expand Modal Decay"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <div className={`flex bg-white border border-black ${!hasEQ ? 'opacity-50 pointer-events-none' : ''}`}>
+            {([false, true] as const).map((option, index) => (
+              <button
+                key={String(option)}
+                onClick={() => setShowEQ(option)}
+                className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                  showEQ === option ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                } transition-colors`}
+                title={!hasEQ ? "Generate an EQ first" : undefined}
+              >
+                {option ? 'After EQ' : 'Before EQ'}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="w-full border border-black"
+              style={{ imageRendering: 'pixelated' }}
+            />
+            <div className="flex justify-between text-xs font-mono text-black">
+              <span>{FREQ_MIN} Hz</span>
+              <span>Frequency (log) · time 0 → {DURATION_MS} ms downwards</span>
+              <span>{FREQ_MAX} Hz</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center text-sm">
+              <Label className="text-black">Display Range</Label>
+              <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                {rangeDb} dB
+              </span>
+            </div>
+            <Slider min={20} max={80} step={5} value={[rangeDb]} onValueChange={([v]) => setRangeDb(v)} />
+          </div>
+
+          <p className="text-xs text-black">
+            Each mode decays with its own Q, so long vertical streaks show modes that keep ringing after the signal stops.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
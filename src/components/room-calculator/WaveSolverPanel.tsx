@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  type ChartOptions,
+} from 'chart.js';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { FdtdCrossCheck, FdtdResult, ResponseEngine } from '@/utils/fdtdSolver';
+import { Button } from "@/components/ui/button";
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip);
+
+interface WaveSolverPanelProps {
+  engine: ResponseEngine;        // Engine in use (the wave simulation when the room is not a shoebox)
+  onEngineChange: (engine: ResponseEngine) => void;
+  modalAvailable: boolean;       // The mode sum only describes shoebox rooms
+  isSimulating: boolean;
+  progress: { completed: number; total: number } | null;
+  result: FdtdResult | null;
+  crossCheck: FdtdCrossCheck | null; // Against the mode sum, shoebox rooms only
+}
+
+const ENGINE_OPTIONS: { value: ResponseEngine; label: string }[] = [
+  { value: 'modal', label: 'Mode Sum' },
+  { value: 'fdtd-2d', label: 'FDTD 2D' },
+  { value: 'fdtd-3d', label: 'FDTD 3D' },
+];
+
+const IMPULSE_DISPLAY_MS = 300;
+
+export function WaveSolverPanel({ engine, onEngineChange, modalAvailable, isSimulating, progress, result, crossCheck }: WaveSolverPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const chartData = useMemo(() => {
+    if (!result) return { datasets: [] };
+    const samples = result.impulseResponse.slice(0, Math.ceil((IMPULSE_DISPLAY_MS / 1000) * result.sampleRate));
+    const peak = Math.max(1e-12, ...samples.map(Math.abs));
+    return {
+      datasets: [{
+        label: 'Simulated impulse',
+        data: samples.map((sample, n) => ({ x: (n / result.sampleRate) * 1000, y: sample / peak })),
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: false,
+      }],
+    };
+  }, [result]);
+
+  const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { intersect: false, mode: 'nearest' },
+    scales: {
+      x: { type: 'linear' as const, min: 0, max: IMPULSE_DISPLAY_MS, title: { display: true, text: 'Time (ms)' } },
+      y: { type: 'linear' as const, min: -1, max: 1, title: { display: true, text: 'Pressure (normalized)' } },
+    },
+    plugins: {
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 1)',
+        titleColor: 'rgb(0, 0, 0)',
+        bodyColor: 'rgb(0, 0, 0)',
+        borderColor: 'rgb(0, 0, 0)',
+        borderWidth: 1,
+        cornerRadius: 0,
+      },
+    },
+  }), []);
+
+  return (
+    <div className="mb-4 p-4 border border-black rounded-none bg-white">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-black">Response Engine</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={isExpanded ? "Collapse Response Engine" : "Expand Response Engine"}
+        >
+          {isExpanded ? <ChevronUp size={18} className="text-black" /> : <ChevronDown size={18} className="text-black" />}
+        </Button>
+      </div>
+
+      <div className={`overflow-hidden transition-[max-height,opacity,padding-top] duration-300 ease-in-out ${isExpanded ? 'max-h-[2000px] opacity-100 pt-4' : 'max-h-0 opacity-0 pt-0'}`}>
+        <div className="space-y-4">
+          <div className="flex bg-white border border-black">
+            {ENGINE_OPTIONS.map((option, index) => {
+              const disabled = option.value === 'modal' && !modalAvailable;
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => onEngineChange(option.value)}
+                  disabled={disabled}
+                  className={`flex-1 px-3 py-1 text-xs ${index > 0 ? 'border-l border-black' : ''} ${
+                    engine === option.value ? 'bg-black text-white' : 'bg-white text-black hover:bg-gray-200'
+                  } ${disabled ? 'opacity-50 pointer-events-none' : ''} transition-colors`}
+                  title={disabled ? "The mode sum only describes shoebox rooms" : undefined}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-xs text-black">
+            {engine === 'modal'
+              ? 'Analytical sum of the shoebox modes: instant, and used by all optimizers.'
+              : engine === 'fdtd-2d'
+                ? 'Wave simulation of the floor plan only: fast, but without vertical modes.'
+                : 'Wave simulation of the full room volume on a voxel grid.'}
+            {engine !== 'modal' && ' Simulates the subwoofers; with stereo mains enabled the chart uses the mode sum.'}
+          </p>
+
+          {engine !== 'modal' && (
+            <>
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-black">Simulation</span>
+                <span className="font-mono text-sm text-black bg-white border border-black px-2 py-0.5">
+                  {isSimulating
+                    ? `${progress ? Math.round((100 * progress.completed) / progress.total) : 0}%`
+                    : result ? `${result.airCells} cells` : '—'}
+                </span>
+              </div>
+
+              {result && (
+                <>
+                  <p className="text-xs font-mono text-black">
+                    {result.dimensions}D · grid {(result.gridSpacing * 100).toFixed(0)} cm · {result.steps} steps at {Math.round(result.sampleRate)} Hz
+                  </p>
+                  <div className="h-40 border border-black">
+                    <Line data={chartData} options={chartOptions} />
+                  </div>
+                </>
+              )}
+
+              {crossCheck && (
+                <div className="p-3 border border-black bg-gray-50 space-y-1 text-xs text-black">
+                  <div className="flex justify-between">
+                    <span>Deviation from mode sum (≤150 Hz)</span>
+                    <span className="font-mono">{crossCheck.rmsDeviationDb.toFixed(1)} dB RMS</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Mode sum peaks</span>
+                    <span className="font-mono">{crossCheck.modalPeaks.join(' · ')} Hz</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Simulated peaks</span>
+                    <span className="font-mono">{crossCheck.fdtdPeaks.join(' · ')} Hz</span>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { useRef } from 'react';
+
+/**
+ * The value from the last render in which `frozen` was false. Lets views that are
+ * too slow to follow a drag keep showing the state from before it.
+ */
+export function useFrozenWhile<T>(value: T, frozen: boolean): T {
+  const settledRef = useRef(value);
+  if (!frozen) settledRef.current = value;
+  return settledRef.current;
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  RoomWorkerRequest,
+  RoomWorkerResponse,
+  RoomWorkerTaskKind,
+  RoomWorkerTasks,
+  runEQGeneration,
+  runRoomSimulation,
+} from '@/workers/roomSimulationTasks';
+import { isEQCancelledError, setCacheMemoryBudget } from '@/utils/roomModeCalculations';
+
+interface PendingTask {
+  kind: RoomWorkerTaskKind;
+  input: RoomWorkerTasks[RoomWorkerTaskKind]['input'];
+  onProgress?: (progress: RoomWorkerTasks[RoomWorkerTaskKind]['progress']) => void;
+  resolve: (result: RoomWorkerTasks[RoomWorkerTaskKind]['output'] | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Run room simulations and EQ generation in a Web Worker. Every run supersedes the
+ * previous run of the same kind: stale runs are cancelled and resolve with null,
+ * so only the latest result (e.g. of a drag) reaches the UI. Falls back to the
+ * main thread where workers are unavailable.
+ */
+export function useRoomSimulationWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingTask>());
+  const latestRef = useRef<Partial<Record<RoomWorkerTaskKind, number>>>({});
+  const nextIdRef = useRef(1);
+  const cacheBudgetRef = useRef<number | null>(null);
+
+  // Main-thread fallback, deferred a tick so runs superseded in the same frame are skipped
+  const runOnMainThread = useCallback((id: number, task: PendingTask) => {
+    setTimeout(async () => {
+      if (latestRef.current[task.kind] !== id) return;
+      try {
+        const result = task.kind === 'simulate'
+          ? runRoomSimulation(task.input as RoomWorkerTasks['simulate']['input'])
+          : await runEQGeneration(task.input as RoomWorkerTasks['generateEQ']['input'], progress => {
+            if (latestRef.current[task.kind] === id) task.onProgress?.(progress);
+          }, () => latestRef.current[task.kind] !== id);
+        pendingRef.current.delete(id);
+        task.resolve(latestRef.current[task.kind] === id ? result : null);
+      } catch (error) {
+        pendingRef.current.delete(id);
+        if (isEQCancelledError(error)) task.resolve(null);
+        else task.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }, 0);
+  }, []);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/roomSimulation.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('⚠️ Room simulation worker unavailable, computing on the main thread:', error);
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<RoomWorkerResponse>) => {
+      const message = event.data;
+      const task = pendingRef.current.get(message.id);
+      if (!task) return; // Cancelled in the meantime
+      if (message.type === 'progress') {
+        task.onProgress?.(message.progress);
+        return;
+      }
+      pendingRef.current.delete(message.id);
+      if (message.type === 'error') task.reject(new Error(message.error));
+      else task.resolve(latestRef.current[task.kind] === message.id ? message.result : null);
+    };
+
+    worker.onerror = (event) => {
+      console.error('❌ Room simulation worker failed, computing on the main thread:', event.message);
+      worker.terminate();
+      workerRef.current = null;
+      pendingRef.current.forEach((task, id) => runOnMainThread(id, task));
+    };
+
+    if (cacheBudgetRef.current !== null) {
+      worker.postMessage({ type: 'setCacheBudget', bytes: cacheBudgetRef.current } satisfies RoomWorkerRequest);
+    }
+    workerRef.current = worker;
+    const pending = pendingRef.current;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.forEach(task => task.resolve(null));
+      pending.clear();
+    };
+  }, [runOnMainThread]);
+
+  const cancel = useCallback((kind: RoomWorkerTaskKind) => {
+    const id = latestRef.current[kind];
+    if (id === undefined) return;
+    delete latestRef.current[kind];
+    const task = pendingRef.current.get(id);
+    if (!task) return;
+    pendingRef.current.delete(id);
+    workerRef.current?.postMessage({ type: 'cancel', id } satisfies RoomWorkerRequest);
+    task.resolve(null);
+  }, []);
+
+  const run = useCallback(<K extends RoomWorkerTaskKind>(
+    kind: K,
+    input: RoomWorkerTasks[K]['input'],
+    onProgress?: (progress: RoomWorkerTasks[K]['progress']) => void
+  ): Promise<RoomWorkerTasks[K]['output'] | null> => {
+    cancel(kind);
+    const id = nextIdRef.current++;
+    latestRef.current[kind] = id;
+
+    return new Promise((resolve, reject) => {
+      const task: PendingTask = {
+        kind,
+        input,
+        onProgress: onProgress as PendingTask['onProgress'],
+        resolve: resolve as PendingTask['resolve'],
+        reject,
+      };
+      pendingRef.current.set(id, task);
+      if (workerRef.current) workerRef.current.postMessage({ type: 'run', id, kind, input } satisfies RoomWorkerRequest);
+      else runOnMainThread(id, task);
+    });
+  }, [cancel, runOnMainThread]);
+
+  // The worker holds its own caches, the main thread keeps the fallback's and the searches'
+  const setCacheBudget = useCallback((bytes: number) => {
+    cacheBudgetRef.current = bytes;
+    setCacheMemoryBudget(bytes);
+    workerRef.current?.postMessage({ type: 'setCacheBudget', bytes } satisfies RoomWorkerRequest);
+  }, []);
+
+  return { run, cancel, setCacheBudget };
+}
@@ -0,0 +1,191 @@
+/* Acoustic material library: frequency-dependent absorption spectra for room surfaces */
+const AIR_DENSITY = 1.21;   // kg/m³
+const SPEED_OF_SOUND = 343; // m/s, same as the modal model
+
+export const OCTAVE_BAND_CENTERS = [31.5, 63, 125, 250, 500, 1000, 2000, 4000];
+export const THIRD_OCTAVE_BAND_CENTERS = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500,
+  630, 800, 1000, 1250, 1600, 2000, 2500, 3150, 4000,
+];
+
+/**
+ * Absorption coefficients per band. Values between band centres are
+ * interpolated on a log-frequency axis, outside the bands the edge value holds.
+ */
+export interface AbsorptionSpectrum {
+  bands: number[];        // Band centre frequencies in Hz, ascending
+  coefficients: number[]; // Absorption coefficient (0..1) per band
+}
+
+export type MaterialCategory = 'surface' | 'porous' | 'membrane' | 'helmholtz';
+
+export interface AcousticMaterial {
+  id: string;
+  name: string;
+  category: MaterialCategory;
+  spectrum: AbsorptionSpectrum;
+}
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const cAdd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+const cSub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+const cMul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const cDiv = (a: Complex, b: Complex): Complex => {
+  const denominator = b.re ** 2 + b.im ** 2;
+  return { re: (a.re * b.re + a.im * b.im) / denominator, im: (a.im * b.re - a.re * b.im) / denominator };
+};
+const cTan = (z: Complex): Complex => {
+  const denominator = Math.cos(2 * z.re) + Math.cosh(2 * z.im);
+  return { re: Math.sin(2 * z.re) / denominator, im: Math.sinh(2 * z.im) / denominator };
+};
+const J: Complex = { re: 0, im: 1 };
+
+/**
+ * Normal-incidence absorption of a surface with normalized impedance z = Z / ρc.
+ */
+function absorptionFromImpedance(z: Complex): number {
+  const one = { re: 1, im: 0 };
+  const reflection = cDiv(cSub(z, one), cAdd(z, one));
+  return Math.min(1, Math.max(0, 1 - (reflection.re ** 2 + reflection.im ** 2)));
+}
+
+/**
+ * Sample an absorption model on the third-octave bands.
+ */
+function sampleSpectrum(absorptionAtFrequency: (freq: number) => number): AbsorptionSpectrum {
+  return {
+    bands: [...THIRD_OCTAVE_BAND_CENTERS],
+    coefficients: THIRD_OCTAVE_BAND_CENTERS.map(freq => roundCoefficient(absorptionAtFrequency(freq))),
+  };
+}
+
+const roundCoefficient = (value: number) => Math.round(Math.min(1, Math.max(0.01, value)) * 1000) / 1000;
+
+/**
+ * Absorption coefficient of a spectrum at any frequency.
+ */
+export function absorptionAt(spectrum: AbsorptionSpectrum, freq: number): number {
+  const { bands, coefficients } = spectrum;
+  if (bands.length === 0) return 0;
+  if (freq <= bands[0]) return coefficients[0];
+  if (freq >= bands[bands.length - 1]) return coefficients[coefficients.length - 1];
+
+  let upper = 1;
+  while (bands[upper] < freq) upper++;
+  const t = Math.log(freq / bands[upper - 1]) / Math.log(bands[upper] / bands[upper - 1]);
+  return coefficients[upper - 1] + (coefficients[upper] - coefficients[upper - 1]) * t;
+}
+
+/**
+ * Porous absorber (mineral wool, foam) of the given thickness on a rigid wall,
+ * optionally spaced off the wall by an air gap. Uses Miki's model for the
+ * characteristic impedance and wavenumber of the porous layer.
+ */
+export function createPorousAbsorber(options: {
+  thicknessCm: number;
+  airGapCm?: number;
+  flowResistivity?: number; // Pa·s/m², ~5000-20000 for typical panels
+}): AbsorptionSpectrum {
+  const { thicknessCm, airGapCm = 0, flowResistivity = 10000 } = options;
+  const thickness = thicknessCm / 100;
+  const airGap = airGapCm / 100;
+
+  return sampleSpectrum(freq => {
+    const k0 = (2 * Math.PI * freq) / SPEED_OF_SOUND;
+    const x = freq / flowResistivity;
+    const zTerm = x ** -0.632;
+    const kTerm = x ** -0.618;
+    const zc: Complex = { re: 1 + 0.0699 * zTerm, im: -0.107 * zTerm };
+    const kc: Complex = { re: k0 * (1 + 0.109 * kTerm), im: -k0 * 0.160 * kTerm };
+    const tanLayer = cTan({ re: kc.re * thickness, im: kc.im * thickness });
+
+    let surface: Complex;
+    if (airGap > 0) {
+      // Air gap behind the layer: z_b = -j·cot(k0·D)
+      const backing: Complex = { re: 0, im: -1 / Math.tan(k0 * airGap) };
+      surface = cDiv(
+        cMul(zc, cAdd(backing, cMul(J, cMul(zc, tanLayer)))),
+        cAdd(zc, cMul(J, cMul(backing, tanLayer)))
+      );
+    } else {
+      // Rigid backing: z_s = -j·z_c·cot(k_c·d)
+      surface = cDiv(zc, cMul(J, tanLayer));
+    }
+    return absorptionFromImpedance(surface);
+  });
+}
+
+/**
+ * Resonant absorber around f0. The lossless mass-spring model is far sharper
+ * than real traps, which the damping material broadens to roughly an octave,
+ * so the absorption follows a resonance curve with the given peak and Q.
+ */
+function resonantAbsorption(freq: number, resonance: number, peakAbsorption: number, q: number): number {
+  const detuning = freq / resonance - resonance / freq;
+  return peakAbsorption / (1 + q ** 2 * detuning ** 2);
+}
+
+/** Resonance of a mass per unit area on an air cavity: f0 = (1/2π)·√(ρc² / (m·d)) */
+const massSpringResonance = (massPerArea: number, cavityDepth: number) =>
+  Math.sqrt((AIR_DENSITY * SPEED_OF_SOUND ** 2) / (massPerArea * cavityDepth)) / (2 * Math.PI);
+
+/**
+ * Membrane (panel) bass trap: resonance near 60 / √(m·d) Hz.
+ */
+export function createMembraneAbsorber(options: {
+  surfaceMass: number;     // kg/m² of the membrane
+  cavityDepthCm: number;
+  peakAbsorption?: number;
+  q?: number;              // Lower with more damping material in the cavity
+}): AbsorptionSpectrum {
+  const { surfaceMass, cavityDepthCm, peakAbsorption = 0.7, q = 2 } = options;
+  const resonance = massSpringResonance(surfaceMass, cavityDepthCm / 100);
+  return sampleSpectrum(freq => resonantAbsorption(freq, resonance, peakAbsorption, q));
+}
+
+/**
+ * Perforated-panel Helmholtz resonator. The air in the holes acts as the mass
+ * (ρ·t' / open area with end correction t' = t + 1.6·a) on the cavity spring.
+ */
+export function createHelmholtzAbsorber(options: {
+  openArea: number;        // Fraction of the panel that is open, e.g. 0.01
+  panelThicknessMm: number;
+  holeDiameterMm: number;
+  cavityDepthCm: number;
+  peakAbsorption?: number;
+  q?: number;
+}): AbsorptionSpectrum {
+  const { openArea, panelThicknessMm, holeDiameterMm, cavityDepthCm, peakAbsorption = 0.8, q = 2.5 } = options;
+  const effectiveNeck = panelThicknessMm / 1000 + 1.6 * (holeDiameterMm / 2000);
+  const massPerArea = (AIR_DENSITY * effectiveNeck) / Math.max(1e-4, openArea);
+  const resonance = massSpringResonance(massPerArea, cavityDepthCm / 100);
+  return sampleSpectrum(freq => resonantAbsorption(freq, resonance, peakAbsorption, q));
+}
+
+const octaveTable = (coefficients: number[]): AbsorptionSpectrum => ({
+  bands: OCTAVE_BAND_CENTERS.slice(1),
+  coefficients,
+});
+
+export const MATERIAL_LIBRARY: AcousticMaterial[] = [
+  { id: 'concrete', name: 'Concrete / Masonry', category: 'surface', spectrum: octaveTable([0.01, 0.01, 0.01, 0.02, 0.02, 0.02, 0.03]) },
+  { id: 'drywall', name: 'Drywall on Studs', category: 'surface', spectrum: createMembraneAbsorber({ surfaceMass: 10, cavityDepthCm: 9, peakAbsorption: 0.3, q: 1.5 }) },
+  { id: 'wood-floor', name: 'Wood Floor on Joists', category: 'surface', spectrum: octaveTable([0.15, 0.15, 0.11, 0.10, 0.07, 0.06, 0.07]) },
+  { id: 'glass', name: 'Large Glass Pane', category: 'surface', spectrum: octaveTable([0.35, 0.35, 0.25, 0.18, 0.12, 0.07, 0.04]) },
+  { id: 'carpet', name: 'Carpet on Concrete', category: 'surface', spectrum: octaveTable([0.02, 0.02, 0.06, 0.14, 0.37, 0.60, 0.65]) },
+  { id: 'porous-5', name: 'Porous Panel 5 cm', category: 'porous', spectrum: createPorousAbsorber({ thicknessCm: 5 }) },
+  { id: 'porous-10', name: 'Porous Panel 10 cm', category: 'porous', spectrum: createPorousAbsorber({ thicknessCm: 10 }) },
+  { id: 'porous-10-gap', name: 'Porous Panel 10 cm + 10 cm Gap', category: 'porous', spectrum: createPorousAbsorber({ thicknessCm: 10, airGapCm: 10 }) },
+  { id: 'porous-20', name: 'Porous Panel 20 cm', category: 'porous', spectrum: createPorousAbsorber({ thicknessCm: 20 }) },
+  { id: 'membrane-40', name: 'Membrane Trap (~40 Hz)', category: 'membrane', spectrum: createMembraneAbsorber({ surfaceMass: 15, cavityDepthCm: 15 }) },
+  { id: 'membrane-60', name: 'Membrane Trap (~60 Hz)', category: 'membrane', spectrum: createMembraneAbsorber({ surfaceMass: 10, cavityDepthCm: 10 }) },
+  { id: 'helmholtz-85', name: 'Helmholtz Resonator (~85 Hz)', category: 'helmholtz', spectrum: createHelmholtzAbsorber({ openArea: 0.005, panelThicknessMm: 6, holeDiameterMm: 5, cavityDepthCm: 20 }) },
+];
+
+export function getMaterial(id: string): AcousticMaterial | undefined {
+  return MATERIAL_LIBRARY.find(material => material.id === id);
+}
@@ -0,0 +1,134 @@
+/* Bass traps placed in the room: wall panels and corner traps as absorbers for the modal solver */
+import { AbsorberPatch, Point, RoomDimensions, RoomSurface } from './roomModeCalculations';
+import { getMaterial } from './acousticMaterials';
+
+export type BassTrapKind = 'panel' | 'corner';
+
+// Vertical room corners, named by the walls that meet there
+export type RoomCorner = 'front-left' | 'front-right' | 'back-left' | 'back-right';
+
+export interface BassTrap {
+  id: string;
+  kind: BassTrapKind;
+  surface: RoomSurface; // Panel: surface it is mounted on (unused for corner traps)
+  corner: RoomCorner;   // Corner trap: corner it stands in (unused for panels)
+  position: Point;      // Centre of the trap; snapped onto its surface or corner by constrainBassTrap
+  width: number;        // m, horizontal extent along the wall, or across the corner
+  height: number;       // m, vertical extent (along y for ceiling/floor panels)
+  materialId: string;   // Absorption spectrum from the material library
+}
+
+const SAMPLES_PER_SIDE = 3;
+
+// Corner coordinates, same wall convention as SurfaceAbsorptions
+const cornerPoint = (corner: RoomCorner, room: RoomDimensions) => ({
+  x: corner.endsWith('left') ? 0 : room.L,
+  y: corner.startsWith('front') ? 0 : room.W,
+});
+
+/**
+ * In-plane axes of a surface: the room coordinates a panel spans with its
+ * width and height, and the coordinate fixed by the surface itself.
+ */
+export function surfaceAxes(surface: RoomSurface): { widthAxis: keyof Point; heightAxis: keyof Point; normalAxis: keyof Point } {
+  switch (surface) {
+    case 'front':
+    case 'back':
+      return { widthAxis: 'x', heightAxis: 'z', normalAxis: 'y' };
+    case 'left':
+    case 'right':
+      return { widthAxis: 'y', heightAxis: 'z', normalAxis: 'x' };
+    default:
+      return { widthAxis: 'x', heightAxis: 'y', normalAxis: 'z' };
+  }
+}
+
+const surfaceCoordinate = (surface: RoomSurface, room: RoomDimensions): number => {
+  switch (surface) {
+    case 'front': return 0;
+    case 'back': return room.W;
+    case 'left': return 0;
+    case 'right': return room.L;
+    case 'floor': return 0;
+    default: return room.H;
+  }
+};
+
+const roomExtent = (axis: keyof Point, room: RoomDimensions) => (axis === 'x' ? room.L : axis === 'y' ? room.W : room.H);
+
+const clampCentre = (value: number, size: number, extent: number) =>
+  size >= extent ? extent / 2 : Math.max(size / 2, Math.min(extent - size / 2, value));
+
+/**
+ * Snap a trap onto its surface or corner and keep it inside the room.
+ */
+export function constrainBassTrap(trap: BassTrap, room: RoomDimensions): BassTrap {
+  if (trap.kind === 'corner') {
+    const height = Math.min(trap.height, room.H);
+    return {
+      ...trap,
+      height,
+      position: { ...cornerPoint(trap.corner, room), z: clampCentre(trap.position.z, height, room.H) },
+    };
+  }
+
+  const { widthAxis, heightAxis, normalAxis } = surfaceAxes(trap.surface);
+  const width = Math.min(trap.width, roomExtent(widthAxis, room));
+  const height = Math.min(trap.height, roomExtent(heightAxis, room));
+  const position = { ...trap.position };
+  position[normalAxis] = surfaceCoordinate(trap.surface, room);
+  position[widthAxis] = clampCentre(position[widthAxis], width, roomExtent(widthAxis, room));
+  position[heightAxis] = clampCentre(position[heightAxis], height, roomExtent(heightAxis, room));
+  return { ...trap, width, height, position };
+}
+
+/**
+ * Points on the absorbing face of a trap where the mode pressure is sampled.
+ * A corner trap's face is the chord across the corner, width/√2 out along both walls.
+ */
+function trapSamplePoints(trap: BassTrap, room: RoomDimensions): Point[] {
+  const points: Point[] = [];
+  const fractions = Array.from({ length: SAMPLES_PER_SIDE }, (_, i) => (i + 0.5) / SAMPLES_PER_SIDE - 0.5);
+
+  if (trap.kind === 'corner') {
+    const corner = cornerPoint(trap.corner, room);
+    const legLength = trap.width / Math.SQRT2;
+    const xDirection = corner.x === 0 ? 1 : -1;
+    const yDirection = corner.y === 0 ? 1 : -1;
+    fractions.forEach(across => {
+      // Position along the chord from the x-wall leg (t = 0) to the y-wall leg (t = 1)
+      const t = across + 0.5;
+      fractions.forEach(vertical => points.push({
+        x: corner.x + xDirection * legLength * (1 - t),
+        y: corner.y + yDirection * legLength * t,
+        z: trap.position.z + vertical * trap.height,
+      }));
+    });
+    return points;
+  }
+
+  const { widthAxis, heightAxis } = surfaceAxes(trap.surface);
+  fractions.forEach(across => fractions.forEach(vertical => {
+    const point = { ...trap.position };
+    point[widthAxis] += across * trap.width;
+    point[heightAxis] += vertical * trap.height;
+    points.push(point);
+  }));
+  return points;
+}
+
+/**
+ * Absorber patches for the modal damping model. Traps with an unknown material are skipped.
+ */
+export function createAbsorberPatches(traps: BassTrap[], room: RoomDimensions): AbsorberPatch[] {
+  return traps.flatMap(trap => {
+    const material = getMaterial(trap.materialId);
+    if (!material) return [];
+    const placed = constrainBassTrap(trap, room);
+    return [{
+      area: placed.width * placed.height,
+      points: trapSamplePoints(placed, room),
+      spectrum: material.spectrum,
+    }];
+  });
+}
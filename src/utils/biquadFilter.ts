@@ -0,0 +1,160 @@
+/* Digital biquad filters from the RBJ Audio EQ Cookbook, evaluated at a DSP sample rate */
+
+export type BiquadType = 'peak' | 'lowshelf' | 'highshelf' | 'highpass' | 'lowpass' | 'notch' | 'allpass';
+
+export const SAMPLE_RATES = [44100, 48000, 96000] as const;
+export const DEFAULT_SAMPLE_RATE = 48000;
+
+/** Coefficients normalized by a0: H(z) = (b0 + b1·z⁻¹ + b2·z⁻²) / (1 + a1·z⁻¹ + a2·z⁻²) */
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export interface BiquadResponse {
+  re: number;
+  im: number;
+}
+
+const MAX_NYQUIST_FRACTION = 0.49; // Keep the design frequency clear of Nyquist
+
+const UNITY: BiquadCoefficients = { b0: 1, b1: 0, b2: 0, a1: 0, a2: 0 };
+
+/**
+ * Design a biquad. `q` sets the bandwidth of peak/notch/allpass, the resonance
+ * of the passes and the shelf slope (Q = 1/√2 gives the cookbook's S = 1).
+ * `gainDb` only applies to the peak and the shelves.
+ */
+export function designBiquad(
+  type: BiquadType,
+  frequency: number,
+  q: number,
+  gainDb = 0,
+  sampleRate: number = DEFAULT_SAMPLE_RATE
+): BiquadCoefficients {
+  if (frequency <= 0 || q <= 0 || sampleRate <= 0) return UNITY;
+
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * MAX_NYQUIST_FRACTION)) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const A = 10 ** (gainDb / 40);
+
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+  switch (type) {
+    case 'peak':
+      b0 = 1 + alpha * A;
+      b1 = -2 * cosW0;
+      b2 = 1 - alpha * A;
+      a0 = 1 + alpha / A;
+      a1 = -2 * cosW0;
+      a2 = 1 - alpha / A;
+      break;
+    case 'lowshelf': {
+      const sqrtAlpha = 2 * Math.sqrt(A) * alpha;
+      b0 = A * ((A + 1) - (A - 1) * cosW0 + sqrtAlpha);
+      b1 = 2 * A * ((A - 1) - (A + 1) * cosW0);
+      b2 = A * ((A + 1) - (A - 1) * cosW0 - sqrtAlpha);
+      a0 = (A + 1) + (A - 1) * cosW0 + sqrtAlpha;
+      a1 = -2 * ((A - 1) + (A + 1) * cosW0);
+      a2 = (A + 1) + (A - 1) * cosW0 - sqrtAlpha;
+      break;
+    }
+    case 'highshelf': {
+      const sqrtAlpha = 2 * Math.sqrt(A) * alpha;
+      b0 = A * ((A + 1) + (A - 1) * cosW0 + sqrtAlpha);
+      b1 = -2 * A * ((A - 1) + (A + 1) * cosW0);
+      b2 = A * ((A + 1) + (A - 1) * cosW0 - sqrtAlpha);
+      a0 = (A + 1) - (A - 1) * cosW0 + sqrtAlpha;
+      a1 = 2 * ((A - 1) - (A + 1) * cosW0);
+      a2 = (A + 1) - (A - 1) * cosW0 - sqrtAlpha;
+      break;
+    }
+    case 'lowpass':
+      b0 = (1 - cosW0) / 2;
+      b1 = 1 - cosW0;
+      b2 = (1 - cosW0) / 2;
+      a0 = 1 + alpha;
+      a1 = -2 * cosW0;
+      a2 = 1 - alpha;
+      break;
+    case 'highpass':
+      b0 = (1 + cosW0) / 2;
+      b1 = -(1 + cosW0);
+      b2 = (1 + cosW0) / 2;
+      a0 = 1 + alpha;
+      a1 = -2 * cosW0;
+      a2 = 1 - alpha;
+      break;
+    case 'notch':
+      b0 = 1;
+      b1 = -2 * cosW0;
+      b2 = 1;
+      a0 = 1 + alpha;
+      a1 = -2 * cosW0;
+      a2 = 1 - alpha;
+      break;
+    case 'allpass':
+      b0 = 1 - alpha;
+      b1 = -2 * cosW0;
+      b2 = 1 + alpha;
+      a0 = 1 + alpha;
+      a1 = -2 * cosW0;
+      a2 = 1 - alpha;
+      break;
+  }
+
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+/**
+ * Complex response H(e^jω) of a biquad at a frequency, ω = 2π·f / fs.
+ */
+export function biquadComplexResponse(
+  coefficients: BiquadCoefficients,
+  freq: number,
+  sampleRate: number = DEFAULT_SAMPLE_RATE
+): BiquadResponse {
+  const { b0, b1, b2, a1, a2 } = coefficients;
+  const w = (2 * Math.PI * freq) / sampleRate;
+  const cos1 = Math.cos(w);
+  const sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w);
+  const sin2 = Math.sin(2 * w);
+
+  // z⁻¹ = e^(-jω)
+  const numRe = b0 + b1 * cos1 + b2 * cos2;
+  const numIm = -(b1 * sin1 + b2 * sin2);
+  const denRe = 1 + a1 * cos1 + a2 * cos2;
+  const denIm = -(a1 * sin1 + a2 * sin2);
+  const denMagSq = Math.max(1e-30, denRe * denRe + denIm * denIm);
+
+  return {
+    re: (numRe * denRe + numIm * denIm) / denMagSq,
+    im: (numIm * denRe - numRe * denIm) / denMagSq,
+  };
+}
+
+/** Magnitude of a biquad at a frequency in dB */
+export function biquadResponseDb(
+  coefficients: BiquadCoefficients,
+  freq: number,
+  sampleRate: number = DEFAULT_SAMPLE_RATE
+): number {
+  const { re, im } = biquadComplexResponse(coefficients, freq, sampleRate);
+  return 10 * Math.log10(Math.max(1e-20, re * re + im * im));
+}
+
+/** Product of a cascade of biquads at a frequency */
+export function cascadeComplexResponse(
+  sections: BiquadCoefficients[],
+  freq: number,
+  sampleRate: number = DEFAULT_SAMPLE_RATE
+): BiquadResponse {
+  return sections.reduce<BiquadResponse>((total, section) => {
+    const { re, im } = biquadComplexResponse(section, freq, sampleRate);
+    return { re: total.re * re - total.im * im, im: total.re * im + total.im * re };
+  }, { re: 1, im: 0 });
+}
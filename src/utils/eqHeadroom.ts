@@ -0,0 +1,210 @@
+/* Boost modes of the EQ generation and the headroom the resulting EQ needs */
+import {
+  EQBand,
+  EQSettings,
+  SpeakerMetadata,
+  calculateBandResponse,
+  settleReducedBoosts,
+} from './roomModeCalculations';
+import { DEFAULT_SAMPLE_RATE } from './biquadFilter';
+
+// Boosts up to maxBoost, no boost at all, or boosts within a total energy budget
+export type EQBoostMode = 'unrestricted' | 'cut-only' | 'boost-budget';
+
+export interface EQBoostSettings {
+  mode: EQBoostMode;
+  budgetDbOct: number; // Boost energy allowed in boost-budget mode
+}
+
+export const DEFAULT_BOOST_BUDGET_DB_OCT = 6;
+
+/** Excursion limit of the LF driver, derived from the vendor specs */
+export interface ExcursionLimit {
+  cornerHz: number;   // LF −3 dB point, the limit falls below it
+  headroomDb: number; // Boost allowed at and above the corner
+  source: string;     // Spec the corner was taken from
+}
+
+export interface ExcursionWarning {
+  freq: number;
+  boostDb: number;
+  limitDb: number;
+}
+
+export interface EQHeadroomAnalysis {
+  maxBoostDb: number;           // Largest positive gain of the summed EQ across frequency, 0 if it never boosts
+  maxBoostFreq: number | null;
+  preampDb: number;             // Digital attenuation ahead of the EQ so a full-scale signal cannot clip
+  boostEnergyDbOct: number;     // Area of the positive part of the EQ curve over log frequency
+  excursionWarning: ExcursionWarning | null; // Boost furthest beyond the excursion limit
+}
+
+// Summed EQ curve is evaluated on a log grid across the audio band
+const ANALYSIS_MIN_FREQUENCY = 10;
+const ANALYSIS_MAX_FREQUENCY = 20000;
+const ANALYSIS_POINTS_PER_OCTAVE = 48;
+const DEFAULT_EXCURSION_HEADROOM_DB = 6;
+const EXCURSION_SLOPE_DB_PER_OCTAVE = 12; // Cone excursion for constant output rises 12 dB/oct below the corner
+const EXCURSION_TOLERANCE_DB = 0.5;       // Filter skirts this far over the limit are not worth a warning
+const BUDGET_BISECTION_STEPS = 20;
+const CUT_ONLY_TOLERANCE_DB = 0.1;  // Summed curve may rise this far above 0 dB in cut-only mode
+const MAX_OVERSHOOT_STEPS = 50;
+const NON_RESONANT_Q = Math.SQRT1_2; // Passes do not peak and shelves do not overshoot at this Q (S = 1)
+const GAIN_TYPES: EQBand['type'][] = ['peak', 'shelf', 'lowshelf', 'highshelf'];
+
+const analysisFrequencies = (() => {
+  const octaves = Math.log2(ANALYSIS_MAX_FREQUENCY / ANALYSIS_MIN_FREQUENCY);
+  const count = Math.floor(octaves * ANALYSIS_POINTS_PER_OCTAVE) + 1;
+  return Array.from({ length: count }, (_, i) => ANALYSIS_MIN_FREQUENCY * 2 ** (i / ANALYSIS_POINTS_PER_OCTAVE));
+})();
+
+const eqCurve = (bands: EQBand[], sampleRate: number) =>
+  analysisFrequencies.map(freq => bands.reduce((sum, band) => sum + calculateBandResponse(freq, band, sampleRate), 0));
+
+const boostEnergy = (curve: number[]) =>
+  curve.reduce((sum, db) => sum + Math.max(0, db), 0) / ANALYSIS_POINTS_PER_OCTAVE;
+
+/**
+ * Excursion limit of the speaker's LF driver. The corner is the vendor's lower
+ * ±3 dB frequency (or the measured −3 dB point); the headroom above it is half the
+ * peak-to-continuous SPL reserve, the other half being left for transients.
+ * Null when the specs give no LF corner.
+ */
+export function excursionLimitFromSpecs(metadata: SpeakerMetadata | null | undefined): ExcursionLimit | null {
+  const specs = metadata?.vendor_specs;
+  const vendorCorner = specs?.frequency_response_plus_minus_3db_hz?.[0];
+  const cornerHz = vendorCorner ?? metadata?.lf_cutoff_minus_3db_hz;
+  if (!cornerHz || cornerHz <= 0) return null;
+
+  const reserveDb = specs?.max_spl_peak_db !== undefined && specs?.max_spl_continuous_db !== undefined
+    ? specs.max_spl_peak_db - specs.max_spl_continuous_db
+    : undefined;
+
+  return {
+    cornerHz,
+    headroomDb: reserveDb !== undefined && reserveDb > 0 ? reserveDb / 2 : DEFAULT_EXCURSION_HEADROOM_DB,
+    source: vendorCorner !== undefined ? 'vendor ±3 dB response' : 'measured −3 dB point',
+  };
+}
+
+/** Largest boost the driver takes at a frequency, 0 dB far below the corner */
+export function excursionLimitDb(limit: ExcursionLimit, freq: number): number {
+  return Math.max(0, limit.headroomDb - EXCURSION_SLOPE_DB_PER_OCTAVE * Math.max(0, Math.log2(limit.cornerHz / freq)));
+}
+
+/**
+ * Maximum positive gain of the summed EQ, the preamp attenuation it requires, its
+ * boost energy and, with an excursion limit, the worst boost beyond it.
+ */
+export function analyzeEQHeadroom(eqSettings: EQSettings, excursionLimit?: ExcursionLimit | null): EQHeadroomAnalysis {
+  const curve = eqSettings.enabled ? eqCurve(eqSettings.bands, eqSettings.sampleRate ?? DEFAULT_SAMPLE_RATE) : [];
+
+  let maxBoostDb = 0;
+  let maxBoostFreq: number | null = null;
+  let excursionWarning: ExcursionWarning | null = null;
+  curve.forEach((db, i) => {
+    const freq = analysisFrequencies[i];
+    if (db > maxBoostDb) {
+      maxBoostDb = db;
+      maxBoostFreq = freq;
+    }
+    if (!excursionLimit || db <= 0) return;
+    const limitDb = excursionLimitDb(excursionLimit, freq);
+    if (db > limitDb + EXCURSION_TOLERANCE_DB && (!excursionWarning || db - limitDb > excursionWarning.boostDb - excursionWarning.limitDb)) {
+      excursionWarning = { freq, boostDb: db, limitDb };
+    }
+  });
+
+  return {
+    maxBoostDb,
+    maxBoostFreq,
+    preampDb: -maxBoostDb,
+    boostEnergyDbOct: boostEnergy(curve),
+    excursionWarning,
+  };
+}
+
+/**
+ * Scale all boosting bands by one factor until the boost energy of the summed
+ * curve fits the budget; a budget of 0 removes every boost.
+ */
+export function limitBoostEnergy(bands: EQBand[], budgetDbOct: number, sampleRate: number = DEFAULT_SAMPLE_RATE): EQBand[] {
+  const scaled = (factor: number) => bands.map(band => (band.gain > 0 ? { ...band, gain: band.gain * factor } : band));
+  const energyAt = (factor: number) => boostEnergy(eqCurve(scaled(factor), sampleRate));
+
+  const initialEnergy = energyAt(1);
+  if (initialEnergy <= budgetDbOct) return bands;
+
+  let low = 0;
+  let high = 1;
+  if (budgetDbOct > 0) {
+    for (let step = 0; step < BUDGET_BISECTION_STEPS; step++) {
+      const mid = (low + high) / 2;
+      if (energyAt(mid) > budgetDbOct) high = mid;
+      else low = mid;
+    }
+  }
+
+  const limited = settleReducedBoosts(bands, scaled(low));
+  console.log(`🔋 Boost energy ${initialEnergy.toFixed(1)} → ${energyAt(low).toFixed(1)} dB·oct (budget ${budgetDbOct} dB·oct), boosts scaled by ${low.toFixed(2)}`);
+  return limited;
+}
+
+/**
+ * Remove what still lifts the summed curve above 0 dB once the boosts are gone:
+ * resonant passes and steep shelves overshoot next to their corner. The band adding
+ * most at the highest point gets a Q of 1/√2, or is dropped if that cannot help.
+ */
+function removeOvershoot(bands: EQBand[], sampleRate: number): EQBand[] {
+  let limited = bands;
+  let flattened = 0;
+
+  for (let step = 0; step < MAX_OVERSHOOT_STEPS; step++) {
+    const curve = eqCurve(limited, sampleRate);
+    const peakIndex = curve.reduce((best, db, i) => (db > curve[best] ? i : best), 0);
+    if (curve.length === 0 || curve[peakIndex] <= CUT_ONLY_TOLERANCE_DB) break;
+
+    const freq = analysisFrequencies[peakIndex];
+    let culprit = -1;
+    let culpritDb = 0;
+    limited.forEach((band, i) => {
+      const db = calculateBandResponse(freq, band, sampleRate);
+      if (db > culpritDb) {
+        culprit = i;
+        culpritDb = db;
+      }
+    });
+    if (culprit < 0) break; // Only reached by several bands together, none of them above 0 dB
+
+    const band = limited[culprit];
+    const canFlatten = band.type !== 'peak' && band.type !== 'notch' && band.type !== 'allpass' && band.q > NON_RESONANT_Q;
+    if (canFlatten) flattened++;
+    limited = canFlatten
+      ? limited.map((other, i) => (i === culprit ? { ...other, q: NON_RESONANT_Q } : other))
+      : limited.filter((_, i) => i !== culprit);
+  }
+
+  const removed = bands.length - limited.length;
+  if (flattened + removed > 0) console.log(`✂️ Cut-only: ${flattened} band(s) set to Q ${NON_RESONANT_Q.toFixed(2)}, ${removed} removed to keep the EQ at or below 0 dB`);
+  return limited;
+}
+
+/**
+ * Enforce a boost mode on generated EQ settings. Cut-only and budgeted EQs also
+ * lose the bands that ended up without gain; a cut-only EQ never rises above 0 dB.
+ */
+export function applyBoostMode(eqSettings: EQSettings, boost: EQBoostSettings): EQSettings {
+  if (boost.mode === 'unrestricted') return eqSettings;
+
+  const budget = boost.mode === 'cut-only' ? 0 : Math.max(0, boost.budgetDbOct);
+  const limited = limitBoostEnergy(eqSettings.bands, budget, eqSettings.sampleRate)
+    .filter(band => !GAIN_TYPES.includes(band.type) || Math.abs(band.gain) >= 0.1);
+  const bands = boost.mode === 'cut-only' ? removeOvershoot(limited, eqSettings.sampleRate ?? DEFAULT_SAMPLE_RATE) : limited;
+
+  return {
+    ...eqSettings,
+    bands,
+    enabled: bands.length > 0,
+    maxBoost: boost.mode === 'cut-only' ? 0 : eqSettings.maxBoost,
+  };
+}
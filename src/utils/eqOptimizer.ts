@@ -0,0 +1,296 @@
+/* Least-squares EQ optimizer: Levenberg-Marquardt fit of frequency, gain and Q of all bands jointly */
+import {
+  EQBand,
+  EQSettings,
+  ModeResponse,
+  SeatEQResponse,
+  analyzeSeatEQError,
+  calculateBandResponse,
+  combineSeatResponses,
+  eqCancelledError,
+  interpolateResponseDb,
+  limitBoostIntoLocalNulls,
+  toSeatResponses,
+} from './roomModeCalculations';
+import { DEFAULT_SAMPLE_RATE } from './biquadFilter';
+
+// Heuristic passes or the numerical fit, selectable in the EQ panel
+export type EQMethod = 'heuristic' | 'least-squares';
+
+export interface LeastSquaresEQOptions {
+  numBands?: number;
+  maxBoost?: number;
+  maxCut?: number;
+  minQ?: number;
+  maxQ?: number;
+  minFrequency?: number;   // Band centres and fitted points are limited to this range
+  maxFrequency?: number;
+  sampleRate?: number;
+  maxIterations?: number;
+  nullThresholdDb?: number; // Points this far below the target count as nulls
+  nullWeight?: number;      // Weight of nulls, so the fit does not pour boost into them
+}
+
+export interface LeastSquaresEQIteration {
+  iteration: number;
+  rmsError: number; // Weighted RMS error over the fitted range (dB)
+  lambda: number;   // Levenberg-Marquardt damping
+}
+
+export interface LeastSquaresEQResult {
+  eqSettings: EQSettings;
+  initialRmsError: number; // Of the uncorrected response, the seat-weighted mean with several seats
+  rmsError: number;        // After the EQ, comparable with the heuristic result
+  maxError: number;        // Largest error at any seat after the EQ
+  iterations: LeastSquaresEQIteration[];
+}
+
+// Parameters per band: log2 frequency, gain in dB, natural log of Q
+const PARAMS_PER_BAND = 3;
+const FINITE_DIFFERENCE_STEPS = [0.005, 0.02, 0.005];
+const MIN_BAND_SPACING_OCTAVES = 1 / 6; // Between initial band centres
+const MAX_LAMBDA_TRIES = 8;
+const INITIAL_Q = 4;
+const LIMIT_WEIGHT = 10; // Penalty on the summed curve beyond maxBoost / maxCut, e.g. stacked bands
+
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+interface FitContext {
+  freqs: number[];
+  residualBase: number[]; // Response minus target
+  weights: number[];      // Square roots of the point weights
+  sampleRate: number;
+  lower: number[];        // Box constraints of one band's parameters
+  upper: number[];
+  boostLimits: number[];  // Limits of the summed curve per point, 0 at single-seat nulls
+  maxCut: number;
+}
+
+const toBand = (params: number[], k: number): EQBand => ({
+  frequency: 2 ** params[k * PARAMS_PER_BAND],
+  gain: params[k * PARAMS_PER_BAND + 1],
+  q: Math.exp(params[k * PARAMS_PER_BAND + 2]),
+  type: 'peak',
+});
+
+const bandCurve = (context: FitContext, band: EQBand) =>
+  context.freqs.map(freq => calculateBandResponse(freq, band, context.sampleRate));
+
+// Parameters are laid out band after band, so the bounds repeat every PARAMS_PER_BAND
+const project = (context: FitContext, params: number[]) =>
+  params.map((value, i) => Math.min(context.upper[i % PARAMS_PER_BAND], Math.max(context.lower[i % PARAMS_PER_BAND], value)));
+
+const sumCurves = (curves: number[][], length: number) => {
+  const total = new Array(length).fill(0);
+  for (const curve of curves) curve.forEach((db, i) => { total[i] += db; });
+  return total;
+};
+
+/**
+ * Weighted residuals for a summed EQ curve: the fit error at every point,
+ * followed by the excess of the curve over the boost and cut limits.
+ */
+function residuals(context: FitContext, eqDb: number[]): number[] {
+  const fit = eqDb.map((db, i) => context.weights[i] * (context.residualBase[i] + db));
+  const limits = eqDb.map((db, i) => LIMIT_WEIGHT * (Math.max(0, db - context.boostLimits[i]) + Math.min(0, db + context.maxCut)));
+  return [...fit, ...limits];
+}
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+/**
+ * Solve the symmetric system A·x = b by Gaussian elimination with partial pivoting.
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const diagonal = m[col][col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / diagonal;
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / (m[row][row] || 1e-12);
+  }
+  return x;
+}
+
+/**
+ * Starting point: bands placed greedily on the largest remaining weighted error,
+ * each cancelling it with a moderate Q.
+ */
+function initialParameters(context: FitContext, numBands: number): number[] {
+  const error = [...context.residualBase];
+  const params: number[] = [];
+  const centres: number[] = [];
+
+  for (let k = 0; k < numBands; k++) {
+    let best = -1;
+    context.freqs.forEach((freq, i) => {
+      if (centres.some(centre => Math.abs(Math.log2(freq / centre)) < MIN_BAND_SPACING_OCTAVES)) return;
+      if (best < 0 || context.weights[i] * Math.abs(error[i]) > context.weights[best] * Math.abs(error[best])) best = i;
+    });
+    if (best < 0) break;
+
+    const freq = context.freqs[best];
+    const bandParams = project(context, [Math.log2(freq), -error[best], Math.log(INITIAL_Q)]);
+    params.push(...bandParams);
+    centres.push(freq);
+    bandCurve(context, toBand(bandParams, 0)).forEach((db, i) => { error[i] += db; });
+  }
+
+  return params;
+}
+
+/**
+ * Fit N peaking bands jointly to the target with Levenberg-Marquardt, keeping
+ * every parameter inside its box (projected steps). Nulls get a low weight so the
+ * fit does not spend its boost on them. With several weighted seats the fit runs on
+ * their combined response and the summed curve may not boost at single-seat nulls.
+ * The reported RMS error uses analyzeTargetError, the same measure as the heuristic passes.
+ * isCancelled is checked after every iteration.
+ */
+export async function optimizeEQLeastSquares(
+  response: ModeResponse[] | SeatEQResponse[],
+  target: ModeResponse[],
+  options: LeastSquaresEQOptions = {},
+  onIteration?: (iteration: LeastSquaresEQIteration, bands: EQBand[]) => void,
+  isCancelled?: () => boolean
+): Promise<LeastSquaresEQResult> {
+  const {
+    numBands = 10,
+    maxBoost = 6,
+    maxCut = 15,
+    minQ = 0.7,
+    maxQ = 10,
+    minFrequency = 20,
+    maxFrequency = 300,
+    sampleRate = DEFAULT_SAMPLE_RATE,
+    maxIterations = 100,
+    nullThresholdDb = 6,
+    nullWeight = 0.2,
+  } = options;
+
+  const seats = toSeatResponses(response);
+  const { response: combined, localNullFreqs } = combineSeatResponses(seats, target, nullThresholdDb);
+  const localNulls = new Set(localNullFreqs);
+
+  const points = combined
+    .filter(point => point.freq >= minFrequency && point.freq <= maxFrequency)
+    .map(point => ({ point, targetDb: interpolateResponseDb(target, point.freq) }))
+    .filter((entry): entry is { point: ModeResponse; targetDb: number } => entry.targetDb !== null);
+
+  const emptySettings: EQSettings = { bands: [], enabled: false, maxBoost, maxCut, smoothing: 0, sampleRate };
+  const initialError = analyzeSeatEQError(seats, target);
+  if (points.length === 0 || numBands <= 0) {
+    return { eqSettings: emptySettings, initialRmsError: initialError.rmsError, rmsError: initialError.rmsError, maxError: initialError.maxError, iterations: [] };
+  }
+
+  const context: FitContext = {
+    freqs: points.map(({ point }) => point.freq),
+    residualBase: points.map(({ point, targetDb }) => point.db - targetDb),
+    weights: points.map(({ point, targetDb }) => Math.sqrt(point.db - targetDb < -nullThresholdDb ? nullWeight : 1)),
+    sampleRate,
+    lower: [Math.log2(minFrequency), -maxCut, Math.log(minQ)],
+    upper: [Math.log2(maxFrequency), maxBoost, Math.log(maxQ)],
+    boostLimits: points.map(({ point }) => (localNulls.has(point.freq) ? 0 : maxBoost)),
+    maxCut,
+  };
+
+  let params = initialParameters(context, numBands);
+  const bandCount = params.length / PARAMS_PER_BAND;
+
+  const curvesFor = (values: number[]) => Array.from({ length: bandCount }, (_, k) => bandCurve(context, toBand(values, k)));
+  const pointCount = context.freqs.length;
+  let curves = curvesFor(params);
+  let eqDb = sumCurves(curves, pointCount);
+  let r = residuals(context, eqDb);
+  let cost = sumOfSquares(r);
+  let lambda = 1e-2;
+  const weightedRms = (values: number[]) => Math.sqrt(sumOfSquares(values.slice(0, pointCount)) / pointCount);
+  const iterations: LeastSquaresEQIteration[] = [];
+
+  console.log(`📐 Least-squares EQ: ${bandCount} bands on ${pointCount} points${seats.length > 1 ? ` for ${seats.length} seats` : ''}, start ${weightedRms(r).toFixed(2)}dB weighted RMS`);
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    // Jacobian by forward differences; a parameter only changes its own band's curve
+    const jacobian: number[][] = []; // One column per parameter
+    for (let p = 0; p < params.length; p++) {
+      const k = Math.floor(p / PARAMS_PER_BAND);
+      const step = FINITE_DIFFERENCE_STEPS[p % PARAMS_PER_BAND];
+      const shifted = [...params];
+      shifted[p] += step;
+      const curve = bandCurve(context, toBand(shifted, k));
+      const shiftedResiduals = residuals(context, eqDb.map((db, i) => db + curve[i] - curves[k][i]));
+      jacobian.push(shiftedResiduals.map((value, i) => (value - r[i]) / step));
+    }
+
+    // Normal equations: (JᵀJ + λ·diag(JᵀJ)) δ = -Jᵀr
+    const JtJ = jacobian.map(a => jacobian.map(b => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+    const Jtr = jacobian.map(column => column.reduce((sum, v, i) => sum + v * r[i], 0));
+
+    let accepted = false;
+    for (let attempt = 0; attempt < MAX_LAMBDA_TRIES; attempt++) {
+      const A = JtJ.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) + 1e-9 : v)));
+      const delta = solveLinearSystem(A, Jtr.map(v => -v));
+      const candidate = project(context, params.map((v, i) => v + delta[i]));
+      const candidateCurves = curvesFor(candidate);
+      const candidateEq = sumCurves(candidateCurves, pointCount);
+      const candidateResiduals = residuals(context, candidateEq);
+      const candidateCost = sumOfSquares(candidateResiduals);
+      if (candidateCost < cost) {
+        const improvement = (cost - candidateCost) / Math.max(cost, 1e-12);
+        params = candidate;
+        curves = candidateCurves;
+        eqDb = candidateEq;
+        r = candidateResiduals;
+        cost = candidateCost;
+        lambda = Math.max(1e-7, lambda / 3);
+        accepted = improvement > 1e-6;
+        break;
+      }
+      lambda *= 4;
+    }
+
+    const progress = { iteration, rmsError: weightedRms(r), lambda };
+    iterations.push(progress);
+    onIteration?.(progress, Array.from({ length: bandCount }, (_, k) => toBand(params, k)));
+    await yieldToUI();
+    if (isCancelled?.()) throw eqCancelledError();
+
+    if (!accepted) break; // Converged or stuck
+  }
+
+  const fitted = Array.from({ length: bandCount }, (_, k) => toBand(params, k))
+    .map(band => ({
+      ...band,
+      frequency: Math.round(band.frequency * 10) / 10,
+      gain: Math.round(band.gain * 10) / 10,
+      q: Math.round(band.q * 100) / 100,
+    }))
+    .filter(band => Math.abs(band.gain) >= 0.1)
+    .sort((a, b) => a.frequency - b.frequency);
+  // The fit only penalizes boost at single-seat nulls, the rounded bands must respect it exactly
+  const bands = limitBoostIntoLocalNulls(fitted, localNullFreqs, sampleRate);
+
+  const eqSettings: EQSettings = { ...emptySettings, bands, enabled: bands.length > 0 };
+  const finalError = analyzeSeatEQError(seats, target, eqSettings);
+  console.log(`✅ Least-squares EQ: ${bands.length} bands after ${iterations.length} iterations, RMS ${initialError.rmsError.toFixed(2)}dB → ${finalError.rmsError.toFixed(2)}dB`);
+
+  return {
+    eqSettings,
+    initialRmsError: initialError.rmsError,
+    rmsError: finalError.rmsError,
+    maxError: finalError.maxError,
+    iterations,
+  };
+}
@@ -0,0 +1,325 @@
+/* Finite-difference time-domain wave solver on a voxel grid: non-shoebox rooms and a cross-check of the mode sum */
+import {
+  ComplexResponsePoint,
+  ModalDamping,
+  ModeResponse,
+  Point,
+  RoomSurface,
+  SPEED_OF_SOUND,
+  SubwooferSource,
+  analyzeTargetError,
+  calculateComplexResponse,
+  complexToDb,
+} from './roomModeCalculations';
+import { absorptionAt } from './acousticMaterials';
+import { RoomGeometry, boundaryFaceSurface, geometryBounds, voxelCentre, voxelIndex, voxelizeRoom } from './roomGeometry';
+
+// Engine behind the room response: the analytical mode sum or the wave simulation
+export type ResponseEngine = 'modal' | 'fdtd-2d' | 'fdtd-3d';
+
+export interface FdtdOptions {
+  dimensions?: 2 | 3;           // 2D simulates the floor plan only (no vertical modes), much faster
+  damping?: ModalDamping;       // Boundary losses, same input as the modal model
+  minFrequency?: number;        // Output grid, matching the modal response
+  maxFrequency?: number;        // Also sets the grid spacing
+  frequencyStep?: number;
+  pointsPerWavelength?: number; // Grid cells per wavelength at maxFrequency
+  durationMs?: number;          // Simulated impulse response length
+  extraListeners?: Point[];     // Further seats recorded in the same run
+  signal?: AbortSignal;         // Abort stops the run at its next progress update
+}
+
+export interface FdtdResult {
+  response: ComplexResponsePoint[];
+  extraResponses: ComplexResponsePoint[][]; // Same order as extraListeners, at the same level as the primary seat
+  impulseResponse: number[]; // Pressure at the listener per time step, band-limited by the source pulse
+  dimensions: 2 | 3;
+  gridSpacing: number; // m
+  airCells: number;
+  sampleRate: number;  // Hz, time steps per second
+  steps: number;
+}
+
+/**
+ * Deviation of the simulation from the mode sum for the same room: shape error
+ * with the level offset removed, and the lowest resonance peaks of both.
+ */
+export interface FdtdCrossCheck {
+  rmsDeviationDb: number;
+  modalPeaks: number[]; // Hz
+  fdtdPeaks: number[];  // Hz
+}
+
+const CROSS_CHECK_MAX_HZ = 150;
+const CROSS_CHECK_PEAKS = 6;
+// Absorption coefficients are frequency dependent, the boundaries here are not: use the ~63 Hz octave
+const REFERENCE_FREQUENCY_HZ = 63;
+
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/** Ricker wavelet: zero mean, so the room's zero-frequency mode is not left pressurised */
+const ricker = (t: number, sigma: number) => {
+  const u = (t / sigma) ** 2;
+  return (1 - u) * Math.exp(-u / 2);
+};
+
+/**
+ * Normal-incidence admittance β of each surface. A single Q becomes a uniform
+ * absorption with the same Sabine decay at the reference frequency
+ * (T60 = 13.8 · mean free path / (c · α)).
+ */
+function surfaceAdmittances(damping: ModalDamping, meanFreePath: number): Record<RoomSurface, number> {
+  const surfaces: RoomSurface[] = ['front', 'back', 'left', 'right', 'ceiling', 'floor'];
+  let alphaOf: (surface: RoomSurface) => number;
+
+  if (typeof damping === 'number') {
+    const t60 = (2.2 * damping) / REFERENCE_FREQUENCY_HZ;
+    const alpha = (13.8 * meanFreePath) / (SPEED_OF_SOUND * t60);
+    alphaOf = () => alpha;
+  } else {
+    const qMultiplier = damping.qMultiplier ?? 1;
+    alphaOf = surface => {
+      const spectrum = damping.absorptionSpectra?.[surface];
+      const alpha = spectrum ? absorptionAt(spectrum, REFERENCE_FREQUENCY_HZ) : damping.absorption[surface];
+      return alpha / qMultiplier;
+    };
+  }
+
+  const admittances = {} as Record<RoomSurface, number>;
+  surfaces.forEach(surface => {
+    const reflection = Math.sqrt(1 - Math.min(0.99, Math.max(0.001, alphaOf(surface))));
+    admittances[surface] = (1 - reflection) / (1 + reflection);
+  });
+  return admittances;
+}
+
+/**
+ * Simulate the room with the standard rectilinear FDTD scheme and return the complex
+ * pressure at the listener (and any extra seats) on the same frequency grid as the modal model.
+ * In 2D the floor plan is simulated as a single layer: heights and the ceiling are ignored.
+ *
+ * Walls are locally reacting with a frequency-independent admittance per surface;
+ * bass-trap absorbers and surface impedances are not included. Unlike the mode sum,
+ * the result includes the sealed room's pressure gain below the first mode. The level
+ * is matched to the modal model of the bounding box so both can be shown on the same chart.
+ * Rejects with an AbortError once the signal is aborted.
+ */
+export async function simulateFdtdResponse(
+  geometry: RoomGeometry,
+  sources: SubwooferSource[],
+  listener: Point,
+  options: FdtdOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): Promise<FdtdResult> {
+  const {
+    dimensions = 3,
+    damping = 10,
+    minFrequency = 20,
+    maxFrequency = 300,
+    frequencyStep = 1,
+    pointsPerWavelength = 6,
+    durationMs = 1500,
+    extraListeners = [],
+    signal,
+  } = options;
+
+  const spacing = SPEED_OF_SOUND / (maxFrequency * pointsPerWavelength);
+  // 2D: one layer of cells between solid borders, whose (zero) pressure drops out of the stencil
+  const grid = voxelizeRoom(dimensions === 2 ? { floorPlan: geometry.floorPlan, height: spacing } : geometry, spacing);
+  const { nx, ny, nz, air } = grid;
+  // Courant number of the standard rectilinear scheme at its stability limit
+  const courant = 1 / Math.sqrt(dimensions);
+  const dt = (courant * spacing) / SPEED_OF_SOUND;
+  const steps = Math.ceil(durationMs / 1000 / dt);
+  const lambda2 = courant ** 2;
+
+  const airIndices: number[] = [];
+  for (let index = 0; index < air.length; index++) if (air[index]) airIndices.push(index);
+  const cells = Int32Array.from(airIndices);
+
+  // Boundary faces per cell, for the admittances and the room's surface area
+  const neighbours: Array<[number, number, number]> = [[-1, 0, 0], [1, 0, 0], [0, -1, 0], [0, 1, 0], [0, 0, -1], [0, 0, 1]]
+    .slice(0, 2 * dimensions) as Array<[number, number, number]>;
+  const missingFaces: RoomSurface[][] = [];
+  let boundaryFaceCount = 0;
+  cells.forEach(index => {
+    const i = index % nx;
+    const j = Math.floor(index / nx) % ny;
+    const k = Math.floor(index / (nx * ny));
+    const faces: RoomSurface[] = [];
+    neighbours.forEach(([di, dj, dk]) => {
+      if (!air[voxelIndex(grid, i + di, j + dj, k + dk)]) faces.push(boundaryFaceSurface(grid, i, j, di, dj, dk));
+    });
+    boundaryFaceCount += faces.length;
+    missingFaces.push(faces);
+  });
+
+  // Mean free path 4V/S in 3D, πA/P in 2D
+  const boundaryFaces = Math.max(1, boundaryFaceCount);
+  const meanFreePath = dimensions === 3
+    ? (4 * cells.length * spacing) / boundaryFaces
+    : (Math.PI * cells.length * spacing) / boundaryFaces;
+  const admittances = surfaceAdmittances(damping, meanFreePath);
+
+  // Update coefficients: p⁺ = a·p + d·Σneighbours + c·p⁻, with the lossy boundary
+  // terms of Kowalczyk & van Walstijn for cells missing some of their six neighbours
+  const coefA = new Float64Array(cells.length);
+  const coefC = new Float64Array(cells.length);
+  const coefD = new Float64Array(cells.length);
+  missingFaces.forEach((faces, c) => {
+    const airNeighbours = 2 * dimensions - faces.length;
+    const loss = (courant * faces.reduce((sum, surface) => sum + admittances[surface], 0)) / 2;
+    coefA[c] = (2 - airNeighbours * lambda2) / (1 + loss);
+    coefC[c] = (loss - 1) / (1 + loss);
+    coefD[c] = lambda2 / (1 + loss);
+  });
+
+  // Sources and listener sit in the nearest air cell
+  const nearestCell = (point: Point): number => {
+    let best = cells[0];
+    let bestDistance = Infinity;
+    cells.forEach(index => {
+      const centre = voxelCentre(grid, index % nx, Math.floor(index / nx) % ny, Math.floor(index / (nx * ny)));
+      const distance = (centre.x - point.x) ** 2 + (centre.y - point.y) ** 2 + (dimensions === 3 ? (centre.z - point.z) ** 2 : 0);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    return best;
+  };
+  const listenerCell = nearestCell(listener);
+  const extraCells = extraListeners.map(nearestCell);
+  const sourceCells = sources.map(source => nearestCell(source.position));
+  const sourceGains = sources.map(source => source.polarity * 10 ** (source.gainDb / 20));
+
+  // Ricker pulse peaking mid-band; the deconvolution below removes its spectrum again
+  const sigma = Math.SQRT2 / (2 * Math.PI * Math.sqrt(minFrequency * maxFrequency) * 1.5);
+  const pulseStart = 5 * sigma;
+  const forcing = new Float64Array(steps);
+  const recorded = new Float64Array(steps);
+  const extraRecorded = extraCells.map(() => new Float64Array(steps));
+
+  console.log(`🧊 FDTD ${dimensions}D: ${cells.length} air cells (${nx}×${ny}×${nz}, ${(spacing * 100).toFixed(1)} cm), ${steps} steps`);
+  const startTime = performance.now();
+
+  let previous = new Float64Array(air.length);
+  let current = new Float64Array(air.length);
+  let next = new Float64Array(air.length);
+  const strideY = nx;
+  const strideZ = nx * ny;
+
+  for (let n = 0; n < steps - 1; n++) {
+    for (let c = 0; c < cells.length; c++) {
+      const index = cells[c];
+      const sum = current[index - 1] + current[index + 1]
+        + current[index - strideY] + current[index + strideY]
+        + current[index - strideZ] + current[index + strideZ];
+      next[index] = coefA[c] * current[index] + coefD[c] * sum + coefC[c] * previous[index];
+    }
+
+    // Soft sources: the value added to p at step n+1 drives the scheme at step n
+    const time = (n + 1) * dt - pulseStart;
+    forcing[n] = ricker(time, sigma);
+    sourceCells.forEach((cell, s) => {
+      next[cell] += sourceGains[s] * ricker(time - sources[s].delayMs / 1000, sigma);
+    });
+    recorded[n + 1] = next[listenerCell];
+    extraCells.forEach((cell, e) => { extraRecorded[e][n + 1] = next[cell]; });
+
+    const recycled = previous;
+    previous = current;
+    current = next;
+    next = recycled;
+
+    if (n % 200 === 199) {
+      if (signal?.aborted) throw new DOMException('FDTD simulation aborted', 'AbortError');
+      onProgress?.(n + 1, steps);
+      await yieldToUI();
+    }
+  }
+  if (signal?.aborted) throw new DOMException('FDTD simulation aborted', 'AbortError');
+  onProgress?.(steps, steps);
+
+  // Taper the last quarter so the truncated tail does not ripple the spectrum
+  const taperStart = Math.floor(steps * 0.75);
+  [recorded, ...extraRecorded].forEach(samples => {
+    for (let n = taperStart; n < steps; n++) {
+      samples[n] *= 0.5 * (1 + Math.cos((Math.PI * (n - taperStart)) / (steps - taperStart)));
+    }
+  });
+
+  // Transfer function Y(f) / F(f), evaluated directly at the output frequencies
+  const transferFunction = (samples: Float64Array): ComplexResponsePoint[] => {
+    const points: ComplexResponsePoint[] = [];
+    for (let f = minFrequency; f <= maxFrequency; f += frequencyStep) {
+      const stepCos = Math.cos(2 * Math.PI * f * dt);
+      const stepSin = -Math.sin(2 * Math.PI * f * dt);
+      let phaseRe = 1;
+      let phaseIm = 0;
+      let yRe = 0, yIm = 0, fRe = 0, fIm = 0;
+      for (let n = 0; n < steps; n++) {
+        yRe += samples[n] * phaseRe;
+        yIm += samples[n] * phaseIm;
+        fRe += forcing[n] * phaseRe;
+        fIm += forcing[n] * phaseIm;
+        const rotatedRe = phaseRe * stepCos - phaseIm * stepSin;
+        phaseIm = phaseRe * stepSin + phaseIm * stepCos;
+        phaseRe = rotatedRe;
+      }
+      const denominator = fRe ** 2 + fIm ** 2;
+      points.push({
+        freq: f,
+        re: (yRe * fRe + yIm * fIm) / denominator,
+        im: (yIm * fRe - yRe * fIm) / denominator,
+      });
+    }
+    return points;
+  };
+  const response = transferFunction(recorded);
+  const extraResponses = extraRecorded.map(transferFunction);
+
+  // Match the mean level of the modal model for the bounding box
+  const bounds = geometryBounds(geometry);
+  const reference = calculateComplexResponse(sources, listener, bounds.L, bounds.W, bounds.H, 10, damping)
+    .filter(point => point.freq >= minFrequency && point.freq <= maxFrequency);
+  const meanDb = (points: ComplexResponsePoint[]) =>
+    points.reduce((sum, point) => sum + complexToDb(point.re, point.im), 0) / Math.max(1, points.length);
+  const scale = 10 ** ((meanDb(reference) - meanDb(response)) / 20);
+  [response, ...extraResponses].forEach(points => points.forEach(point => {
+    point.re *= scale;
+    point.im *= scale;
+  }));
+
+  // Impulse response from the pulse centre on, at the same level
+  const pulseOffset = Math.max(0, Math.round(pulseStart / dt) - 1);
+  const impulseResponse = Array.from(recorded.subarray(pulseOffset), sample => sample * scale);
+
+  console.log(`✅ FDTD finished in ${(performance.now() - startTime).toFixed(0)} ms`);
+  return { response, extraResponses, impulseResponse, dimensions, gridSpacing: spacing, airCells: cells.length, sampleRate: 1 / dt, steps };
+}
+
+/** Frequencies of the lowest local maxima of a response, up to the given frequency */
+function findResponsePeaks(response: ModeResponse[], maxFrequency: number, count: number): number[] {
+  const peaks: number[] = [];
+  for (let i = 1; i < response.length - 1 && peaks.length < count; i++) {
+    const point = response[i];
+    if (point.freq > maxFrequency) break;
+    if (point.db > response[i - 1].db && point.db >= response[i + 1].db) peaks.push(point.freq);
+  }
+  return peaks;
+}
+
+/**
+ * Compare a simulation of a shoebox room with the mode sum for the same room and seat.
+ */
+export function crossCheckFdtd(result: FdtdResult, modalResponse: ModeResponse[]): FdtdCrossCheck {
+  const fdtdResponse = result.response.map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+  const band = (response: ModeResponse[]) => response.filter(point => point.freq <= CROSS_CHECK_MAX_HZ);
+  const { rmsError, avgError } = analyzeTargetError(band(fdtdResponse), band(modalResponse));
+  return {
+    rmsDeviationDb: Math.sqrt(Math.max(0, rmsError ** 2 - avgError ** 2)),
+    modalPeaks: findResponsePeaks(modalResponse, CROSS_CHECK_MAX_HZ, CROSS_CHECK_PEAKS),
+    fdtdPeaks: findResponsePeaks(fdtdResponse, CROSS_CHECK_MAX_HZ, CROSS_CHECK_PEAKS),
+  };
+}
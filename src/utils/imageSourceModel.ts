@@ -0,0 +1,268 @@
+/* Image-source model of the early reflections, blended with the modal model above the Schroeder frequency */
+import {
+  ComplexResponsePoint,
+  ModeResponse,
+  Point,
+  RoomDimensions,
+  RoomSurface,
+  SPEED_OF_SOUND,
+  SubwooferSource,
+  SurfaceAbsorptions,
+  complexToDb,
+  frequencyGridPoints,
+} from './roomModeCalculations';
+import { AbsorptionSpectrum, absorptionAt } from './acousticMaterials';
+
+const SURFACES: RoomSurface[] = ['front', 'back', 'left', 'right', 'ceiling', 'floor'];
+const REFLECTION_REFERENCE_HZ = 1000; // Level of the listed reflections
+const MIN_DISTANCE_M = 0.1;
+
+/**
+ * A mirrored copy of a source. `hits` counts the reflections off each surface
+ * on the path to the listener; order 0 is the direct sound.
+ */
+export interface ImageSource {
+  position: Point;
+  order: number;
+  hits: Record<RoomSurface, number>;
+}
+
+export interface ReflectionArrival {
+  sourceId: string;
+  order: number;
+  surfaces: RoomSurface[]; // Surfaces on the path, one entry per reflection (unordered)
+  delayMs: number;         // After the direct sound of the same source
+  levelDb: number;         // Relative to the direct sound at 1 kHz
+}
+
+export interface ImageSourceOptions {
+  maxOrder?: number;
+  absorption: SurfaceAbsorptions;
+  absorptionSpectra?: Partial<Record<RoomSurface, AbsorptionSpectrum>>;
+  directGain?: (freq: number) => number;     // Speaker response towards the listener, e.g. the on-axis curve
+  reflectionGain?: (freq: number) => number; // Response radiated towards the walls, e.g. the early-reflections curve
+  sourceFilter?: (freq: number) => { re: number; im: number }; // e.g. the crossover high-pass of the mains
+  minFrequency?: number;
+  maxFrequency?: number;
+  pointsPerOctave?: number;
+}
+
+export interface ReflectionResponse {
+  response: ComplexResponsePoint[]; // Log-spaced, minFrequency to maxFrequency
+  reflections: ReflectionArrival[]; // Strongest first
+  imageCount: number;
+}
+
+export interface FullRangeResponsePoint {
+  freq: number;
+  db: number;               // Blended response
+  modalDb: number | null;   // Modal model (level-matched), where it is computed
+  reflectionDb: number;     // Image-source model
+}
+
+/**
+ * Pressure reflection factor |R| = √(1 − α(f)) of a surface, from its spectrum or flat absorption.
+ */
+export function surfaceReflectionMagnitude(
+  surface: RoomSurface,
+  freq: number,
+  absorption: SurfaceAbsorptions,
+  absorptionSpectra: Partial<Record<RoomSurface, AbsorptionSpectrum>> = {}
+): number {
+  const spectrum = absorptionSpectra[surface];
+  const alpha = spectrum ? absorptionAt(spectrum, freq) : absorption[surface];
+  return Math.sqrt(1 - Math.min(0.99, Math.max(0, alpha)));
+}
+
+/**
+ * Image positions along one axis (Allen & Berkley): the source mirrored in the
+ * walls at 0 and at `length`, with the number of reflections off each wall.
+ */
+function axisImages(coordinate: number, length: number, maxOrder: number) {
+  const images: Array<{ position: number; lowHits: number; highHits: number }> = [];
+  for (let r = -maxOrder; r <= maxOrder; r++) {
+    for (let q = 0; q <= 1; q++) {
+      const lowHits = Math.abs(r - q);
+      const highHits = Math.abs(r);
+      if (lowHits + highHits > maxOrder) continue;
+      images.push({ position: (1 - 2 * q) * coordinate + 2 * r * length, lowHits, highHits });
+    }
+  }
+  return images;
+}
+
+/**
+ * All image sources of a shoebox room up to the given reflection order.
+ */
+export function computeImageSources(source: Point, room: RoomDimensions, maxOrder: number): ImageSource[] {
+  const xImages = axisImages(source.x, room.L, maxOrder);
+  const yImages = axisImages(source.y, room.W, maxOrder);
+  const zImages = axisImages(source.z, room.H, maxOrder);
+  const images: ImageSource[] = [];
+
+  xImages.forEach(x => yImages.forEach(y => zImages.forEach(z => {
+    const order = x.lowHits + x.highHits + y.lowHits + y.highHits + z.lowHits + z.highHits;
+    if (order > maxOrder) return;
+    images.push({
+      position: { x: x.position, y: y.position, z: z.position },
+      order,
+      hits: {
+        left: x.lowHits,
+        right: x.highHits,
+        front: y.lowHits,
+        back: y.highHits,
+        floor: z.lowHits,
+        ceiling: z.highHits,
+      },
+    });
+  })));
+  return images;
+}
+
+/** Log-spaced frequencies from min to max */
+export function logFrequencyGrid(minFrequency: number, maxFrequency: number, pointsPerOctave: number): number[] {
+  return frequencyGridPoints({ minFrequency, maxFrequency, spacing: 'log', pointsPerOctave });
+}
+
+/**
+ * Direct sound and reflections of the given sources at the listener. Surfaces reflect
+ * with |R| = √(1 − α(f)), without phase shift; each source keeps its gain, delay and polarity.
+ */
+export function calculateReflectionResponse(
+  sources: SubwooferSource[],
+  listener: Point,
+  room: RoomDimensions,
+  options: ImageSourceOptions
+): ReflectionResponse {
+  const {
+    maxOrder = 3,
+    absorption,
+    absorptionSpectra = {},
+    directGain = () => 1,
+    reflectionGain = directGain,
+    sourceFilter,
+    minFrequency = 20,
+    maxFrequency = 20000,
+    pointsPerOctave = 48,
+  } = options;
+  const startTime = performance.now();
+  const freqs = logFrequencyGrid(minFrequency, maxFrequency, pointsPerOctave);
+
+  // ln|R| per surface and frequency, so a path's reflection factor is exp(Σ hits · ln|R|)
+  const reflectionAt = (surface: RoomSurface, freq: number) =>
+    surfaceReflectionMagnitude(surface, freq, absorption, absorptionSpectra);
+  const logReflection = {} as Record<RoomSurface, Float64Array>;
+  SURFACES.forEach(surface => {
+    logReflection[surface] = Float64Array.from(freqs, freq => Math.log(reflectionAt(surface, freq)));
+  });
+  const directGains = freqs.map(directGain);
+  const reflectionGains = freqs.map(reflectionGain);
+
+  const totalRe = new Float64Array(freqs.length);
+  const totalIm = new Float64Array(freqs.length);
+  const reflections: ReflectionArrival[] = [];
+  let imageCount = 0;
+
+  sources.forEach(source => {
+    const sourceGain = source.polarity * 10 ** (source.gainDb / 20);
+    const images = computeImageSources(source.position, room, maxOrder);
+    imageCount += images.length;
+    const distanceOf = (image: ImageSource) => Math.max(MIN_DISTANCE_M, Math.hypot(
+      image.position.x - listener.x, image.position.y - listener.y, image.position.z - listener.z
+    ));
+    const directDistance = distanceOf(images.find(image => image.order === 0) ?? images[0]);
+    const referenceGainRatio = reflectionGain(REFLECTION_REFERENCE_HZ) / Math.max(1e-12, directGain(REFLECTION_REFERENCE_HZ));
+
+    images.forEach(image => {
+      const distance = distanceOf(image);
+      const delay = distance / SPEED_OF_SOUND + source.delayMs / 1000;
+      const gains = image.order === 0 ? directGains : reflectionGains;
+
+      for (let k = 0; k < freqs.length; k++) {
+        let logR = 0;
+        SURFACES.forEach(surface => {
+          if (image.hits[surface]) logR += image.hits[surface] * logReflection[surface][k];
+        });
+        const magnitude = (sourceGain * gains[k] * Math.exp(logR)) / distance;
+        const phase = -2 * Math.PI * freqs[k] * delay;
+        totalRe[k] += magnitude * Math.cos(phase);
+        totalIm[k] += magnitude * Math.sin(phase);
+      }
+
+      if (image.order > 0) {
+        const surfaces = SURFACES.flatMap(surface => Array<RoomSurface>(image.hits[surface]).fill(surface));
+        const reflectionFactor = surfaces.reduce((product, surface) => product * reflectionAt(surface, REFLECTION_REFERENCE_HZ), 1);
+        reflections.push({
+          sourceId: source.id,
+          order: image.order,
+          surfaces,
+          delayMs: ((distance - directDistance) / SPEED_OF_SOUND) * 1000,
+          levelDb: 20 * Math.log10(Math.max(1e-6, (reflectionFactor * referenceGainRatio * directDistance) / distance)),
+        });
+      }
+    });
+  });
+
+  const response = freqs.map((freq, k) => {
+    const filter = sourceFilter ? sourceFilter(freq) : { re: 1, im: 0 };
+    return {
+      freq,
+      re: totalRe[k] * filter.re - totalIm[k] * filter.im,
+      im: totalRe[k] * filter.im + totalIm[k] * filter.re,
+    };
+  });
+  reflections.sort((a, b) => b.levelDb - a.levelDb);
+
+  console.log(`🪞 Image sources: ${imageCount} images (order ≤ ${maxOrder}), ${freqs.length} frequencies in ${(performance.now() - startTime).toFixed(1)}ms`);
+  return { response, reflections, imageCount };
+}
+
+/**
+ * Blend the modal response (below) with the image-source response (above) around
+ * the Schroeder frequency. The crossover is an energy crossfade over one octave,
+ * kept inside the modal range, with the modal level matched to the reflections there.
+ */
+export function blendWithModalResponse(
+  modal: ModeResponse[],
+  reflection: ComplexResponsePoint[],
+  schroederFrequency: number
+): FullRangeResponsePoint[] {
+  const modalMax = modal.length > 0 ? modal[modal.length - 1].freq : 0;
+  const upper = Math.min(schroederFrequency * Math.SQRT2, modalMax);
+  const lower = Math.min(schroederFrequency / Math.SQRT2, upper / 2);
+
+  const modalDbAt = (freq: number): number | null => {
+    if (modal.length === 0 || freq < modal[0].freq || freq > modalMax) return null;
+    const upperIndex = Math.max(1, modal.findIndex(point => point.freq >= freq));
+    const a = modal[upperIndex - 1];
+    const b = modal[upperIndex];
+    const t = b.freq === a.freq ? 0 : (freq - a.freq) / (b.freq - a.freq);
+    return a.db + (b.db - a.db) * t;
+  };
+
+  const points = reflection.map(point => ({
+    freq: point.freq,
+    reflectionDb: complexToDb(point.re, point.im),
+    modalDb: modalDbAt(point.freq),
+  }));
+
+  // Level match in the crossfade band
+  const band = points.filter(point => point.modalDb !== null && point.freq >= lower && point.freq <= upper);
+  const offset = band.length > 0
+    ? band.reduce((sum, point) => sum + point.reflectionDb - (point.modalDb as number), 0) / band.length
+    : 0;
+
+  return points.map(point => {
+    const modalDb = point.modalDb === null ? null : point.modalDb + offset;
+    const t = Math.min(1, Math.max(0, Math.log(point.freq / lower) / Math.log(upper / lower)));
+    const reflectionWeight = modalDb === null ? 1 : t * t * (3 - 2 * t);
+    const energy = (1 - reflectionWeight) * (modalDb === null ? 0 : 10 ** (modalDb / 10))
+      + reflectionWeight * 10 ** (point.reflectionDb / 10);
+    return {
+      freq: point.freq,
+      db: 10 * Math.log10(Math.max(1e-20, energy)),
+      modalDb,
+      reflectionDb: point.reflectionDb,
+    };
+  });
+}
@@ -0,0 +1,331 @@
+/* Bounded LRU caches keyed on a stable hash, with statistics and optional IndexedDB persistence */
+
+export interface LRUCacheStats {
+  name: string;
+  entries: number;
+  bytes: number;     // Estimated memory held by the entries
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  persisted: number; // Entries written to IndexedDB this session
+  restored: number;  // Entries loaded from IndexedDB this session
+}
+
+export interface LRUCacheOptions<V> {
+  name: string;                   // Also the IndexedDB partition when persistent
+  maxBytes: number;               // Memory budget (changed with resize), least recently used entries are evicted beyond it
+  sizeOf?: (value: V) => number;  // Defaults to estimateSize
+  persistent?: boolean;           // Restore entries stored with { persist: true } from earlier sessions
+  version?: number;               // Version of the cached computation, default 1: persisted entries of other versions are dropped
+  maxPersistedEntries?: number;   // Most recent entries kept in IndexedDB, default 20
+}
+
+export interface LRUCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V, options?: { persist?: boolean }): void;
+  delete(key: string): void;
+  keys(): string[]; // Least recently used first
+  clear(options?: { persisted?: boolean }): void; // Memory only unless persisted is set
+  resize(maxBytes: number): void;
+  stats(): LRUCacheStats;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  bytes: number;
+}
+
+interface PersistedRecord {
+  id: string;     // `${cache}:${key}`
+  cache: string;  // `${name}@v${version}`
+  key: string;
+  value: unknown;
+  savedAt: number;
+}
+
+const DB_NAME = 'room-calculator-cache';
+const DB_VERSION = 1; // Schema of the object store; the cached computations carry their own version
+const STORE_NAME = 'entries';
+const SAVED_AT_INDEX = 'cacheSavedAt';
+const DEFAULT_MAX_PERSISTED_ENTRIES = 20;
+
+const registry = new Map<string, LRUCache<unknown>>();
+
+/**
+ * Canonical serialization with sorted object keys, so equal values always give
+ * the same text regardless of property order. -0 is folded into 0.
+ */
+function canonicalize(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') return Object.is(value, -0) ? '0' : String(value);
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (ArrayBuffer.isView(value)) return `[${Array.from(value as unknown as ArrayLike<number>).map(canonicalize).join(',')}]`;
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined && typeof record[key] !== 'function')
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`)
+    .join(',')}}`;
+}
+
+/**
+ * 64-bit hash (two 32-bit FNV-1a style lanes) of the canonical form of a value,
+ * as 16 hex digits. Stable across sessions, so it also keys persisted entries.
+ */
+export function stableHash(value: unknown): string {
+  const text = canonicalize(value);
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+    h2 ^= h2 >>> 15;
+  }
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 0x85ebca6b);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 16), 0xc2b2ae35);
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Rough memory footprint of a value in bytes (V8-like: 8 bytes per number,
+ * 2 per character, a small header per object and array).
+ */
+export function estimateSize(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number' || typeof value === 'boolean') return 8;
+  if (typeof value === 'string') return 16 + value.length * 2;
+  if (ArrayBuffer.isView(value)) return 16 + value.byteLength;
+  if (Array.isArray(value)) return value.reduce<number>((sum, item) => sum + 8 + estimateSize(item), 16);
+  if (typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).reduce<number>((sum, item) => sum + 8 + estimateSize(item), 16);
+  }
+  return 0;
+}
+
+/* ---------- IndexedDB persistence ---------- */
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (databasePromise) return databasePromise;
+  if (typeof indexedDB === 'undefined') {
+    databasePromise = Promise.resolve(null);
+    return databasePromise;
+  }
+  databasePromise = new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex(SAVED_AT_INDEX, ['cache', 'savedAt']);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('⚠️ Cache persistence unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return databasePromise;
+}
+
+/** Stored entries of one cache, most recent first */
+async function loadPersisted(cache: string): Promise<PersistedRecord[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+  const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(SAVED_AT_INDEX);
+  const records = await requestToPromise(index.getAll(IDBKeyRange.bound([cache, 0], [cache, Infinity])));
+  return (records as PersistedRecord[]).reverse();
+}
+
+/** Store an entry and drop the oldest ones of the same cache beyond maxEntries */
+async function savePersisted(cache: string, key: string, value: unknown, maxEntries: number): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.put({ id: `${cache}:${key}`, cache, key, value, savedAt: Date.now() } satisfies PersistedRecord);
+
+  let kept = 0;
+  const cursorRequest = store.index(SAVED_AT_INDEX).openCursor(IDBKeyRange.bound([cache, 0], [cache, Infinity]), 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (++kept > maxEntries) cursor.delete();
+    cursor.continue();
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/** Delete the entries a cache stored under other versions (or before it had one) */
+async function dropOtherVersions(name: string, partition: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+  let dropped = 0;
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { cache } = cursor.value as PersistedRecord;
+    if (cache !== partition && (cache === name || cache.startsWith(`${name}@`))) {
+      cursor.delete();
+      dropped++;
+    }
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  if (dropped > 0) console.log(`🧹 Dropped ${dropped} ${name} cache entries of an older version`);
+}
+
+async function clearPersisted(cache: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const cursorRequest = transaction.objectStore(STORE_NAME).index(SAVED_AT_INDEX)
+    .openCursor(IDBKeyRange.bound([cache, 0], [cache, Infinity]));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/* ---------- LRU cache ---------- */
+
+/**
+ * Create a cache that evicts the least recently used entries once the estimated
+ * size of its entries exceeds maxBytes. Persistent caches write entries set with
+ * { persist: true } to IndexedDB and restore them in the background on creation;
+ * only entries written under the same version are restored.
+ */
+export function createLRUCache<V>(options: LRUCacheOptions<V>): LRUCache<V> {
+  const {
+    name,
+    sizeOf = estimateSize,
+    persistent = false,
+    version = 1,
+    maxPersistedEntries = DEFAULT_MAX_PERSISTED_ENTRIES,
+  } = options;
+  let maxBytes = options.maxBytes;
+  const partition = `${name}@v${version}`;
+
+  // Map iteration order is insertion order: the first entry is the least recently used
+  const entries = new Map<string, CacheEntry<V>>();
+  const counters = { bytes: 0, hits: 0, misses: 0, evictions: 0, persisted: 0, restored: 0 };
+
+  const evictToBudget = () => {
+    for (const [key, entry] of entries) {
+      if (counters.bytes <= maxBytes) break;
+      entries.delete(key);
+      counters.bytes -= entry.bytes;
+      counters.evictions++;
+    }
+  };
+
+  const store = (key: string, value: V) => {
+    const bytes = sizeOf(value) + key.length * 2;
+    if (bytes > maxBytes) return false; // Would evict everything else
+    const previous = entries.get(key);
+    if (previous) {
+      entries.delete(key);
+      counters.bytes -= previous.bytes;
+    }
+    entries.set(key, { value, bytes });
+    counters.bytes += bytes;
+    evictToBudget();
+    return true;
+  };
+
+  const cache: LRUCache<V> = {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        counters.misses++;
+        return undefined;
+      }
+      // Move to the most recently used end
+      entries.delete(key);
+      entries.set(key, entry);
+      counters.hits++;
+      return entry.value;
+    },
+
+    set(key, value, { persist = false } = {}) {
+      if (!store(key, value) || !persist || !persistent) return;
+      counters.persisted++;
+      savePersisted(partition, key, value, maxPersistedEntries).catch(error =>
+        console.warn(`⚠️ Could not persist ${name} cache entry:`, error)
+      );
+    },
+
+    delete(key) {
+      const entry = entries.get(key);
+      if (!entry) return;
+      entries.delete(key);
+      counters.bytes -= entry.bytes;
+    },
+
+    keys() {
+      return Array.from(entries.keys());
+    },
+
+    clear({ persisted = false } = {}) {
+      entries.clear();
+      counters.bytes = 0;
+      if (persisted && persistent) {
+        clearPersisted(partition).catch(error => console.warn(`⚠️ Could not clear persisted ${name} cache:`, error));
+      }
+    },
+
+    resize(bytes) {
+      maxBytes = Math.max(0, bytes);
+      evictToBudget();
+    },
+
+    stats() {
+      const { bytes, hits, misses, evictions, persisted, restored } = counters;
+      return { name, entries: entries.size, bytes, maxBytes, hits, misses, evictions, persisted, restored };
+    },
+  };
+
+  if (persistent) {
+    dropOtherVersions(name, partition)
+      .then(() => loadPersisted(partition))
+      .then(records => {
+        // Oldest first so the most recent end up most recently used; never replace fresher entries
+        records.reverse().forEach(record => {
+          if (!entries.has(record.key) && store(record.key, record.value as V)) counters.restored++;
+        });
+        if (counters.restored > 0) console.log(`💽 Restored ${counters.restored} ${name} cache entries from earlier sessions`);
+      })
+      .catch(error => console.warn(`⚠️ Could not restore ${name} cache:`, error));
+  }
+
+  registry.set(name, cache as LRUCache<unknown>);
+  return cache;
+}
+
+/** Statistics of every cache created with createLRUCache */
+export function getAllCacheStats(): LRUCacheStats[] {
+  return Array.from(registry.values()).map(cache => cache.stats());
+}
@@ -0,0 +1,380 @@
+/* Multi-sub optimizer (MSO-style): per-sub gain, delay, polarity and shared EQ */
+import {
+  Point,
+  RoomDimensions,
+  SubwooferSource,
+  EQBand,
+  EQSettings,
+  ModalDamping,
+  DEFAULT_Q_FACTOR,
+  calculateComplexResponse,
+  calculateBandResponse,
+  getHarmanTargetDB,
+} from './roomModeCalculations';
+
+export interface MultiSubOptimizerOptions {
+  room: RoomDimensions;
+  listenerPositions: Point[];
+  maxModeOrder?: number;
+  baseQFactor?: ModalDamping;
+  minFrequency?: number;      // Lower bound of the optimization band (Hz)
+  maxFrequency?: number;      // Upper bound of the optimization band (Hz)
+  gainRangeDb?: [number, number];
+  maxDelayMs?: number;
+  numEQBands?: number;        // Shared EQ bands applied to all subs
+  maxBoost?: number;
+  maxCut?: number;
+  maxIterations?: number;
+  seatVariationWeight?: number;
+  targetDeviationWeight?: number;
+  bassRolloffFreq?: number;   // Passed through to getHarmanTargetDB
+  bassRolloffSlope?: number;
+}
+
+export interface MultiSubObjective {
+  objective: number;
+  seatVariation: number;   // RMS over frequency of the seat-to-seat standard deviation (dB)
+  targetDeviation: number; // RMS deviation of the spatial average from the Harman target shape (dB)
+}
+
+export interface MultiSubIteration extends MultiSubObjective {
+  iteration: number;
+  stage: 'alignment' | 'refinement' | 'eq';
+}
+
+export interface MultiSubOptimizationResult {
+  subwoofers: SubwooferSource[];
+  eqSettings: EQSettings;
+  initial: MultiSubObjective;
+  final: MultiSubObjective;
+  iterations: MultiSubIteration[];
+}
+
+// Complex transfer function of one sub (unit gain, no delay) at one seat
+interface TransferFunction {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+interface OptimizerContext {
+  freqs: number[];
+  transfers: TransferFunction[][]; // [sub][seat]
+  target: number[];
+  seatVariationWeight: number;
+  targetDeviationWeight: number;
+}
+
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const msoCancelledError = () => new DOMException('Multi-sub optimization cancelled', 'AbortError');
+
+/**
+ * Seat responses in dB for the given sub settings and shared EQ.
+ */
+function calculateSeatResponses(
+  context: OptimizerContext,
+  subwoofers: SubwooferSource[],
+  eqDb: number[]
+): number[][] {
+  const { freqs, transfers } = context;
+  const seatCount = transfers[0].length;
+  const seatResponses: number[][] = [];
+
+  for (let seat = 0; seat < seatCount; seat++) {
+    const response: number[] = [];
+    for (let i = 0; i < freqs.length; i++) {
+      let re = 0;
+      let im = 0;
+      for (let s = 0; s < subwoofers.length; s++) {
+        const sub = subwoofers[s];
+        const gain = sub.polarity * 10 ** (sub.gainDb / 20);
+        const phase = -2 * Math.PI * freqs[i] * (sub.delayMs / 1000);
+        const driveRe = gain * Math.cos(phase);
+        const driveIm = gain * Math.sin(phase);
+        const h = transfers[s][seat];
+        re += h.re[i] * driveRe - h.im[i] * driveIm;
+        im += h.re[i] * driveIm + h.im[i] * driveRe;
+      }
+      const magnitude = Math.sqrt(re * re + im * im);
+      response.push((magnitude > 1e-9 ? 20 * Math.log10(magnitude) : -100) + eqDb[i]);
+    }
+    seatResponses.push(response);
+  }
+
+  return seatResponses;
+}
+
+/**
+ * Objective: weighted sum of seat-to-seat variation and target deviation.
+ * The target is compared by shape only, since the modal model has no absolute level.
+ */
+function evaluateObjective(
+  context: OptimizerContext,
+  subwoofers: SubwooferSource[],
+  eqDb: number[]
+): MultiSubObjective {
+  const seatResponses = calculateSeatResponses(context, subwoofers, eqDb);
+  const seatCount = seatResponses.length;
+  const pointCount = context.freqs.length;
+
+  let varianceSum = 0;
+  const averageError: number[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    let mean = 0;
+    for (let seat = 0; seat < seatCount; seat++) mean += seatResponses[seat][i];
+    mean /= seatCount;
+
+    let variance = 0;
+    for (let seat = 0; seat < seatCount; seat++) variance += (seatResponses[seat][i] - mean) ** 2;
+    varianceSum += variance / seatCount;
+
+    averageError.push(mean - context.target[i]);
+  }
+
+  const meanError = averageError.reduce((sum, e) => sum + e, 0) / pointCount;
+  const targetDeviation = Math.sqrt(averageError.reduce((sum, e) => sum + (e - meanError) ** 2, 0) / pointCount);
+  const seatVariation = Math.sqrt(varianceSum / pointCount);
+
+  return {
+    objective: context.seatVariationWeight * seatVariation + context.targetDeviationWeight * targetDeviation,
+    seatVariation,
+    targetDeviation,
+  };
+}
+
+function calculateEQCurve(freqs: number[], bands: EQBand[]): number[] {
+  return freqs.map(freq => bands.reduce((sum, band) => sum + calculateBandResponse(freq, band), 0));
+}
+
+/**
+ * Spatially averaged deviation from the target (mean removed), used to place EQ bands.
+ */
+function calculateAverageDeviation(context: OptimizerContext, subwoofers: SubwooferSource[], eqDb: number[]): number[] {
+  const seatResponses = calculateSeatResponses(context, subwoofers, eqDb);
+  const deviation = context.freqs.map((_, i) => {
+    const mean = seatResponses.reduce((sum, response) => sum + response[i], 0) / seatResponses.length;
+    return mean - context.target[i];
+  });
+  const meanDeviation = deviation.reduce((sum, d) => sum + d, 0) / deviation.length;
+  return deviation.map(d => d - meanDeviation);
+}
+
+/**
+ * Find per-sub gain, delay and polarity plus a shared set of EQ bands that minimise
+ * seat-to-seat variation and deviation from the Harman target.
+ * The first sub is the level/polarity reference; every sub's delay is searched and
+ * the result shifted so the earliest sub has none. isCancelled is checked whenever
+ * the optimizer yields, a cancelled run rejects with an AbortError.
+ */
+export async function optimizeMultiSub(
+  subwoofers: SubwooferSource[],
+  options: MultiSubOptimizerOptions,
+  onIteration?: (iteration: MultiSubIteration) => void,
+  isCancelled?: () => boolean
+): Promise<MultiSubOptimizationResult> {
+  const {
+    room,
+    listenerPositions,
+    maxModeOrder = 10,
+    baseQFactor = DEFAULT_Q_FACTOR,
+    minFrequency = 20,
+    maxFrequency = 160,
+    gainRangeDb = [-12, 6],
+    maxDelayMs = 20,
+    numEQBands = 6,
+    maxBoost = 6,
+    maxCut = 12,
+    maxIterations = 30,
+    seatVariationWeight = 1,
+    targetDeviationWeight = 1,
+    bassRolloffFreq,
+    bassRolloffSlope,
+  } = options;
+
+  if (subwoofers.length === 0 || listenerPositions.length === 0) {
+    throw new Error('Multi-sub optimization needs at least one subwoofer and one listening position');
+  }
+
+  console.log(`🎛️ MSO: optimizing ${subwoofers.length} sub(s) over ${listenerPositions.length} seat(s)`);
+  const startTime = performance.now();
+  const checkpoint = async () => {
+    await yieldToUI();
+    if (isCancelled?.()) throw msoCancelledError();
+  };
+
+  // Per-sub, per-seat transfer functions with unit gain, no delay, normal polarity
+  const transfers: TransferFunction[][] = [];
+  let freqs: number[] = [];
+  for (const sub of subwoofers) {
+    const unitSource: SubwooferSource = { ...sub, gainDb: 0, delayMs: 0, polarity: 1 };
+    const perSeat: TransferFunction[] = [];
+    for (const seat of listenerPositions) {
+      const complex = calculateComplexResponse([unitSource], seat, room.L, room.W, room.H, maxModeOrder, baseQFactor)
+        .filter(point => point.freq >= minFrequency && point.freq <= maxFrequency);
+      freqs = complex.map(point => point.freq);
+      perSeat.push({
+        re: Float64Array.from(complex, point => point.re),
+        im: Float64Array.from(complex, point => point.im),
+      });
+    }
+    transfers.push(perSeat);
+    await checkpoint();
+  }
+
+  const context: OptimizerContext = {
+    freqs,
+    transfers,
+    target: freqs.map(freq => getHarmanTargetDB(freq, bassRolloffFreq, bassRolloffSlope)),
+    seatVariationWeight,
+    targetDeviationWeight,
+  };
+
+  const iterations: MultiSubIteration[] = [];
+  const report = (stage: MultiSubIteration['stage'], objective: MultiSubObjective) => {
+    const entry: MultiSubIteration = { iteration: iterations.length, stage, ...objective };
+    iterations.push(entry);
+    onIteration?.(entry);
+  };
+
+  const flatEQ = freqs.map(() => 0);
+  let current = subwoofers.map(sub => ({ ...sub, position: { ...sub.position } }));
+  const initial = evaluateObjective(context, current, flatEQ);
+  let best = initial;
+  report('alignment', best);
+
+  const clampGain = (gain: number) => Math.max(gainRangeDb[0], Math.min(gainRangeDb[1], gain));
+  const clampDelay = (delay: number) => Math.max(0, Math.min(maxDelayMs, delay));
+
+  // Stage 1: coarse delay/polarity scan per sub (greedy); the reference sub only moves in time,
+  // so it can end up later than the others
+  for (let s = 0; s < current.length; s++) {
+    let bestSub = current[s];
+    const polarities = s === 0 ? [current[0].polarity] : [1, -1] as const;
+    for (const polarity of polarities) {
+      for (let delay = 0; delay <= maxDelayMs; delay += 0.5) {
+        const candidate = { ...current[s], delayMs: delay, polarity };
+        const trial = current.map((sub, i) => (i === s ? candidate : sub));
+        const result = evaluateObjective(context, trial, flatEQ);
+        if (result.objective < best.objective) {
+          best = result;
+          bestSub = candidate;
+        }
+      }
+    }
+    current = current.map((sub, i) => (i === s ? bestSub : sub));
+    report('alignment', best);
+    await checkpoint();
+  }
+
+  // Stage 2: coordinate refinement of gain, delay and polarity with shrinking steps
+  let gainStep = 2;
+  let delayStep = 1;
+  for (let iter = 0; iter < maxIterations && current.length > 1; iter++) {
+    let improved = false;
+    for (let s = 0; s < current.length; s++) {
+      const base = current[s];
+      const delayCandidates: SubwooferSource[] = [
+        { ...base, delayMs: clampDelay(base.delayMs + delayStep) },
+        { ...base, delayMs: clampDelay(base.delayMs - delayStep) },
+      ];
+      const candidates: SubwooferSource[] = s === 0 ? delayCandidates : [
+        { ...base, polarity: base.polarity === 1 ? -1 : 1 },
+        { ...base, gainDb: clampGain(base.gainDb + gainStep) },
+        { ...base, gainDb: clampGain(base.gainDb - gainStep) },
+        ...delayCandidates,
+      ];
+      for (const candidate of candidates) {
+        const trial = current.map((sub, i) => (i === s ? candidate : sub));
+        const result = evaluateObjective(context, trial, flatEQ);
+        if (result.objective < best.objective - 1e-6) {
+          best = result;
+          current = trial;
+          improved = true;
+        }
+      }
+    }
+    report('refinement', best);
+    await checkpoint();
+
+    if (!improved) {
+      gainStep /= 2;
+      delayStep /= 2;
+      if (gainStep < 0.25 && delayStep < 0.1) break;
+    }
+  }
+
+  // A delay common to all subs does not change the response, only the latency
+  const minDelay = Math.min(...current.map(sub => sub.delayMs));
+  current = current.map(sub => ({ ...sub, delayMs: sub.delayMs - minDelay }));
+
+  // Stage 3: shared EQ bands placed on the largest spatially averaged deviations
+  const bands: EQBand[] = [];
+  let eqDb = flatEQ;
+  for (let b = 0; b < numEQBands; b++) {
+    const deviation = calculateAverageDeviation(context, current, eqDb);
+    let worstIndex = 0;
+    deviation.forEach((d, i) => {
+      if (Math.abs(d) > Math.abs(deviation[worstIndex])) worstIndex = i;
+    });
+    if (Math.abs(deviation[worstIndex]) < 0.5) break;
+
+    let band: EQBand = {
+      frequency: freqs[worstIndex],
+      gain: Math.max(-maxCut, Math.min(maxBoost, -deviation[worstIndex])),
+      q: 4,
+      type: 'peak',
+    };
+
+    // Refine the band against the full objective
+    let bandResult = evaluateObjective(context, current, calculateEQCurve(freqs, [...bands, band]));
+    const steps = { frequency: 2, gain: 1, q: 1 };
+    for (let iter = 0; iter < 20; iter++) {
+      let bandImproved = false;
+      const candidates: EQBand[] = [
+        { ...band, frequency: Math.max(minFrequency, band.frequency - steps.frequency) },
+        { ...band, frequency: Math.min(maxFrequency, band.frequency + steps.frequency) },
+        { ...band, gain: Math.max(-maxCut, band.gain - steps.gain) },
+        { ...band, gain: Math.min(maxBoost, band.gain + steps.gain) },
+        { ...band, q: Math.max(0.7, band.q - steps.q) },
+        { ...band, q: Math.min(12, band.q + steps.q) },
+      ];
+      for (const candidate of candidates) {
+        const result = evaluateObjective(context, current, calculateEQCurve(freqs, [...bands, candidate]));
+        if (result.objective < bandResult.objective - 1e-6) {
+          bandResult = result;
+          band = candidate;
+          bandImproved = true;
+        }
+      }
+      if (!bandImproved) {
+        steps.frequency /= 2;
+        steps.gain /= 2;
+        steps.q /= 2;
+        if (steps.gain < 0.1) break;
+      }
+    }
+
+    if (bandResult.objective >= best.objective - 1e-6) break; // Band does not help any more
+    bands.push(band);
+    eqDb = calculateEQCurve(freqs, bands);
+    best = bandResult;
+    report('eq', best);
+    await checkpoint();
+  }
+
+  console.log(`✅ MSO finished in ${(performance.now() - startTime).toFixed(0)}ms: ${initial.objective.toFixed(3)} → ${best.objective.toFixed(3)}`);
+
+  return {
+    subwoofers: current,
+    eqSettings: {
+      bands: bands.sort((a, b) => a.frequency - b.frequency),
+      enabled: bands.length > 0,
+      maxBoost,
+      maxCut,
+      smoothing: 0,
+    },
+    initial,
+    final: best,
+    iterations,
+  };
+}
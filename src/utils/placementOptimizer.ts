@@ -0,0 +1,280 @@
+/* Placement optimizers: subwoofer position search and listening-position heatmap */
+import {
+  Point,
+  RoomDimensions,
+  ModeResponse,
+  SubwooferSource,
+  ModalDamping,
+  DEFAULT_Q_FACTOR,
+  analyzeTargetError,
+  complexToDb,
+  createListenerResponseSampler,
+} from './roomModeCalculations';
+import { RoomGeometry, isInsideRoom } from './roomGeometry';
+
+export type SubPlacementConstraint = 'floor' | 'wall' | 'anywhere';
+
+// Walls a sub can be placed against. Front/back walls sit at y = 0 / y = W,
+// left/right walls at x = 0 / x = L (same convention as SurfaceAbsorptions).
+export type PlacementWall = 'front' | 'back' | 'left' | 'right';
+
+/**
+ * Axis-aligned floor rectangle the sub must not be placed in (e.g. doors, sofas, the TV stand).
+ */
+export interface KeepOutZone {
+  id: string;
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface SubPositionSearchOptions {
+  room: RoomDimensions;
+  geometry?: RoomGeometry | null; // Non-shoebox shape: candidates stay inside it, responses still use the bounding box
+  listenerPositions: Point[];
+  target: ModeResponse[];        // Current target curve (absolute level is ignored, shape only)
+  subwoofers: SubwooferSource[]; // Current sub layout; other subs stay where they are
+  subIndex?: number;             // Which sub to move (default: primary)
+  constraint?: SubPlacementConstraint;
+  wall?: PlacementWall;          // Used with the 'wall' constraint
+  keepOutZones?: KeepOutZone[];
+  gridStep?: number;             // Candidate spacing in metres
+  subHeight?: number;            // Driver centre height for floor/wall placement
+  wallClearance?: number;        // Distance from walls to the driver centre
+  topN?: number;
+  maxModeOrder?: number;
+  baseQFactor?: ModalDamping;
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+export interface SubPositionCandidate {
+  position: Point;
+  score: number; // Mean shape error against the target over all seats (dB RMS, lower is better)
+  rank: number;
+}
+
+const yieldToUI = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const isInKeepOutZone = (p: Point, zones: KeepOutZone[]) =>
+  zones.some(zone => p.x >= zone.xMin && p.x <= zone.xMax && p.y >= zone.yMin && p.y <= zone.yMax);
+
+const gridValues = (min: number, max: number, step: number): number[] => {
+  const values: number[] = [];
+  for (let v = min; v <= max + 1e-9; v += step) values.push(Math.round(v * 1000) / 1000);
+  return values;
+};
+
+/**
+ * Generate candidate sub positions for a placement constraint.
+ */
+export function generateSubCandidates(
+  room: RoomDimensions,
+  constraint: SubPlacementConstraint,
+  options: { wall?: PlacementWall; gridStep: number; subHeight: number; wallClearance: number; keepOutZones: KeepOutZone[]; geometry?: RoomGeometry | null }
+): Point[] {
+  const { wall = 'front', gridStep, subHeight, wallClearance, keepOutZones, geometry } = options;
+  const xs = gridValues(wallClearance, room.L - wallClearance, gridStep);
+  const ys = gridValues(wallClearance, room.W - wallClearance, gridStep);
+  const z = Math.min(subHeight, room.H);
+  const candidates: Point[] = [];
+
+  if (constraint === 'wall') {
+    if (wall === 'front' || wall === 'back') {
+      const y = wall === 'front' ? wallClearance : room.W - wallClearance;
+      xs.forEach(x => candidates.push({ x, y, z }));
+    } else {
+      const x = wall === 'left' ? wallClearance : room.L - wallClearance;
+      ys.forEach(y => candidates.push({ x, y, z }));
+    }
+  } else if (constraint === 'floor') {
+    xs.forEach(x => ys.forEach(y => candidates.push({ x, y, z })));
+  } else {
+    const zs = gridValues(subHeight, room.H - wallClearance, gridStep);
+    xs.forEach(x => ys.forEach(y => zs.forEach(zValue => candidates.push({ x, y, z: zValue }))));
+  }
+
+  return candidates.filter(p => !isInKeepOutZone(p, keepOutZones) && (!geometry || isInsideRoom(geometry, p)));
+}
+
+/**
+ * Shape error of a response against the target: RMS error with the mean level offset removed.
+ */
+function calculateShapeError(response: ModeResponse[], target: ModeResponse[]): number {
+  const { rmsError, avgError } = analyzeTargetError(response, target);
+  return Math.sqrt(Math.max(0, rmsError ** 2 - avgError ** 2));
+}
+
+/**
+ * Sample candidate sub positions and rank them by how closely the response at
+ * the listening positions follows the target.
+ */
+export async function searchSubPositions(
+  options: SubPositionSearchOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SubPositionCandidate[]> {
+  const {
+    room,
+    geometry = null,
+    listenerPositions,
+    target,
+    subwoofers,
+    subIndex = 0,
+    constraint = 'floor',
+    wall = 'front',
+    keepOutZones = [],
+    gridStep = 0.4,
+    subHeight = 0.25,
+    wallClearance = 0.25,
+    topN = 5,
+    maxModeOrder = 8,
+    baseQFactor = DEFAULT_Q_FACTOR,
+    minFrequency = 20,
+    maxFrequency = 200,
+  } = options;
+
+  const candidates = generateSubCandidates(room, constraint, { wall, gridStep, subHeight, wallClearance, keepOutZones, geometry });
+  const bandTarget = target.filter(p => p.freq >= minFrequency && p.freq <= maxFrequency);
+  console.log(`📍 Sub position search: ${candidates.length} candidates (${constraint}${constraint === 'wall' ? `: ${wall}` : ''})`);
+
+  if (candidates.length === 0 || bandTarget.length === 0) return [];
+
+  const startTime = performance.now();
+  const scored: Array<{ position: Point; score: number }> = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    const position = candidates[i];
+    const sources = subwoofers.map((sub, index) => (index === subIndex ? { ...sub, position } : sub));
+    // Uncached: the candidates would otherwise push the real simulations out of the cache
+    const sampleResponse = createListenerResponseSampler(sources, room.L, room.W, room.H, maxModeOrder, baseQFactor);
+
+    let totalError = 0;
+    for (const listener of listenerPositions) {
+      const response: ModeResponse[] = sampleResponse(listener)
+        .filter(p => p.freq >= minFrequency && p.freq <= maxFrequency)
+        .map(p => ({ freq: p.freq, db: complexToDb(p.re, p.im) }));
+      totalError += calculateShapeError(response, bandTarget);
+    }
+    scored.push({ position, score: totalError / listenerPositions.length });
+
+    if (i % 8 === 7) {
+      onProgress?.(i + 1, candidates.length);
+      await yieldToUI();
+    }
+  }
+  onProgress?.(candidates.length, candidates.length);
+
+  const ranked = scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, topN)
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+
+  console.log(`✅ Sub position search finished in ${(performance.now() - startTime).toFixed(0)}ms, best score ${ranked[0]?.score.toFixed(2)}dB`);
+  return ranked;
+}
+
+export interface ListeningHeatmapOptions {
+  room: RoomDimensions;
+  geometry?: RoomGeometry | null; // Non-shoebox shape: only cells inside the room at ear height are scored
+  subwoofers: SubwooferSource[];
+  target: ModeResponse[];  // Current target curve (absolute level is ignored, shape only)
+  earHeight?: number;
+  gridStep?: number;       // Cell size in metres
+  maxModeOrder?: number;
+  baseQFactor?: ModalDamping;
+  minFrequency?: number;
+  maxFrequency?: number;
+  weights?: { flatness: number; nullDepth: number; targetDeviation: number };
+}
+
+export interface ListeningHeatmapCell {
+  x: number;
+  y: number;
+  flatness: number;        // Standard deviation of the response in the band (dB)
+  nullDepth: number;       // Depth of the deepest dip below the band median (dB)
+  targetDeviation: number; // Shape error against the target (dB RMS)
+  score: number;           // Weighted sum of the above, lower is better
+  inside: boolean;         // Cell centre lies inside the room at ear height; cells outside it are not scored
+}
+
+export interface ListeningHeatmap {
+  earHeight: number;
+  gridStep: number;
+  columns: number; // Cells along x (room length)
+  rows: number;    // Cells along y (room width)
+  cells: ListeningHeatmapCell[]; // Row-major: index = row * columns + column
+  minScore: number;               // Over the cells inside the room
+  maxScore: number;
+  best: ListeningHeatmapCell;
+}
+
+/**
+ * Score every cell of a floor grid at ear height by flatness, null depth and
+ * deviation from the target, for picking a listening position.
+ */
+export async function calculateListeningHeatmap(
+  options: ListeningHeatmapOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ListeningHeatmap | null> {
+  const {
+    room,
+    geometry = null,
+    subwoofers,
+    target,
+    earHeight = 1.1,
+    gridStep = 0.2,
+    maxModeOrder = 8,
+    baseQFactor = DEFAULT_Q_FACTOR,
+    minFrequency = 20,
+    maxFrequency = 200,
+    weights = { flatness: 1, nullDepth: 0.5, targetDeviation: 1 },
+  } = options;
+
+  const columns = Math.max(1, Math.round(room.L / gridStep));
+  const rows = Math.max(1, Math.round(room.W / gridStep));
+  const bandTarget = target.filter(p => p.freq >= minFrequency && p.freq <= maxFrequency);
+  if (bandTarget.length === 0) return null;
+
+  console.log(`🗺️ Listening heatmap: ${columns}x${rows} cells at ${earHeight.toFixed(2)}m`);
+  const startTime = performance.now();
+  const sampleResponse = createListenerResponseSampler(subwoofers, room.L, room.W, room.H, maxModeOrder, baseQFactor);
+  const z = Math.min(earHeight, room.H);
+  const cells: ListeningHeatmapCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      // Cell centres, so the grid covers the floor evenly
+      const x = (column + 0.5) * (room.L / columns);
+      const y = (row + 0.5) * (room.W / rows);
+      if (geometry && !isInsideRoom(geometry, { x, y, z })) {
+        cells.push({ x, y, flatness: NaN, nullDepth: NaN, targetDeviation: NaN, score: NaN, inside: false });
+        continue;
+      }
+      const response: ModeResponse[] = sampleResponse({ x, y, z })
+        .filter(p => p.freq >= minFrequency && p.freq <= maxFrequency)
+        .map(p => ({ freq: p.freq, db: complexToDb(p.re, p.im) }));
+
+      const levels = response.map(p => p.db);
+      const mean = levels.reduce((sum, v) => sum + v, 0) / levels.length;
+      const flatness = Math.sqrt(levels.reduce((sum, v) => sum + (v - mean) ** 2, 0) / levels.length);
+      const sorted = [...levels].sort((a, b) => a - b);
+      const nullDepth = sorted[Math.floor(sorted.length / 2)] - sorted[0];
+      const targetDeviation = calculateShapeError(response, bandTarget);
+      const score = weights.flatness * flatness + weights.nullDepth * nullDepth + weights.targetDeviation * targetDeviation;
+
+      cells.push({ x, y, flatness, nullDepth, targetDeviation, score, inside: true });
+    }
+
+    onProgress?.(row + 1, rows);
+    await yieldToUI();
+  }
+
+  const scoredCells = cells.filter(cell => cell.inside);
+  if (scoredCells.length === 0) return null;
+  const best = scoredCells.reduce((a, b) => (b.score < a.score ? b : a));
+  const maxScore = scoredCells.reduce((max, cell) => Math.max(max, cell.score), -Infinity);
+
+  console.log(`✅ Listening heatmap finished in ${(performance.now() - startTime).toFixed(0)}ms, best cell (${best.x.toFixed(2)}, ${best.y.toFixed(2)}) score ${best.score.toFixed(2)}`);
+  return { earHeight: z, gridStep, columns, rows, cells, minScore: best.score, maxScore, best };
+}
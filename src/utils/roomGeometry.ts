@@ -0,0 +1,256 @@
+/* Room geometry beyond the shoebox: polygonal floor plans, sloped ceilings and their voxel grid */
+import { Point, RoomDimensions, RoomSurface } from './roomModeCalculations';
+import { RoomCorner } from './bassTraps';
+
+export interface FloorPlanPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Ceiling that slopes linearly along one axis, e.g. the roof side of an attic room.
+ * Full height up to `from`, falling to `lowHeight` at `to` and level beyond it.
+ */
+export interface CeilingSlope {
+  axis: 'x' | 'y';
+  from: number;      // Coordinate where the slope starts (m)
+  to: number;        // Coordinate where the ceiling reaches lowHeight (m), either side of `from`
+  lowHeight: number; // m, e.g. the knee wall height
+}
+
+/**
+ * A floor plan polygon extruded to the ceiling height, with optional sloped ceilings.
+ * Coordinates use the room convention: x along L, y along W (front wall at y = 0), z up.
+ */
+export interface RoomGeometry {
+  floorPlan: FloorPlanPoint[]; // Polygon corners in order (either winding), m
+  height: number;              // Ceiling height where no slope applies, m
+  ceilingSlopes?: CeilingSlope[];
+}
+
+/**
+ * UI-level description of the room shape inside the L × W × H bounding box.
+ */
+export interface RoomShapeSettings {
+  notch: {                     // L-shaped room: rectangle cut out of one corner
+    enabled: boolean;
+    corner: RoomCorner;
+    length: number;            // m along x
+    width: number;             // m along y
+  };
+  slope: {                     // Attic room: ceiling sloping down towards one wall
+    enabled: boolean;
+    wall: 'front' | 'back' | 'left' | 'right';
+    startDistance: number;     // m from that wall where the slope begins
+    kneeHeight: number;        // m, ceiling height at the wall
+  };
+}
+
+export const DEFAULT_ROOM_SHAPE: RoomShapeSettings = {
+  notch: { enabled: false, corner: 'back-right', length: 2, width: 2 },
+  slope: { enabled: false, wall: 'back', startDistance: 2, kneeHeight: 1.2 },
+};
+
+export const isShoeboxShape = (shape: RoomShapeSettings) => !shape.notch.enabled && !shape.slope.enabled;
+
+export function shoeboxGeometry(room: RoomDimensions): RoomGeometry {
+  return {
+    floorPlan: [{ x: 0, y: 0 }, { x: room.L, y: 0 }, { x: room.L, y: room.W }, { x: 0, y: room.W }],
+    height: room.H,
+  };
+}
+
+/**
+ * Geometry for the shape settings: the bounding box with the notch removed and the slope applied.
+ */
+export function buildRoomGeometry(room: RoomDimensions, shape: RoomShapeSettings): RoomGeometry {
+  const { L, W, H } = room;
+  const geometry = shoeboxGeometry(room);
+
+  if (shape.notch.enabled) {
+    const notchLength = Math.min(shape.notch.length, L * 0.8);
+    const notchWidth = Math.min(shape.notch.width, W * 0.8);
+    const left = shape.notch.corner.endsWith('left');
+    const front = shape.notch.corner.startsWith('front');
+    const innerX = left ? notchLength : L - notchLength;
+    const innerY = front ? notchWidth : W - notchWidth;
+    const cornerX = left ? 0 : L;
+    const cornerY = front ? 0 : W;
+
+    // Walk the box corners and replace the notched one by the three corners of the cut-out
+    geometry.floorPlan = geometry.floorPlan.flatMap(corner => {
+      if (corner.x !== cornerX || corner.y !== cornerY) return [corner];
+      // Counter-clockwise order: the notch's x-edge comes first at the front corners
+      const alongX = { x: innerX, y: cornerY };
+      const alongY = { x: cornerX, y: innerY };
+      const inner = { x: innerX, y: innerY };
+      const xFirst = (front && !left) || (!front && left);
+      return xFirst ? [alongX, inner, alongY] : [alongY, inner, alongX];
+    });
+  }
+
+  if (shape.slope.enabled) {
+    const kneeHeight = Math.min(shape.slope.kneeHeight, H);
+    const wall = shape.slope.wall;
+    const axis = wall === 'left' || wall === 'right' ? 'x' : 'y';
+    const extent = axis === 'x' ? L : W;
+    const wallCoordinate = wall === 'right' || wall === 'back' ? extent : 0;
+    const startDistance = Math.min(shape.slope.startDistance, extent);
+    const from = wallCoordinate === 0 ? startDistance : extent - startDistance;
+    geometry.ceilingSlopes = [{ axis, from, to: wallCoordinate, lowHeight: kneeHeight }];
+  }
+
+  return geometry;
+}
+
+/**
+ * Ceiling height above a floor point: the lowest of the flat ceiling and all slopes.
+ */
+export function ceilingHeightAt(geometry: RoomGeometry, x: number, y: number): number {
+  let height = geometry.height;
+  for (const slope of geometry.ceilingSlopes ?? []) {
+    const coordinate = slope.axis === 'x' ? x : y;
+    const span = slope.to - slope.from;
+    const t = span === 0 ? (coordinate === slope.to ? 1 : 0) : (coordinate - slope.from) / span;
+    const clamped = Math.max(0, Math.min(1, t));
+    height = Math.min(height, geometry.height + (slope.lowHeight - geometry.height) * clamped);
+  }
+  return height;
+}
+
+/**
+ * Even-odd point-in-polygon test for the floor plan.
+ */
+export function isInsideFloorPlan(floorPlan: FloorPlanPoint[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = floorPlan.length - 1; i < floorPlan.length; j = i++) {
+    const a = floorPlan[i];
+    const b = floorPlan[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isInsideRoom(geometry: RoomGeometry, point: Point): boolean {
+  return point.z >= 0
+    && isInsideFloorPlan(geometry.floorPlan, point.x, point.y)
+    && point.z <= ceilingHeightAt(geometry, point.x, point.y);
+}
+
+// Distance a point pulled out of a cut-out is moved past the wall, so it tests as inside
+const WALL_INSET = 0.001;
+
+/**
+ * Nearest position inside the room: within the bounding box, out of any cut-out
+ * onto the closest wall of the floor plan, and under the (sloped) ceiling.
+ */
+export function clampToGeometry(point: Point, geometry: RoomGeometry): Point {
+  const bounds = geometryBounds(geometry);
+  const boxX = Math.min(Math.max(0, point.x), bounds.L);
+  const boxY = Math.min(Math.max(0, point.y), bounds.W);
+  let x = boxX;
+  let y = boxY;
+
+  if (!isInsideFloorPlan(geometry.floorPlan, boxX, boxY)) {
+    // Closest point on each edge, nudged off the wall along its normal to whichever side is inside
+    let bestDistance = Infinity;
+    const { floorPlan } = geometry;
+    for (let i = 0; i < floorPlan.length; i++) {
+      const a = floorPlan[i];
+      const b = floorPlan[(i + 1) % floorPlan.length];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const length = Math.hypot(dx, dy);
+      if (length === 0) continue;
+      const t = Math.min(1, Math.max(0, ((boxX - a.x) * dx + (boxY - a.y) * dy) / length ** 2));
+      const onEdge = { x: a.x + t * dx, y: a.y + t * dy };
+      for (const side of [1, -1]) {
+        const candidate = { x: onEdge.x - (side * WALL_INSET * dy) / length, y: onEdge.y + (side * WALL_INSET * dx) / length };
+        const distance = Math.hypot(candidate.x - boxX, candidate.y - boxY);
+        if (distance < bestDistance && isInsideFloorPlan(floorPlan, candidate.x, candidate.y)) {
+          bestDistance = distance;
+          ({ x, y } = candidate);
+        }
+      }
+    }
+  }
+
+  return { x, y, z: Math.min(Math.max(0, point.z), ceilingHeightAt(geometry, x, y)) };
+}
+
+/**
+ * Bounding box of the geometry, measured from the origin like RoomDimensions.
+ */
+export function geometryBounds(geometry: RoomGeometry): RoomDimensions {
+  return {
+    L: Math.max(...geometry.floorPlan.map(p => p.x)),
+    W: Math.max(...geometry.floorPlan.map(p => p.y)),
+    H: geometry.height,
+  };
+}
+
+/**
+ * Cubic voxels covering the bounding box with a one-cell solid border all round,
+ * so every air cell has six neighbours in the arrays.
+ */
+export interface VoxelGrid {
+  spacing: number;       // Cell size in m
+  nx: number;            // Cells along x, including the border
+  ny: number;
+  nz: number;
+  air: Uint8Array;       // 1 where the cell centre lies inside the room
+  insidePlan: Uint8Array; // Per (i, j) column: 1 where the column lies inside the floor plan
+}
+
+export const voxelIndex = (grid: VoxelGrid, i: number, j: number, k: number) => i + grid.nx * (j + grid.ny * k);
+
+/** Centre of cell (i, j, k) in room coordinates (the border cells lie outside the box) */
+export const voxelCentre = (grid: VoxelGrid, i: number, j: number, k: number): Point => ({
+  x: (i - 0.5) * grid.spacing,
+  y: (j - 0.5) * grid.spacing,
+  z: (k - 0.5) * grid.spacing,
+});
+
+export function voxelizeRoom(geometry: RoomGeometry, spacing: number): VoxelGrid {
+  const bounds = geometryBounds(geometry);
+  const nx = Math.max(1, Math.round(bounds.L / spacing)) + 2;
+  const ny = Math.max(1, Math.round(bounds.W / spacing)) + 2;
+  const nz = Math.max(1, Math.round(bounds.H / spacing)) + 2;
+  const grid: VoxelGrid = {
+    spacing,
+    nx,
+    ny,
+    nz,
+    air: new Uint8Array(nx * ny * nz),
+    insidePlan: new Uint8Array(nx * ny),
+  };
+
+  for (let j = 1; j < ny - 1; j++) {
+    for (let i = 1; i < nx - 1; i++) {
+      const { x, y } = voxelCentre(grid, i, j, 0);
+      if (!isInsideFloorPlan(geometry.floorPlan, x, y)) continue;
+      grid.insidePlan[i + nx * j] = 1;
+      const ceiling = ceilingHeightAt(geometry, x, y);
+      for (let k = 1; k < nz - 1; k++) {
+        if (voxelCentre(grid, i, j, k).z < ceiling) grid.air[voxelIndex(grid, i, j, k)] = 1;
+      }
+    }
+  }
+  return grid;
+}
+
+/**
+ * Surface a missing neighbour belongs to. Vertical faces into a column outside the
+ * floor plan are walls, named by the direction they face like the shoebox walls;
+ * faces into solid cells inside the plan are under the (sloped) ceiling.
+ */
+export function boundaryFaceSurface(grid: VoxelGrid, i: number, j: number, di: number, dj: number, dk: number): RoomSurface {
+  if (dk < 0) return 'floor';
+  if (dk > 0) return 'ceiling';
+  if (grid.insidePlan[i + di + grid.nx * (j + dj)]) return 'ceiling';
+  if (di < 0) return 'left';
+  if (di > 0) return 'right';
+  return dj < 0 ? 'front' : 'back';
+}
@@ -1,9 +1,18 @@
 /* Room acoustics calculation utilities */
+import { AbsorptionSpectrum, absorptionAt } from './acousticMaterials';
+import { createLRUCache, getAllCacheStats, LRUCacheStats, stableHash } from './lruCache';
+import {
+  BiquadCoefficients,
+  BiquadResponse,
+  BiquadType,
+  DEFAULT_SAMPLE_RATE,
+  biquadResponseDb,
+  cascadeComplexResponse,
+  designBiquad,
+} from './biquadFilter';
+
 export const SPEED_OF_SOUND = 343; // m/s
 export const DEFAULT_Q_FACTOR = 10; // Typical Q for room modes, could be a parameter
-const FREQUENCY_MIN_HZ = 20;
-const FREQUENCY_MAX_HZ = 300;
-const FREQUENCY_STEP_HZ = 1;
 
 export interface Point {
   x: number;
@@ -23,40 +32,163 @@ export interface ModeResponse {
   // mode: string; // Mode is no longer per data point with summed response
 }
 
-// Memoization cache for simulateRoomResponse
-const responseCache = new Map<string, ModeResponse[]>();
-const CACHE_SIZE_LIMIT = 50; // Limit cache size to prevent memory issues
+/**
+ * Frequency range and resolution of a simulated response: linear steps in Hz
+ * or log-spaced points per octave.
+ */
+export interface FrequencyGrid {
+  minFrequency: number;
+  maxFrequency: number;
+  spacing: 'linear' | 'log';
+  stepHz?: number;          // Linear spacing, default 1 Hz
+  pointsPerOctave?: number; // Log spacing, default 48
+}
+
+/** Dense 1 Hz sweep used for the final analysis */
+export const DEFAULT_FREQUENCY_GRID: FrequencyGrid = { minFrequency: 20, maxFrequency: 300, spacing: 'linear', stepHz: 1 };
+/** Coarse log sweep for interactive updates, e.g. while dragging a source */
+export const COARSE_FREQUENCY_GRID: FrequencyGrid = { minFrequency: 20, maxFrequency: 300, spacing: 'log', pointsPerOctave: 24 };
+
+/**
+ * Frequencies of a grid, from minFrequency up to and including maxFrequency where it falls on the grid.
+ */
+export function frequencyGridPoints(grid: FrequencyGrid = DEFAULT_FREQUENCY_GRID): number[] {
+  const { minFrequency, maxFrequency, spacing, stepHz = 1, pointsPerOctave = 48 } = grid;
+  if (spacing === 'log') {
+    const count = Math.floor(Math.log2(maxFrequency / minFrequency) * pointsPerOctave + 1e-9);
+    return Array.from({ length: count + 1 }, (_, k) => minFrequency * 2 ** (k / pointsPerOctave));
+  }
+  const count = Math.floor((maxFrequency - minFrequency) / stepHz + 1e-9);
+  return Array.from({ length: count + 1 }, (_, k) => minFrequency + k * stepHz);
+}
+
+/**
+ * Best guess of the grid a response was computed on: log when the frequency
+ * ratio between neighbours is constant, linear otherwise.
+ */
+export function inferFrequencyGrid(response: ModeResponse[]): FrequencyGrid {
+  if (response.length < 3) return DEFAULT_FREQUENCY_GRID;
+  const first = response[0].freq;
+  const last = response[response.length - 1].freq;
+  const firstStep = response[1].freq - first;
+  const lastStep = last - response[response.length - 2].freq;
+  if (first > 0 && Math.abs(lastStep - firstStep) > 1e-6 * Math.max(1, lastStep)) {
+    return { minFrequency: first, maxFrequency: last, spacing: 'log', pointsPerOctave: 1 / Math.log2(response[1].freq / first) };
+  }
+  return { minFrequency: first, maxFrequency: last, spacing: 'linear', stepHz: firstStep };
+}
+
+/**
+ * Level of a response at any frequency, linearly interpolated between its points.
+ * Null outside the response's frequency range.
+ */
+export function interpolateResponseDb(response: ModeResponse[], freq: number): number | null {
+  if (response.length === 0 || freq < response[0].freq - 1e-9 || freq > response[response.length - 1].freq + 1e-9) return null;
+  let lo = 0;
+  let hi = response.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (response[mid].freq <= freq) lo = mid;
+    else hi = mid;
+  }
+  return interpolate(freq, response[lo].freq, response[hi].freq, response[lo].db, response[hi].db);
+}
+
+/**
+ * Resample a response onto another grid; grid points outside the response's range are dropped.
+ */
+export function resampleResponse(response: ModeResponse[], grid: FrequencyGrid): ModeResponse[] {
+  return frequencyGridPoints(grid).flatMap(freq => {
+    const db = interpolateResponseDb(response, freq);
+    return db === null ? [] : [{ freq, db }];
+  });
+}
+
+/**
+ * A single low-frequency source (subwoofer) feeding the room.
+ * Gain, delay and polarity are applied before the source excites the modes.
+ */
+export interface SubwooferSource {
+  id: string;
+  position: Point;
+  gainDb: number; // Level trim in dB
+  delayMs: number; // Signal delay in milliseconds
+  polarity: 1 | -1; // 1 = normal, -1 = inverted
+}
+
+/**
+ * A listening position (seat) in the room.
+ */
+export interface ListeningSeat {
+  id: string;
+  name: string;
+  position: Point;
+  eqWeight?: number; // Weight of the seat in multi-seat EQ, default 1
+}
+
+// Memoization caches, evicted least recently used first beyond their share of the memory budget
+const DEFAULT_CACHE_MEMORY_BUDGET = 64 * 2 ** 20;
+const CACHE_BUDGET_SHARES = { simulation: 0.625, eq: 0.1875, speaker: 0.0625, modeTable: 0.125 };
+// Bump whenever the mode sum's output changes, so results persisted by an older solver are dropped
+const SIMULATION_MODEL_VERSION = 1;
+const simulationCache = createLRUCache<ComplexResponsePoint[]>({
+  name: 'simulation',
+  maxBytes: DEFAULT_CACHE_MEMORY_BUDGET * CACHE_BUDGET_SHARES.simulation,
+  persistent: true, // Expensive high-resolution runs survive across sessions
+  version: SIMULATION_MODEL_VERSION,
+});
+const eqCache = createLRUCache<ModeResponse[]>({ name: 'eq', maxBytes: DEFAULT_CACHE_MEMORY_BUDGET * CACHE_BUDGET_SHARES.eq });
+const speakerCache = createLRUCache<number>({ name: 'speaker', maxBytes: DEFAULT_CACHE_MEMORY_BUDGET * CACHE_BUDGET_SHARES.speaker });
+const PERSIST_MIN_COMPUTE_MS = 150; // Simulations slower than this are written to IndexedDB
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const roundPoint = (p: Point): Point => ({ x: roundTo(p.x, 3), y: roundTo(p.y, 3), z: roundTo(p.z, 3) });
 
 /**
- * Generate cache key for memoization
+ * Generate cache key for memoization: a stable hash of the rounded inputs.
+ * Covers the whole source list so any change in position, gain, delay or polarity invalidates it.
  */
 function generateCacheKey(
-  subPos: Point, 
+  sources: SubwooferSource[], 
   listenerPos: Point, 
   L: number, 
   W: number, 
   H: number, 
   maxModeOrder: number,
-  baseQFactor: number
+  baseQFactor: ModalDamping,
+  frequencyGrid: FrequencyGrid
 ): string {
-  return JSON.stringify({
-    sub: { x: Math.round(subPos.x * 1000) / 1000, y: Math.round(subPos.y * 1000) / 1000, z: Math.round(subPos.z * 1000) / 1000 },
-    listener: { x: Math.round(listenerPos.x * 1000) / 1000, y: Math.round(listenerPos.y * 1000) / 1000, z: Math.round(listenerPos.z * 1000) / 1000 },
-    room: { L: Math.round(L * 1000) / 1000, W: Math.round(W * 1000) / 1000, H: Math.round(H * 1000) / 1000 },
+  return stableHash({
+    sources: sources.map(source => ({
+      position: roundPoint(source.position),
+      gainDb: roundTo(source.gainDb, 2),
+      delayMs: roundTo(source.delayMs, 3),
+      polarity: source.polarity
+    })),
+    listener: roundPoint(listenerPos),
+    room: { L: roundTo(L, 3), W: roundTo(W, 3), H: roundTo(H, 3) },
     maxModeOrder,
-    baseQFactor: Math.round(baseQFactor * 100) / 100
+    baseQFactor: dampingCacheKey(baseQFactor),
+    frequencyGrid
   });
 }
 
 /**
- * Calculate pressure at a point for a given mode (standing wave pattern)
+ * Calculate pressure at a point for a given mode (standing wave pattern).
+ * Fractional indices and phase offsets (radians per axis) describe modes
+ * shifted by reactive boundaries, see calculateModeDamping.
  */
 export function calculateModePressure(
   n: number, 
   m: number, 
   l: number, 
   pos: Point, 
-  dim: RoomDimensions
+  dim: RoomDimensions,
+  offsets?: Point
 ): number {
   const { x, y, z } = pos;
   const { L, W, H } = dim;
@@ -71,167 +203,876 @@ export function calculateModePressure(
   const effectiveX = Lx - x;
 
   return (
-    Math.cos((n * Math.PI * effectiveX) / Lx) * // Changed x to effectiveX
-    Math.cos((m * Math.PI * y) / Wy) * 
-    Math.cos((l * Math.PI * z) / Hz)
+    Math.cos((n * Math.PI * effectiveX) / Lx - (offsets?.x ?? 0)) * // Changed x to effectiveX
+    Math.cos((m * Math.PI * y) / Wy - (offsets?.y ?? 0)) * 
+    Math.cos((l * Math.PI * z) / Hz - (offsets?.z ?? 0))
   );
 }
 
 /**
- * Simulate summed room acoustic response including phase interactions.
- * Now with memoization for performance optimization.
+ * Q for a mode: the provided baseQFactor with a multiplier for low frequencies.
  */
-export function simulateRoomResponse(
-  subPos: Point, 
+function getModeQ(fMode: number, baseQFactor: number): number {
+  let qMultiplier = 1.0;
+  if (fMode > 0 && fMode < 80) { // Modes below 80 Hz
+    qMultiplier = 2.0;
+  } else if (fMode >= 80 && fMode < 150) { // Modes between 80 Hz and 150 Hz
+    qMultiplier = 1.5;
+  }
+  return Math.max(1, baseQFactor * qMultiplier);
+}
+
+/**
+ * Absorption coefficient per room surface (0..1). Left/right walls sit at
+ * x = 0 / x = L, front/back at y = 0 / y = W (the listener faces the front
+ * wall, as in the 3D view), floor/ceiling at z = 0 / z = H.
+ */
+export interface SurfaceAbsorptions {
+  front: number;
+  back: number;
+  left: number;
+  right: number;
+  ceiling: number;
+  floor: number;
+}
+
+/** Room surface names, matching the keys of SurfaceAbsorptions */
+export type RoomSurface = keyof SurfaceAbsorptions;
+
+/** Normalized specific acoustic impedance ζ = Z / ρc of a locally reacting surface (e^(jωt) convention) */
+export interface SurfaceImpedance {
+  re: number; // Resistance, > 0 for a lossy surface
+  im: number; // Reactance
+}
+
+/**
+ * An absorber inside the room, such as a bass trap, described by the area of
+ * its absorbing face and points on that face where the mode pressure is sampled.
+ */
+export interface AbsorberPatch {
+  area: number; // m²
+  points: Point[];
+  spectrum: AbsorptionSpectrum;
+}
+
+/**
+ * Per-surface damping model for the modal solver: every mode is damped only by
+ * the surfaces its plane-wave components actually hit.
+ */
+export interface ModalDampingModel {
+  absorption: SurfaceAbsorptions;
+  absorptionSpectra?: Partial<Record<RoomSurface, AbsorptionSpectrum>>; // Evaluated at each mode's frequency, replaces the flat absorption
+  impedance?: Partial<Record<RoomSurface, SurfaceImpedance>>; // Replaces the absorption of these surfaces
+  absorbers?: AbsorberPatch[]; // Discrete absorbers, weighted by the mode pressure where they sit
+  qMultiplier?: number; // Extra scaling of every mode's Q (e.g. furnishing), default 1
+}
+
+/** A single base Q for all modes, or a per-surface damping model */
+export type ModalDamping = number | ModalDampingModel;
+
+/** Effective mode indices and per-axis phase offsets for calculateModePressure */
+export interface ModeShape {
+  n: number;
+  m: number;
+  l: number;
+  offsets: Point;
+}
+
+export interface ModeDamping {
+  frequency: number; // Mode frequency including the boundary phase shift
+  shape: ModeShape;
+  q: number;
+  t60: number;       // Time for the mode to decay by 60 dB, in seconds
+  decayRate: number; // Amplitude decay constant σ in 1/s (envelope e^(-σt))
+}
+
+const T60_DECAY_NEPERS = 3 * Math.LN10; // 60 dB of amplitude decay
+
+/**
+ * Reflection factor of a surface at a frequency for a wave arriving with the
+ * given direction cosine. An impedance gives R = (ζ·cosθ - 1) / (ζ·cosθ + 1);
+ * an absorption coefficient (flat or from a spectrum) gives a real R = √(1 - α)
+ * without phase shift.
+ */
+function surfaceReflection(
+  model: ModalDampingModel,
+  surface: RoomSurface,
+  cosine: number,
+  frequency: number
+): { magnitude: number; phase: number } {
+  const impedance = model.impedance?.[surface];
+  if (!impedance) {
+    const spectrum = model.absorptionSpectra?.[surface];
+    const alpha = Math.min(0.99, Math.max(0.001, spectrum ? absorptionAt(spectrum, frequency) : model.absorption[surface]));
+    return { magnitude: Math.sqrt(1 - alpha), phase: 0 };
+  }
+
+  const zRe = Math.max(0, impedance.re) * cosine;
+  const zIm = impedance.im * cosine;
+  const magnitude = Math.hypot(zRe - 1, zIm) / Math.hypot(zRe + 1, zIm);
+  return {
+    magnitude: Math.min(Math.sqrt(0.999), Math.max(0.1, magnitude)), // Same limits as α in 0.001..0.99
+    phase: Math.atan2(zIm, zRe - 1) - Math.atan2(zIm, zRe + 1),
+  };
+}
+
+/**
+ * Frequency, shape and damping of mode (n, m, l). With a per-surface model the
+ * mode is treated as plane waves with direction cosines (n/L, m/W, l/H)/|k|.
+ * The reflection phases φa, φb of a wall pair move that axis to
+ * k = (nπ + (φa + φb)/2) / D, shifting the mode frequency and its pressure
+ * pattern; axes with index 0 are left as they are since the waves only graze
+ * those walls. The waves hit each wall pair c·|cos θ|/D times per second and
+ * lose -ln|R|² of their energy per reflection, so axial x-modes only see the
+ * left/right walls. Discrete absorbers add their Sabine share c·α·S / 8V scaled
+ * by the mode's squared pressure at the absorber over its mean square in the
+ * room, so a trap in a pressure maximum damps that mode up to twice as much per
+ * axis as the diffuse-field estimate and a trap in a node barely at all.
+ */
+export function calculateModeDamping(
+  n: number,
+  m: number,
+  l: number,
+  room: RoomDimensions,
+  damping: ModalDamping
+): ModeDamping {
+  const { L, W, H } = room;
+  const kx = L === 0 ? 0 : n / L;
+  const ky = W === 0 ? 0 : m / W;
+  const kz = H === 0 ? 0 : l / H;
+  const kNominal = Math.sqrt(kx ** 2 + ky ** 2 + kz ** 2);
+
+  if (typeof damping === 'number') {
+    const frequency = (SPEED_OF_SOUND / 2) * kNominal;
+    const q = getModeQ(frequency, damping);
+    const decayRate = frequency > 0 ? (Math.PI * frequency) / q : 0;
+    return {
+      frequency,
+      shape: { n, m, l, offsets: { x: 0, y: 0, z: 0 } },
+      q,
+      t60: decayRate > 0 ? T60_DECAY_NEPERS / decayRate : 0,
+      decayRate,
+    };
+  }
+
+  const { qMultiplier = 1 } = damping;
+  const k = kNominal || 1;
+  const nominalFrequency = (SPEED_OF_SOUND / 2) * kNominal;
+  const axes = [
+    { index: n, cosine: kx / k, dimension: L, near: 'right' as const, far: 'left' as const }, // x measured from x = L, as in calculateModePressure
+    { index: m, cosine: ky / k, dimension: W, near: 'front' as const, far: 'back' as const },
+    { index: l, cosine: kz / k, dimension: H, near: 'floor' as const, far: 'ceiling' as const },
+  ].map(axis => {
+    const near = surfaceReflection(damping, axis.near, axis.cosine, nominalFrequency);
+    const far = surfaceReflection(damping, axis.far, axis.cosine, nominalFrequency);
+    const shifted = axis.index > 0 && axis.dimension > 0;
+    return {
+      ...axis,
+      effectiveIndex: shifted ? axis.index + (near.phase + far.phase) / (2 * Math.PI) : axis.index,
+      offset: shifted ? near.phase / 2 : 0,
+      reflectionLoss: -Math.log(near.magnitude ** 2) - Math.log(far.magnitude ** 2),
+    };
+  });
+
+  const wavenumbers = axes.map(axis => (axis.dimension > 0 ? Math.abs(axis.effectiveIndex) / axis.dimension : 0));
+  const kShifted = Math.sqrt(wavenumbers.reduce((sum, value) => sum + value ** 2, 0));
+  const frequency = (SPEED_OF_SOUND / 2) * kShifted;
+
+  // Energy decay rate from all wall pairs; amplitude decays at half that rate
+  const energyDecayRate = axes.reduce((sum, axis, i) => (
+    axis.dimension > 0
+      ? sum + (SPEED_OF_SOUND * (wavenumbers[i] / (kShifted || 1)) / axis.dimension) * axis.reflectionLoss / 2
+      : sum
+  ), 0);
+  const shape: ModeShape = {
+    n: axes[0].effectiveIndex,
+    m: axes[1].effectiveIndex,
+    l: axes[2].effectiveIndex,
+    offsets: { x: axes[0].offset, y: axes[1].offset, z: axes[2].offset },
+  };
+
+  let absorberDecayRate = 0;
+  const volume = L * W * H;
+  if (damping.absorbers && damping.absorbers.length > 0 && volume > 0) {
+    // Mean square of the mode shape over the room: 1/2 per axis with a standing wave
+    const meanSquare = axes.reduce((product, axis) => product * (axis.effectiveIndex === 0 ? 1 : 0.5), 1);
+    damping.absorbers.forEach(absorber => {
+      if (absorber.points.length === 0) return;
+      const pressureSquared = absorber.points.reduce(
+        (sum, point) => sum + modeShapePressure(shape, point, room) ** 2, 0
+      ) / absorber.points.length;
+      const alpha = Math.min(0.99, Math.max(0, absorptionAt(absorber.spectrum, frequency)));
+      absorberDecayRate += (SPEED_OF_SOUND * alpha * absorber.area * pressureSquared) / (8 * volume * meanSquare);
+    });
+  }
+
+  const sigma = energyDecayRate / 2 + absorberDecayRate;
+  let q = sigma > 0 ? (Math.PI * frequency) / sigma : 200;
+  q = Math.max(1, Math.min(200, q * qMultiplier));
+
+  const decayRate = frequency > 0 ? (Math.PI * frequency) / q : 0;
+  return {
+    frequency,
+    shape,
+    q,
+    t60: decayRate > 0 ? T60_DECAY_NEPERS / decayRate : 0,
+    decayRate,
+  };
+}
+
+/**
+ * Pressure of a (possibly boundary-shifted) mode shape at a point.
+ */
+function modeShapePressure(shape: ModeShape, pos: Point, dim: RoomDimensions): number {
+  return calculateModePressure(shape.n, shape.m, shape.l, pos, dim, shape.offsets);
+}
+
+const dampingCacheKey = (damping: ModalDamping) =>
+  typeof damping === 'number' ? roundTo(damping, 2) : damping;
+
+interface RoomMode {
+  n: number;
+  m: number;
+  l: number;
+  fMode: number;
+}
+
+/**
+ * Enumerate the room modes up to maxModeOrder that take part in the response.
+ */
+function enumerateRoomModes(L: number, W: number, H: number, maxModeOrder: number, maxFrequency: number): RoomMode[] {
+  const modes: RoomMode[] = [];
+
+  for (let n = 0; n <= maxModeOrder; n++) {
+    for (let m = 0; m <= maxModeOrder; m++) {
+      for (let l = 0; l <= maxModeOrder; l++) {
+        if (n === 0 && m === 0 && l === 0) continue; // DC / constant pressure mode is not part of the AC response
+        if (L === 0 && n !== 0) continue; // No x-modes if L=0
+        if (W === 0 && m !== 0) continue; // No y-modes if W=0
+        if (H === 0 && l !== 0) continue; // No z-modes if H=0
+
+        const termL = (L === 0) ? 0 : (n / L);
+        const termW = (W === 0) ? 0 : (m / W);
+        const termH = (H === 0) ? 0 : (l / H);
+
+        const fMode = (SPEED_OF_SOUND / 2) * Math.sqrt(
+          termL ** 2 + termW ** 2 + termH ** 2
+        );
+
+        if (fMode === 0) continue; // Skip 0Hz mode for AC response
+        // Optimization: high-order modes well above the max frequency contribute little
+        if (fMode > maxFrequency * 1.5 && n > 3 && m > 3 && l > 3) continue;
+
+        modes.push({ n, m, l, fMode });
+      }
+    }
+  }
+
+  return modes;
+}
+
+export type RoomModeType = 'axial' | 'tangential' | 'oblique';
+
+/** A mode of the room with everything that does not depend on the source or listener positions */
+export interface ModeTableEntry {
+  n: number;
+  m: number;
+  l: number;
+  frequency: number; // Including the boundary phase shift
+  q: number;
+  t60: number;
+  type: RoomModeType;
+  shape: ModeShape;
+}
+
+export interface ModeTable {
+  modes: ModeTableEntry[];
+  buildTimeMs: number;
+}
+
+export interface ModeTableStats {
+  tables: number;         // Tables currently cached
+  hits: number;
+  misses: number;
+  buildTimeMs: number;    // Total time spent building tables
+  couplingRuns: number;
+  couplingTimeMs: number; // Total time spent on the position-dependent coupling terms
+}
+
+// Mode tables per room / damping configuration, shared by every source and listener position
+const modeTableCache = createLRUCache<ModeTable>({
+  name: 'modeTable',
+  maxBytes: DEFAULT_CACHE_MEMORY_BUDGET * CACHE_BUDGET_SHARES.modeTable,
+});
+const modeTableStats = { buildTimeMs: 0, couplingRuns: 0, couplingTimeMs: 0 };
+
+function classifyMode(n: number, m: number, l: number): RoomModeType {
+  const nonZeroIndices = (n > 0 ? 1 : 0) + (m > 0 ? 1 : 0) + (l > 0 ? 1 : 0);
+  if (nonZeroIndices === 1) return 'axial';
+  if (nonZeroIndices === 2) return 'tangential';
+  return 'oblique';
+}
+
+/**
+ * Frequencies, Q and type of every mode of a room up to maxModeOrder. These only
+ * depend on the room and its damping, so the table is cached and a change in
+ * source or listener position only recomputes the mode pressures.
+ */
+export function getModeTable(
+  room: RoomDimensions,
+  maxModeOrder = 10,
+  damping: ModalDamping = DEFAULT_Q_FACTOR,
+  maxFrequency = DEFAULT_FREQUENCY_GRID.maxFrequency
+): ModeTable {
+  const { L, W, H } = room;
+  const key = stableHash({
+    room: { L: roundTo(L, 3), W: roundTo(W, 3), H: roundTo(H, 3) },
+    maxModeOrder,
+    damping: dampingCacheKey(damping),
+    maxFrequency
+  });
+
+  const cached = modeTableCache.get(key);
+  if (cached) return cached;
+
+  const startTime = performance.now();
+  const modes: ModeTableEntry[] = [];
+  for (const { n, m, l } of enumerateRoomModes(L, W, H, maxModeOrder, maxFrequency)) {
+    const { frequency, shape, q, t60 } = calculateModeDamping(n, m, l, { L, W, H }, damping);
+    if (frequency <= 0) continue;
+    modes.push({ n, m, l, frequency, q, t60, type: classifyMode(n, m, l), shape });
+  }
+  const table = { modes, buildTimeMs: performance.now() - startTime };
+
+  modeTableCache.set(key, table);
+  modeTableStats.buildTimeMs += table.buildTimeMs;
+  return table;
+}
+
+/**
+ * Mode table cache counters and the time spent building tables versus
+ * evaluating the coupling terms, to compare the two on large mode orders.
+ */
+export function getModeTableStats(): ModeTableStats {
+  const { entries, hits, misses } = modeTableCache.stats();
+  return { tables: entries, hits, misses, ...modeTableStats };
+}
+
+interface ModalTerm {
+  fMode: number;
+  q: number;
+  listenerPressure: number;
+  sourcePressures: number[]; // One entry per source, same order as the source list
+}
+
+/**
+ * Collect the modes that contribute to the response, with the pressure terms
+ * at the listener and at every source. Independent of frequency, so computed once.
+ */
+function collectModalTerms(
+  sources: SubwooferSource[],
+  listenerPos: Point,
+  L: number,
+  W: number,
+  H: number,
+  maxModeOrder: number,
+  baseQFactor: ModalDamping,
+  maxFrequency: number
+): ModalTerm[] {
+  const { modes } = getModeTable({ L, W, H }, maxModeOrder, baseQFactor, maxFrequency);
+  const startTime = performance.now();
+  const terms: ModalTerm[] = [];
+  const linearGains = sources.map(source => 10 ** (source.gainDb / 20));
+
+  for (const { frequency: fMode, shape, q } of modes) {
+    const listenerPressure = modeShapePressure(shape, listenerPos, { L, W, H });
+    const sourcePressures = sources.map(source => modeShapePressure(shape, source.position, { L, W, H }));
+
+    // Negligible coupling if no source can excite this mode at the listener
+    const maxCoupling = sourcePressures.reduce(
+      (max, p, i) => Math.max(max, Math.abs(p * listenerPressure * linearGains[i])), 0
+    );
+    if (maxCoupling < 1e-9) continue;
+
+    terms.push({ fMode, q, listenerPressure, sourcePressures });
+  }
+
+  modeTableStats.couplingRuns++;
+  modeTableStats.couplingTimeMs += performance.now() - startTime;
+  return terms;
+}
+
+export interface ComplexResponsePoint {
+  freq: number;
+  re: number; // Real part of the pressure at the listener
+  im: number; // Imaginary part of the pressure at the listener
+}
+
+/**
+ * Complex pressure at the listener for a set of sources, memoized in the simulation cache.
+ * Used by simulateMultiSubResponse and by optimizers that need to recombine
+ * per-source transfer functions with different gain/delay/polarity.
+ */
+export function calculateComplexResponse(
+  sources: SubwooferSource[],
   listenerPos: Point, 
   L: number, 
   W: number, 
   H: number, 
-  maxModeOrder = 10, // Max order for n, m, l
-  baseQFactor = DEFAULT_Q_FACTOR
-): ModeResponse[] {
-  // Generate cache key
-  const cacheKey = generateCacheKey(subPos, listenerPos, L, W, H, maxModeOrder, baseQFactor);
-  
-  // Check cache first
-  if (responseCache.has(cacheKey)) {
-    console.log('🚀 Cache HIT - returning cached response (performance boost!)');
-    return responseCache.get(cacheKey)!;
-  }
-  
-  console.log('⚡ Cache MISS - calculating new response...');
-  const startTime = performance.now();
-  
-  // If cache is getting too large, clear oldest entries
-  if (responseCache.size >= CACHE_SIZE_LIMIT) {
-    const keysToDelete = Array.from(responseCache.keys()).slice(0, Math.floor(CACHE_SIZE_LIMIT / 2));
-    keysToDelete.forEach(key => responseCache.delete(key));
-    console.log(`🧹 Cache cleanup: removed ${keysToDelete.length} old entries`);
-  }
+  maxModeOrder = 10,
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR,
+  frequencyGrid: FrequencyGrid = DEFAULT_FREQUENCY_GRID
+): ComplexResponsePoint[] {
+  const cacheKey = generateCacheKey(sources, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid);
+  const cached = simulationCache.get(cacheKey);
+  if (cached) return cached;
 
-  // Calculate response (original logic)
-  const intermediateResponse: Array<{ freq: number; magnitude: number }> = []; // Store magnitude before dB conversion
-  let maxOverallMagnitude = 0;
+  const startTime = performance.now();
+  const modalTerms = collectModalTerms(sources, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid.maxFrequency);
+  const linearGains = sources.map(source => source.polarity * 10 ** (source.gainDb / 20));
+  const result: ComplexResponsePoint[] = [];
+
+  for (const f of frequencyGridPoints(frequencyGrid)) {
+    // Complex drive of each source at this frequency: gain * polarity * e^(-j*2*pi*f*delay)
+    const driveReal: number[] = [];
+    const driveImag: number[] = [];
+    for (let s = 0; s < sources.length; s++) {
+      const delayPhase = -2 * Math.PI * f * (sources[s].delayMs / 1000);
+      driveReal.push(linearGains[s] * Math.cos(delayPhase));
+      driveImag.push(linearGains[s] * Math.sin(delayPhase));
+    }
 
-  for (let f = FREQUENCY_MIN_HZ; f <= FREQUENCY_MAX_HZ; f += FREQUENCY_STEP_HZ) {
     let totalReal = 0;
     let totalImag = 0;
 
-    for (let n = 0; n <= maxModeOrder; n++) {
-      for (let m = 0; m <= maxModeOrder; m++) {
-        for (let l = 0; l <= maxModeOrder; l++) {
-          if (n === 0 && m === 0 && l === 0 && !(L === 0 && W === 0 && H === 0) ) {
-            // For non-zero room dimensions, the (0,0,0) mode is DC / constant pressure, often handled differently or omitted in AC response.
-            // If we wanted to include it for some reason (e.g. pressurization gain), it would need special handling.
-            // For typical modal frequency response, we skip it unless it is the *only* possible mode (e.g. 0-dim room).
-            continue;
-          }
-          if (L === 0 && n !== 0) continue; // No x-modes if L=0
-          if (W === 0 && m !== 0) continue; // No y-modes if W=0
-          if (H === 0 && l !== 0) continue; // No z-modes if H=0
+    for (const term of modalTerms) {
+      // Complex coupling of all sources into this mode, seen at the listener
+      let couplingReal = 0;
+      let couplingImag = 0;
+      for (let s = 0; s < sources.length; s++) {
+        const pressure = term.sourcePressures[s] * term.listenerPressure;
+        couplingReal += pressure * driveReal[s];
+        couplingImag += pressure * driveImag[s];
+      }
 
-          const termL = (L === 0) ? 0 : (n / L);
-          const termW = (W === 0) ? 0 : (m / W);
-          const termH = (H === 0) ? 0 : (l / H);
+      // Second-order resonator: 1 / ((1 - r^2) + j*r/Q)
+      const fRatio = f / term.fMode;
+      const denominatorTerm = fRatio / term.q;
+      const modeAmplitudeResponse = 1 / Math.sqrt((1 - fRatio ** 2) ** 2 + denominatorTerm ** 2);
+      const modePhaseResponse = Math.atan2(-denominatorTerm, 1 - fRatio ** 2);
+      const modeReal = modeAmplitudeResponse * Math.cos(modePhaseResponse);
+      const modeImag = modeAmplitudeResponse * Math.sin(modePhaseResponse);
 
-          const fMode = (SPEED_OF_SOUND / 2) * Math.sqrt(
-            termL ** 2 + termW ** 2 + termH ** 2
-          );
+      totalReal += couplingReal * modeReal - couplingImag * modeImag;
+      totalImag += couplingReal * modeImag + couplingImag * modeReal;
+    }
 
-          if (fMode === 0 && f > 0) continue; // Skip 0Hz mode for AC response if not f=0
-          if (fMode > FREQUENCY_MAX_HZ * 1.5 && fMode > 0) { 
-            // Optimization: if mode an octave above max freq, its contribution is likely small at f.
-            // This factor (1.5) can be tuned. For high Q, it might need to be larger.
-            // Let's be more conservative with this optimization if Q can be high for LF
-            // if (n > 2 && m > 2 && l > 2) continue; 
-            // Re-evaluating optimization: given high maxModeOrder, it's still useful.
-            // The original condition `if (n > 2 && m > 2 && l > 2)` might be too restrictive.
-            // Let's adjust it to skip if *any* index is high, to prune faster.
-            // if (n > 5 || m > 5 || l > 5) continue; // Example of a more aggressive pruning
-            // For now, let's stick to the original optimization logic for higher order modes,
-            // but be mindful of its impact with varying Q.
-             if (n > 3 && m > 3 && l > 3) continue; // A slightly less aggressive pruning than original
-          } 
-
-          // Calculate pressure terms for coupling
-          const subPressureTerm = calculateModePressure(n, m, l, subPos, { L, W, H });
-          const listenerPressureTerm = calculateModePressure(n, m, l, listenerPos, { L, W, H });
-          const coupling = subPressureTerm * listenerPressureTerm;
-
-          if (Math.abs(coupling) < 1e-9) continue; // Negligible coupling
-
-          // Use the provided baseQFactor, but apply a multiplier for low frequencies.
-          let qMultiplier = 1.0;
-          if (fMode > 0 && fMode < 80) { // Modes below 80 Hz
-            qMultiplier = 2.0;
-          } else if (fMode >= 80 && fMode < 150) { // Modes between 80 Hz and 150 Hz
-            qMultiplier = 1.5;
-          }
-          const q = Math.max(1, baseQFactor * qMultiplier);
-
-          let modeAmplitudeResponse = 0;
-          let modePhaseResponse = 0;
-
-          if (fMode === 0 && f === 0) { // DC or 0Hz mode response
-            modeAmplitudeResponse = 1;
-            modePhaseResponse = 0;
-          } else if (fMode > 0) {
-            const fRatio = f / fMode;
-            const denominatorTerm = (fRatio / q); // Use frequency-dependent Q
-            modeAmplitudeResponse = 1 / Math.sqrt( (1 - fRatio**2)**2 + denominatorTerm**2 );
-            // Corrected phase: phase of 1 / ( (1-fRatio^2) + j*denominatorTerm )
-            modePhaseResponse = Math.atan2(-denominatorTerm, (1 - fRatio**2) ); 
-          } else {
-            continue; // Should not happen if fMode=0 and f > 0 is caught
-          }
-          
-          const effectiveMagnitude = coupling * modeAmplitudeResponse;
-          totalReal += effectiveMagnitude * Math.cos(modePhaseResponse);
-          totalImag += effectiveMagnitude * Math.sin(modePhaseResponse);
-        }
+    result.push({ freq: f, re: totalReal, im: totalImag });
+  }
+
+  simulationCache.set(cacheKey, result, { persist: performance.now() - startTime >= PERSIST_MIN_COMPUTE_MS });
+  return result;
+}
+
+/**
+ * Create an evaluator for the complex response at arbitrary listener positions
+ * with a fixed set of sources. The source excitation of every mode is computed
+ * once, so each additional listener only costs one weighted sum over the modes.
+ */
+export function createListenerResponseSampler(
+  sources: SubwooferSource[],
+  L: number,
+  W: number,
+  H: number,
+  maxModeOrder = 10,
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR,
+  frequencyGrid: FrequencyGrid = DEFAULT_FREQUENCY_GRID
+): (listenerPos: Point) => ComplexResponsePoint[] {
+  const freqs = frequencyGridPoints(frequencyGrid);
+
+  const linearGains = sources.map(source => source.polarity * 10 ** (source.gainDb / 20));
+  const excitedModes: ModeShape[] = [];
+  const excitationRows: Float64Array[] = []; // Interleaved re/im per frequency, one row per mode
+
+  for (const { frequency: fMode, shape, q } of getModeTable({ L, W, H }, maxModeOrder, baseQFactor, frequencyGrid.maxFrequency).modes) {
+    const sourcePressures = sources.map(source => modeShapePressure(shape, source.position, { L, W, H }));
+    if (sourcePressures.every((p, s) => Math.abs(p * linearGains[s]) < 1e-9)) continue;
+
+    const row = new Float64Array(freqs.length * 2);
+    freqs.forEach((f, i) => {
+      let couplingReal = 0;
+      let couplingImag = 0;
+      for (let s = 0; s < sources.length; s++) {
+        const delayPhase = -2 * Math.PI * f * (sources[s].delayMs / 1000);
+        couplingReal += sourcePressures[s] * linearGains[s] * Math.cos(delayPhase);
+        couplingImag += sourcePressures[s] * linearGains[s] * Math.sin(delayPhase);
       }
-    }
-    const currentMagnitude = Math.sqrt(totalReal**2 + totalImag**2);
-    
-    // Apply frequency weighting 1/sqrt(f) for a more natural roll-off
-    const weightedMagnitude = currentMagnitude;
-    // No spectral tilt applied - use magnitude as-is
+      const fRatio = f / fMode;
+      const denominatorTerm = fRatio / q;
+      const modeAmplitudeResponse = 1 / Math.sqrt((1 - fRatio ** 2) ** 2 + denominatorTerm ** 2);
+      const modePhaseResponse = Math.atan2(-denominatorTerm, 1 - fRatio ** 2);
+      const modeReal = modeAmplitudeResponse * Math.cos(modePhaseResponse);
+      const modeImag = modeAmplitudeResponse * Math.sin(modePhaseResponse);
+      row[2 * i] = couplingReal * modeReal - couplingImag * modeImag;
+      row[2 * i + 1] = couplingReal * modeImag + couplingImag * modeReal;
+    });
 
-    intermediateResponse.push({ freq: f, magnitude: weightedMagnitude });
-    if (weightedMagnitude > maxOverallMagnitude) {
-      maxOverallMagnitude = weightedMagnitude;
-    }
+    excitedModes.push(shape);
+    excitationRows.push(row);
   }
 
-  const finalResponse: ModeResponse[] = [];
-  // Convert to dB, normalizing so that maxOverallMagnitude is 0 dB.
-  // Handle cases where maxOverallMagnitude might be 0 or very small.
-  const MIN_DB_VALUE = -100; // Or some other suitable minimum dB value
+  return (listenerPos: Point) => {
+    const totals = new Float64Array(freqs.length * 2);
+    excitedModes.forEach((shape, j) => {
+      const listenerPressure = modeShapePressure(shape, listenerPos, { L, W, H });
+      if (Math.abs(listenerPressure) < 1e-9) return;
+      const row = excitationRows[j];
+      for (let k = 0; k < totals.length; k++) totals[k] += listenerPressure * row[k];
+    });
+    return freqs.map((freq, i) => ({ freq, re: totals[2 * i], im: totals[2 * i + 1] }));
+  };
+}
 
-  for (const point of intermediateResponse) {
-    let dbValue: number;
-    // Removed normalization to maxOverallMagnitude.
-    // Calculate dB directly from point.magnitude (which is weightedMagnitude).
-    // A magnitude of 1.0 will result in 0 dB.
-    if (point.magnitude <= 1e-9) { // Use a small threshold to avoid log(0)
-      dbValue = MIN_DB_VALUE;
-    } else {
-      dbValue = 20 * Math.log10(point.magnitude);
-    }
-    // Ensure db is not below MIN_DB_VALUE (e.g. if magnitude was extremely small)
-    finalResponse.push({ freq: point.freq, db: Math.max(MIN_DB_VALUE, dbValue) });
+export interface WaterfallSlice {
+  timeMs: number;
+  response: ModeResponse[];
+}
+
+export interface ModalWaterfallOptions {
+  maxModeOrder?: number;
+  baseQFactor?: ModalDamping;
+  durationMs?: number;    // Last slice time
+  sliceCount?: number;    // Number of slices including t = 0
+  eqSettings?: EQSettings | null; // EQ applied as a magnitude correction to every slice
+  frequencyGrid?: FrequencyGrid;
+}
+
+/**
+ * Cumulative spectral decay from the modal model. Every mode rings out with its
+ * own envelope e^(-π·f_mode·t / Q), using the same per-mode Q as the steady-state
+ * response, and the decaying modes are summed complexly per slice.
+ */
+export function calculateModalWaterfall(
+  sources: SubwooferSource[],
+  listenerPos: Point,
+  L: number,
+  W: number,
+  H: number,
+  options: ModalWaterfallOptions = {}
+): WaterfallSlice[] {
+  const {
+    maxModeOrder = 10,
+    baseQFactor = DEFAULT_Q_FACTOR,
+    durationMs = 500,
+    sliceCount = 26,
+    eqSettings = null,
+    frequencyGrid = DEFAULT_FREQUENCY_GRID,
+  } = options;
+
+  const startTime = performance.now();
+  const freqs = frequencyGridPoints(frequencyGrid);
+
+  const modalTerms = collectModalTerms(sources, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid.maxFrequency);
+  const linearGains = sources.map(source => source.polarity * 10 ** (source.gainDb / 20));
+
+  // Steady-state contribution of every mode at every frequency (interleaved re/im)
+  const modeRows = modalTerms.map(term => {
+    const row = new Float64Array(freqs.length * 2);
+    freqs.forEach((f, i) => {
+      let couplingReal = 0;
+      let couplingImag = 0;
+      for (let s = 0; s < sources.length; s++) {
+        const delayPhase = -2 * Math.PI * f * (sources[s].delayMs / 1000);
+        const pressure = term.sourcePressures[s] * term.listenerPressure * linearGains[s];
+        couplingReal += pressure * Math.cos(delayPhase);
+        couplingImag += pressure * Math.sin(delayPhase);
+      }
+      const fRatio = f / term.fMode;
+      const denominatorTerm = fRatio / term.q;
+      const modeAmplitudeResponse = 1 / Math.sqrt((1 - fRatio ** 2) ** 2 + denominatorTerm ** 2);
+      const modePhaseResponse = Math.atan2(-denominatorTerm, 1 - fRatio ** 2);
+      const modeReal = modeAmplitudeResponse * Math.cos(modePhaseResponse);
+      const modeImag = modeAmplitudeResponse * Math.sin(modePhaseResponse);
+      row[2 * i] = couplingReal * modeReal - couplingImag * modeImag;
+      row[2 * i + 1] = couplingReal * modeImag + couplingImag * modeReal;
+    });
+    return row;
+  });
+
+  const eqGainsDb = eqSettings && eqSettings.enabled && eqSettings.bands.length > 0
+    ? applyEQToResponse(freqs.map(freq => ({ freq, db: 0 })), eqSettings).map(point => point.db)
+    : null;
+
+  const slices: WaterfallSlice[] = [];
+  for (let slice = 0; slice < sliceCount; slice++) {
+    const t = sliceCount > 1 ? (slice / (sliceCount - 1)) * (durationMs / 1000) : 0;
+    const totals = new Float64Array(freqs.length * 2);
+    modalTerms.forEach((term, j) => {
+      const envelope = Math.exp(-Math.PI * term.fMode * t / term.q);
+      if (envelope < 1e-6) return;
+      const row = modeRows[j];
+      for (let k = 0; k < totals.length; k++) totals[k] += envelope * row[k];
+    });
+    slices.push({
+      timeMs: t * 1000,
+      response: freqs.map((freq, i) => ({
+        freq,
+        db: complexToDb(totals[2 * i], totals[2 * i + 1]) + (eqGainsDb ? eqGainsDb[i] : 0),
+      })),
+    });
   }
-  
-  const endTime = performance.now();
-  console.log(`✅ Response calculation completed in ${(endTime - startTime).toFixed(1)}ms`);
-  
-  // Cache the result
-  responseCache.set(cacheKey, finalResponse);
-  console.log(`💾 Response cached (cache size: ${responseCache.size}/${CACHE_SIZE_LIMIT})`);
-  
+
+  console.log(`🌊 Modal waterfall: ${modalTerms.length} modes, ${sliceCount} slices over ${durationMs}ms${eqGainsDb ? ' (EQ applied)' : ''} in ${(performance.now() - startTime).toFixed(1)}ms`);
+  return slices;
+}
+
+/**
+ * Convert a complex pressure to dB, with a floor for near-zero magnitudes.
+ */
+export function complexToDb(re: number, im: number): number {
+  const MIN_DB_VALUE = -100;
+  const magnitude = Math.sqrt(re ** 2 + im ** 2);
+  // A magnitude of 1.0 will result in 0 dB
+  return magnitude <= 1e-9 ? MIN_DB_VALUE : Math.max(MIN_DB_VALUE, 20 * Math.log10(magnitude));
+}
+
+/**
+ * Complex response point with magnitude, unwrapped phase and group delay.
+ */
+export interface ComplexModeResponse extends ModeResponse {
+  magnitude: number;    // Linear magnitude
+  phaseDeg: number;     // Unwrapped phase in degrees
+  groupDelayMs: number; // Group delay -dφ/dω in milliseconds
+}
+
+/**
+ * Derive magnitude, unwrapped phase and group delay from a complex response.
+ * Group delay uses central differences of the unwrapped phase (one-sided at the ends).
+ */
+export function analyzeComplexResponse(points: ComplexResponsePoint[]): ComplexModeResponse[] {
+  const phases: number[] = [];
+  points.forEach((point, i) => {
+    const wrapped = Math.atan2(point.im, point.re);
+    if (i === 0) {
+      phases.push(wrapped);
+      return;
+    }
+    // Remove 2π jumps relative to the previous (already unwrapped) sample
+    const previous = phases[i - 1];
+    const jumps = Math.round((previous - wrapped) / (2 * Math.PI));
+    phases.push(wrapped + jumps * 2 * Math.PI);
+  });
+
+  return points.map((point, i) => {
+    const lo = Math.max(0, i - 1);
+    const hi = Math.min(points.length - 1, i + 1);
+    const deltaOmega = 2 * Math.PI * (points[hi].freq - points[lo].freq);
+    const groupDelay = deltaOmega > 0 ? -(phases[hi] - phases[lo]) / deltaOmega : 0;
+    return {
+      freq: point.freq,
+      db: complexToDb(point.re, point.im),
+      magnitude: Math.sqrt(point.re ** 2 + point.im ** 2),
+      phaseDeg: phases[i] * 180 / Math.PI,
+      groupDelayMs: groupDelay * 1000,
+    };
+  });
+}
+
+/**
+ * Simulate summed room acoustic response for several subwoofers.
+ * Every source gets its own gain, delay and polarity, and the sources are
+ * summed complexly per mode, so cancellation between subs is preserved.
+ */
+export function simulateMultiSubResponse(
+  sources: SubwooferSource[],
+  listenerPos: Point, 
+  L: number, 
+  W: number, 
+  H: number, 
+  maxModeOrder = 10, // Max order for n, m, l
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR,
+  frequencyGrid: FrequencyGrid = DEFAULT_FREQUENCY_GRID
+): ModeResponse[] {
+  const startTime = performance.now();
+  const { hits } = simulationCache.stats();
+
+  // The complex response is memoized, only the dB conversion runs on a cache hit
+  const finalResponse: ModeResponse[] = calculateComplexResponse(
+    sources, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid
+  ).map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+
+  const stats = simulationCache.stats();
+  console.log(`${stats.hits > hits ? '🚀 Cache HIT' : '✅ Cache MISS'} - response for ${sources.length} source(s) in ${(performance.now() - startTime).toFixed(1)}ms (cache: ${stats.entries} entries, ${(stats.bytes / 2 ** 20).toFixed(1)}/${(stats.maxBytes / 2 ** 20).toFixed(0)}MB)`);
+
   return finalResponse;
 }
 
+/**
+ * Simulate summed room acoustic response including phase interactions for a single subwoofer.
+ * Now with memoization for performance optimization.
+ */
+export function simulateRoomResponse(
+  subPos: Point, 
+  listenerPos: Point, 
+  L: number, 
+  W: number, 
+  H: number, 
+  maxModeOrder = 10, // Max order for n, m, l
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR,
+  frequencyGrid: FrequencyGrid = DEFAULT_FREQUENCY_GRID
+): ModeResponse[] {
+  const source: SubwooferSource = { id: 'sub', position: subPos, gainDb: 0, delayMs: 0, polarity: 1 };
+  return simulateMultiSubResponse([source], listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid);
+}
+
+/* ---------- Speaker System: Mains + Subs with Crossover ---------- */
+
+export type CrossoverType = 'linkwitz-riley' | 'butterworth';
+
+export interface CrossoverSettings {
+  type: CrossoverType;
+  frequency: number; // Crossover frequency in Hz
+  order: number;     // Filter order, 6 dB/octave per order (Linkwitz-Riley orders are even)
+}
+
+/**
+ * Sources for a full speaker system. Mains use the same source model as the
+ * subs (position, gain, delay, polarity) and are high-passed at the crossover,
+ * while the subs are low-passed.
+ */
+export interface SpeakerSystem {
+  subwoofers: SubwooferSource[];
+  mains: SubwooferSource[];
+  crossover: CrossoverSettings;
+  mainsGainLinear?: (freq: number) => number; // Anechoic magnitude of the mains, e.g. speakerGainLinear
+}
+
+export interface SpeakerSystemResponse {
+  total: ModeResponse[];
+  mains: ModeResponse[]; // High-passed mains on their own
+  subs: ModeResponse[];  // Low-passed subs on their own
+  complex: ComplexResponsePoint[]; // Complex sum at the listener
+}
+
+/**
+ * Complex response of one crossover branch at a frequency.
+ * Butterworth filters use the normalized Butterworth poles, Linkwitz-Riley
+ * filters are two cascaded Butterworth filters of half the order.
+ */
+export function calculateCrossoverFilter(
+  freq: number,
+  crossover: CrossoverSettings,
+  kind: 'lowpass' | 'highpass'
+): { re: number; im: number } {
+  const isLinkwitzRiley = crossover.type === 'linkwitz-riley';
+  const order = isLinkwitzRiley
+    ? Math.max(2, 2 * Math.round(crossover.order / 2))
+    : Math.max(1, Math.round(crossover.order));
+  const butterworthOrder = isLinkwitzRiley ? order / 2 : order;
+
+  // Normalized complex frequency s = j*f/fc, or 1/s for the high-pass transform
+  const ratio = freq / crossover.frequency;
+  const sRe = 0;
+  const sIm = kind === 'lowpass' ? ratio : -1 / Math.max(ratio, 1e-9);
+
+  let re = 1;
+  let im = 0;
+  for (let k = 1; k <= butterworthOrder; k++) {
+    // Pole p_k = e^(j*pi*(2k + N - 1) / (2N)); section = -p_k / (s - p_k)
+    const angle = Math.PI * (2 * k + butterworthOrder - 1) / (2 * butterworthOrder);
+    const pRe = Math.cos(angle);
+    const pIm = Math.sin(angle);
+    const numRe = -pRe;
+    const numIm = -pIm;
+    const denRe = sRe - pRe;
+    const denIm = sIm - pIm;
+    const denMag = denRe ** 2 + denIm ** 2;
+    const sectionRe = (numRe * denRe + numIm * denIm) / denMag;
+    const sectionIm = (numIm * denRe - numRe * denIm) / denMag;
+    const nextRe = re * sectionRe - im * sectionIm;
+    im = re * sectionIm + im * sectionRe;
+    re = nextRe;
+  }
+
+  if (isLinkwitzRiley) {
+    const squaredRe = re * re - im * im;
+    im = 2 * re * im;
+    re = squaredRe;
+  }
+  return { re, im };
+}
+
+/**
+ * Sum the subwoofer and mains responses through the crossover (and the mains'
+ * anechoic gain); either may be missing. Shared by the mode sum and the wave simulation.
+ */
+export function combineSpeakerSystemBranches(
+  subsComplex: ComplexResponsePoint[] | null,
+  mainsComplex: ComplexResponsePoint[] | null,
+  crossover: CrossoverSettings,
+  mainsGainLinear?: (freq: number) => number
+): SpeakerSystemResponse {
+  const freqs = (subsComplex ?? mainsComplex ?? []).map(point => point.freq);
+
+  const subsBranch: ComplexResponsePoint[] = [];
+  const mainsBranch: ComplexResponsePoint[] = [];
+  freqs.forEach((freq, i) => {
+    const lowpass = calculateCrossoverFilter(freq, crossover, 'lowpass');
+    const highpass = calculateCrossoverFilter(freq, crossover, 'highpass');
+    const mainsGain = mainsGainLinear ? mainsGainLinear(freq) : 1;
+    const sub = subsComplex?.[i] ?? { re: 0, im: 0 };
+    const main = mainsComplex?.[i] ?? { re: 0, im: 0 };
+    subsBranch.push({
+      freq,
+      re: sub.re * lowpass.re - sub.im * lowpass.im,
+      im: sub.re * lowpass.im + sub.im * lowpass.re,
+    });
+    mainsBranch.push({
+      freq,
+      re: mainsGain * (main.re * highpass.re - main.im * highpass.im),
+      im: mainsGain * (main.re * highpass.im + main.im * highpass.re),
+    });
+  });
+
+  const complex = freqs.map((freq, i) => ({
+    freq,
+    re: subsBranch[i].re + mainsBranch[i].re,
+    im: subsBranch[i].im + mainsBranch[i].im,
+  }));
+  const toDb = (points: ComplexResponsePoint[]) => points.map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+
+  return { total: toDb(complex), mains: toDb(mainsBranch), subs: toDb(subsBranch), complex };
+}
+
+/**
+ * Simulate mains and subs through the crossover, summed complexly at the
+ * listener so cancellation in the crossover region is preserved.
+ */
+export function simulateSpeakerSystemResponse(
+  system: SpeakerSystem,
+  listenerPos: Point,
+  L: number,
+  W: number,
+  H: number,
+  maxModeOrder = 10,
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR,
+  frequencyGrid: FrequencyGrid = DEFAULT_FREQUENCY_GRID
+): SpeakerSystemResponse {
+  const { subwoofers, mains, crossover, mainsGainLinear } = system;
+  const startTime = performance.now();
+
+  const subsComplex = subwoofers.length > 0
+    ? calculateComplexResponse(subwoofers, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid)
+    : null;
+  const mainsComplex = mains.length > 0
+    ? calculateComplexResponse(mains, listenerPos, L, W, H, maxModeOrder, baseQFactor, frequencyGrid)
+    : null;
+  const response = combineSpeakerSystemBranches(subsComplex, mainsComplex, crossover, mainsGainLinear);
+
+  console.log(`🔊 Speaker system response (${mains.length} mains + ${subwoofers.length} subs, ${crossover.type} ${crossover.order} @ ${crossover.frequency}Hz) in ${(performance.now() - startTime).toFixed(1)}ms`);
+  return response;
+}
+
 /**
  * Ensure position is within room boundaries
  */
@@ -254,7 +1095,7 @@ export function clampToRoom(point: Point, room: RoomDimensions): Point {
  */
 export function calculateSchroederFrequency(
   room: RoomDimensions,
-  averageAbsorption: number = 0.15 // Default absorption coefficient
+  averageAbsorption: number | ((freq: number) => number) = 0.15 // Absorption coefficient, or one per frequency
 ): number {
   const { L, W, H } = room;
   const volume = L * W * H; // Room volume in m³
@@ -264,14 +1105,31 @@ export function calculateSchroederFrequency(
   // Estimate RT60 using Sabine's formula: RT60 = 0.161 * V / A
   // Where A is total absorption area = α * S (α = absorption coefficient, S = surface area)
   const surfaceArea = 2 * (L * W + L * H + W * H);
-  const totalAbsorption = Math.max(0.01, averageAbsorption) * surfaceArea;
-  const rt60 = 0.161 * volume / totalAbsorption;
-  
-  // Clamp RT60 to reasonable values for rooms
-  const clampedRT60 = Math.max(0.2, Math.min(1.5, rt60));
-  
-  // Calculate Schroeder frequency
-  const schroederFreq = 2000 * Math.sqrt(clampedRT60 / volume);
+  const schroederAt = (alpha: number) => {
+    const totalAbsorption = Math.max(0.01, alpha) * surfaceArea;
+    const rt60 = 0.161 * volume / totalAbsorption;
+    
+    // Clamp RT60 to reasonable values for rooms
+    const clampedRT60 = Math.max(0.2, Math.min(1.5, rt60));
+    
+    return 2000 * Math.sqrt(clampedRT60 / volume);
+  };
+
+  let schroederFreq: number;
+  if (typeof averageAbsorption === 'number') {
+    schroederFreq = schroederAt(averageAbsorption);
+  } else {
+    // The RT60 that matters is the one at the Schroeder frequency itself: iterate to a fixed point
+    schroederFreq = schroederAt(averageAbsorption(200));
+    for (let i = 0; i < 10; i++) {
+      const next = schroederAt(averageAbsorption(schroederFreq));
+      if (Math.abs(next - schroederFreq) < 0.05) {
+        schroederFreq = next;
+        break;
+      }
+      schroederFreq = next;
+    }
+  }
   
   return Math.round(schroederFreq * 10) / 10; // Round to 1 decimal place
 }
@@ -399,6 +1257,27 @@ export function findBracket(arr: number[], value: number): readonly [number, num
   return [arr.length - 2, arr.length - 1] as const; 
 }
 
+// Hash of each speaker data object, computed once per object
+const speakerHashes = new WeakMap<SpeakerData, string>();
+
+/**
+ * Interpolated curve gain from the speaker cache, keyed on the speaker data,
+ * curve and frequency.
+ */
+function cachedSpeakerGain(speaker: SpeakerData, curveName: string, freq: number, interpolateGain: () => number): number {
+  let speakerHash = speakerHashes.get(speaker);
+  if (!speakerHash) {
+    speakerHash = stableHash({ freqs: speaker.freqs, responses: speaker.responses });
+    speakerHashes.set(speaker, speakerHash);
+  }
+  const key = `${speakerHash}|${curveName}|${freq}`;
+  const cached = speakerCache.get(key);
+  if (cached !== undefined) return cached;
+  const gain = interpolateGain();
+  speakerCache.set(key, gain);
+  return gain;
+}
+
 export function speakerGainLinear(speaker: SpeakerData | null, freq: number): number { // Removed angleH, angleV
   if (!speaker || !speaker.responses || !speaker.responses.ListeningWindow || speaker.responses.ListeningWindow.length === 0) {
     return 1; /* fallback flat (0 dB gain) if data is missing or ListeningWindow curve is not present */
@@ -414,16 +1293,33 @@ export function speakerGainLinear(speaker: SpeakerData | null, freq: number): nu
     return 1; // No data
   }
 
-  const [loF, hiF] = findBracket(freqs, freq);
+  return cachedSpeakerGain(speaker, 'ListeningWindow', freq, () => {
+    const [loF, hiF] = findBracket(freqs, freq);
 
-  // Get dB values at the bracket frequencies
-  const dbAtLoF = listeningWindowCurve[loF];
-  const dbAtHiF = listeningWindowCurve[hiF];
-  
-  // Interpolate the dB value for the given frequency
-  const interpolatedDb = interpolate(freq, freqs[loF], freqs[hiF], dbAtLoF, dbAtHiF);
-  
-  return dBToLinear(interpolatedDb);
+    // Get dB values at the bracket frequencies
+    const dbAtLoF = listeningWindowCurve[loF];
+    const dbAtHiF = listeningWindowCurve[hiF];
+
+    // Interpolate the dB value for the given frequency
+    const interpolatedDb = interpolate(freq, freqs[loF], freqs[hiF], dbAtLoF, dbAtHiF);
+
+    return dBToLinear(interpolatedDb);
+  });
+}
+
+/**
+ * Linear gain of any spinorama curve (e.g. "OnAxis", "EarlyReflections"),
+ * falling back to the listening window when the curve is missing.
+ */
+export function speakerCurveGainLinear(speaker: SpeakerData | null, curveName: string, freq: number): number {
+  const curve = speaker?.responses?.[curveName];
+  if (!speaker || !curve || curve.length === 0 || curve.length !== speaker.freqs.length) {
+    return speakerGainLinear(speaker, freq);
+  }
+  return cachedSpeakerGain(speaker, curveName, freq, () => {
+    const [loF, hiF] = findBracket(speaker.freqs, freq);
+    return dBToLinear(interpolate(freq, speaker.freqs[loF], speaker.freqs[hiF], curve[loF], curve[hiF]));
+  });
 }
 
 /* ---------- EQ Generation System ---------- */
@@ -432,7 +1328,7 @@ export interface EQBand {
   frequency: number; // Center frequency in Hz
   gain: number;      // Gain in dB (positive = boost, negative = cut)
   q: number;         // Q factor (bandwidth)
-  type: 'peak' | 'highpass' | 'lowpass' | 'shelf'; // Filter type
+  type: 'peak' | 'highpass' | 'lowpass' | 'shelf' | 'lowshelf' | 'highshelf' | 'notch' | 'allpass'; // Filter type, 'shelf' is a low shelf
 }
 
 export interface EQSettings {
@@ -441,6 +1337,7 @@ export interface EQSettings {
   maxBoost: number;   // Maximum boost allowed in dB
   maxCut: number;     // Maximum cut allowed in dB
   smoothing: number;  // Smoothing factor (0-1)
+  sampleRate?: number; // DSP sample rate the bands are realized at, default 48 kHz
 }
 
 export interface EQResponse {
@@ -456,22 +1353,37 @@ export interface DetectedPeak {
   type: 'mode' | 'resonance' | 'dip';
 }
 
+/**
+ * Points either side of a response point that span about `spanHz` at 50 Hz,
+ * so the detection windows keep their width on coarse and log-spaced grids.
+ */
+function gridNeighbourhood(grid: FrequencyGrid, spanHz: number): number {
+  const points = grid.spacing === 'log'
+    ? Math.log2((50 + spanHz) / 50) * (grid.pointsPerOctave ?? 48)
+    : spanHz / (grid.stepHz ?? 1);
+  return Math.max(1, Math.round(points));
+}
+
 /**
  * Detect peaks and dips in the room response for targeted correction
  * ENHANCED: Much more aggressive detection with lower thresholds
+ * The response is resampled onto `frequencyGrid` when given; otherwise its own grid is used.
  */
 export function detectResponseFeatures(
   roomResponse: ModeResponse[],
-  schroederFreq: number
+  schroederFreq: number,
+  frequencyGrid?: FrequencyGrid
 ): DetectedPeak[] {
   const features: DetectedPeak[] = [];
-  const smoothingWindow = 3; // Increased from 2 back to 3 for more smoothing
+  const response = frequencyGrid ? resampleResponse(roomResponse, frequencyGrid) : roomResponse;
+  const neighbourhood = gridNeighbourhood(frequencyGrid ?? inferFrequencyGrid(roomResponse), 3); // 3 points on the 1 Hz grid
+  const smoothingWindow = neighbourhood; // Increased from 2 back to 3 for more smoothing
   
   // Smooth the response slightly to avoid noise-induced false peaks
-  const smoothedResponse = roomResponse.map((point, i) => {
+  const smoothedResponse = response.map((point, i) => {
     const start = Math.max(0, i - smoothingWindow);
-    const end = Math.min(roomResponse.length - 1, i + smoothingWindow);
-    const sum = roomResponse.slice(start, end + 1).reduce((acc, p) => acc + p.db, 0);
+    const end = Math.min(response.length - 1, i + smoothingWindow);
+    const sum = response.slice(start, end + 1).reduce((acc, p) => acc + p.db, 0);
     return {
       freq: point.freq,
       db: sum / (end - start + 1)
@@ -479,21 +1391,18 @@ export function detectResponseFeatures(
   });
 
   // Find peaks and dips with MORE CONSERVATIVE detection to avoid over-detection
-  for (let i = 3; i < smoothedResponse.length - 3; i++) { // Increased from 2 to 3 for wider analysis window
+  for (let i = neighbourhood; i < smoothedResponse.length - neighbourhood; i++) { // Increased from 2 to 3 for wider analysis window
     const current = smoothedResponse[i];
-    const prev3 = smoothedResponse[i - 3];
-    const prev2 = smoothedResponse[i - 2];
-    const prev1 = smoothedResponse[i - 1];
-    const next1 = smoothedResponse[i + 1];
-    const next2 = smoothedResponse[i + 2];
-    const next3 = smoothedResponse[i + 3];
+    const neighbours = [
+      ...smoothedResponse.slice(i - neighbourhood, i),
+      ...smoothedResponse.slice(i + 1, i + neighbourhood + 1),
+    ].map(point => point.db);
     
     // Check for peak (local maximum) - more conservative
-    if (current.db > prev3.db && current.db > prev2.db && current.db > prev1.db && 
-        current.db > next1.db && current.db > next2.db && current.db > next3.db) {
+    if (neighbours.every(db => current.db > db)) {
       
       // Calculate prominence (how much it stands out)
-      const localMin = Math.min(prev3.db, prev2.db, prev1.db, next1.db, next2.db, next3.db);
+      const localMin = Math.min(...neighbours);
       const prominence = current.db - localMin;
       
       // LESS aggressive thresholds - only catch significant peaks
@@ -513,10 +1422,9 @@ export function detectResponseFeatures(
     }
     
     // Check for dip (local minimum) - more conservative
-    if (current.db < prev3.db && current.db < prev2.db && current.db < prev1.db && 
-        current.db < next1.db && current.db < next2.db && current.db < next3.db) {
+    if (neighbours.every(db => current.db < db)) {
       
-      const localMax = Math.max(prev3.db, prev2.db, prev1.db, next1.db, next2.db, next3.db);
+      const localMax = Math.max(...neighbours);
       const prominence = localMax - current.db;
       
       // LESS aggressive thresholds for dips too
@@ -669,9 +1577,10 @@ function estimatePeakWidth(response: ModeResponse[], centerIndex: number): numbe
  * Pass 4: Ultra-fine detail corrections (15% of bands)
  * Each pass includes 250ms delay to simulate real measurement cycles
  * UPDATED: Much more aggressive and sensitive correction with 4th pass
+ * Pass several weighted seat responses to fit one band set to all of them (see combineSeatResponses).
  */
 export function generateOptimalEQ(
-  roomResponseWithTilt: ModeResponse[], // This has spectral tilt applied
+  roomResponseWithTilt: ModeResponse[] | SeatEQResponse[], // This has spectral tilt applied
   targetResponse: ModeResponse[],
   options: {
     numBands?: number;
@@ -685,6 +1594,7 @@ export function generateOptimalEQ(
     listenerPos?: Point;
     roomDimensions?: { L: number; W: number; H: number };
     baseQFactor?: number;
+    sampleRate?: number;
   } = {}
 ): Promise<EQSettings> {
   const {
@@ -698,16 +1608,27 @@ export function generateOptimalEQ(
     subPos,
     listenerPos,
     roomDimensions,
-    baseQFactor = DEFAULT_Q_FACTOR
+    baseQFactor = DEFAULT_Q_FACTOR,
+    sampleRate = DEFAULT_SAMPLE_RATE
   } = options;
 
-  if (!roomResponseWithTilt.length || !targetResponse.length) {
+  const seats = toSeatResponses(roomResponseWithTilt);
+  if (seats.length > 1) {
+    const { response, localNullFreqs } = combineSeatResponses(seats, targetResponse);
+    console.log(`💺 Multi-seat EQ: ${seats.length} seats, ${localNullFreqs.length} points with a null at only some seats`);
+    return generateOptimalEQ(response, targetResponse, options)
+      .then(eq => ({ ...eq, bands: limitBoostIntoLocalNulls(eq.bands, localNullFreqs, sampleRate) }));
+  }
+  const roomResponse = seats[0].response;
+
+  if (!roomResponse.length || !targetResponse.length) {
     return Promise.resolve({
       bands: [],
       enabled: false,
       maxBoost,
       maxCut,
-      smoothing
+      smoothing,
+      sampleRate
     });
   }
 
@@ -715,7 +1636,7 @@ export function generateOptimalEQ(
   console.log(`🎚️ Target: PRECISION match to Harman curve with maximum sensitivity`);
   
   // Use the same response that target alignment used (roomResponseWithTilt)
-  const analysisResponse = roomResponseWithTilt;
+  const analysisResponse = roomResponse;
 
   return new Promise((resolve) => {
     const executeIterativePasses = async () => {
@@ -745,7 +1666,8 @@ export function generateOptimalEQ(
         enabled: true,
       maxBoost,
       maxCut,
-      smoothing
+      smoothing,
+      sampleRate
     };
       
       const responseAfterPass1 = applyEQToResponse(analysisResponse, pass1EQSettings);
@@ -807,7 +1729,8 @@ export function generateOptimalEQ(
         enabled: true,
         maxBoost,
         maxCut,
-        smoothing
+        smoothing,
+        sampleRate
       };
       
       const responseAfterPass2 = applyEQToResponse(analysisResponse, pass2EQSettings);
@@ -853,7 +1776,8 @@ export function generateOptimalEQ(
           enabled: true,
           maxBoost,
           maxCut,
-          smoothing
+          smoothing,
+          sampleRate
         };
         
         const responseAfterPass3 = applyEQToResponse(analysisResponse, pass3EQSettings);
@@ -900,7 +1824,8 @@ export function generateOptimalEQ(
               enabled: true,
               maxBoost,
               maxCut,
-              smoothing
+              smoothing,
+              sampleRate
             };
             
             const finalCorrectedResponse = applyEQToResponse(analysisResponse, finalEQSettings);
@@ -924,7 +1849,8 @@ export function generateOptimalEQ(
             enabled: true,
             maxBoost,
             maxCut,
-            smoothing
+            smoothing,
+            sampleRate
           });
         } else {
           // No bands left for Pass 4
@@ -937,7 +1863,8 @@ export function generateOptimalEQ(
             enabled: true,
             maxBoost,
             maxCut,
-            smoothing
+            smoothing,
+            sampleRate
           });
         }
       } else {
@@ -951,7 +1878,8 @@ export function generateOptimalEQ(
           enabled: true,
           maxBoost,
           maxCut,
-          smoothing
+          smoothing,
+          sampleRate
         });
       }
     };
@@ -963,7 +1891,8 @@ export function generateOptimalEQ(
         enabled: false,
         maxBoost,
         maxCut,
-        smoothing
+        smoothing,
+        sampleRate
       });
     });
   });
@@ -1639,75 +2568,83 @@ function calculateEQStatistics(bands: EQBand[], features: EnhancedFeature[]) {
 }
 
 /**
- * Calculate the response of a single EQ band at a given frequency
- * Using proper parametric EQ math with full gain range
+ * Biquad coefficients of an EQ band at a sample rate (RBJ cookbook).
  */
-function calculateBandResponse(freq: number, band: EQBand): number {
-  if (band.type !== 'peak') {
-    return 0;
-  }
-
-  const f0 = band.frequency;
-  const gain = band.gain;
-  const q = band.q;
+export function eqBandBiquad(band: EQBand, sampleRate: number = DEFAULT_SAMPLE_RATE): BiquadCoefficients {
+  const type: BiquadType = band.type === 'shelf' ? 'lowshelf' : band.type;
+  return designBiquad(type, band.frequency, band.q, band.gain, sampleRate);
+}
 
-  if (freq <= 0 || f0 <= 0 || q <= 0 || Math.abs(gain) < 0.01) {
+/**
+ * Calculate the response of a single EQ band at a given frequency in dB, as the
+ * digital biquad a DSP running at `sampleRate` realizes it.
+ * Exported for optimizers that evaluate EQ curves in a tight loop.
+ */
+export function calculateBandResponse(freq: number, band: EQBand, sampleRate: number = DEFAULT_SAMPLE_RATE): number {
+  if (freq <= 0 || band.frequency <= 0 || band.q <= 0) {
     return 0;
   }
-
-  // Professional parametric EQ bell filter formula
-  const freqRatio = freq / f0;
-  const qTerm = q * (freqRatio - 1/freqRatio);
-  const denominator = 1 + (qTerm * qTerm);
-  
-  if (denominator <= 0) {
+  // Gain-based filters without gain are transparent
+  const usesGain = band.type === 'peak' || band.type === 'shelf' || band.type === 'lowshelf' || band.type === 'highshelf';
+  if (usesGain && Math.abs(band.gain) < 0.01) {
     return 0;
   }
-  
-  // Standard bell filter transfer function:
-  // H(f) = 1 + (10^(gain_dB/20) - 1) / (1 + Q²((f/f0) - (f0/f))²)
-  const linearGain = Math.pow(10, gain / 20);
-  const response = 1 + (linearGain - 1) / denominator;
-  
-  if (response <= 1e-10) {
-    return -200; // Very large cut, but not infinite
-  }
-  
-  // Convert to dB
-  const responseDb = 20 * Math.log10(response);
-  
-  // Debug specific bands for troubleshooting
-  if ((freq >= 33 && freq <= 35) && Math.abs(gain) > 5) {
-    console.log(`  🔧 EQ Band ${f0.toFixed(1)}Hz (${gain.toFixed(1)}dB, Q=${q.toFixed(1)}) at ${freq.toFixed(1)}Hz:`);
-    console.log(`    freqRatio=${freqRatio.toFixed(3)}, qTerm=${qTerm.toFixed(3)}, denominator=${denominator.toFixed(3)}`);
-    console.log(`    linearGain=${linearGain.toFixed(3)}, response=${response.toFixed(3)}, responseDb=${responseDb.toFixed(3)}dB`);
-  }
-  
+
+  const responseDb = biquadResponseDb(eqBandBiquad(band, sampleRate), freq, sampleRate);
+
   // Safety checks for invalid results
   if (!isFinite(responseDb) || isNaN(responseDb)) {
     return 0;
   }
-  
-  // REMOVED: Conservative clamping that was limiting EQ effectiveness
-  // OLD: return Math.max(-6, Math.min(6, responseDb));
-  // NEW: Allow full range but with reasonable safety limits
+
+  // Allow the full range with reasonable safety limits (notches and passes reach the lower one)
   return Math.max(-50, Math.min(20, responseDb));
 }
 
 /**
- * Clear the response cache (useful for debugging or memory management)
+ * Complex response of all EQ bands in series at a frequency, including the
+ * phase of the passes and all-passes.
  */
-export function clearResponseCache(): void {
-  responseCache.clear();
+export function calculateEQComplexResponse(freq: number, eqSettings: EQSettings): BiquadResponse {
+  const sampleRate = eqSettings.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  if (!eqSettings.enabled) return { re: 1, im: 0 };
+  return cascadeComplexResponse(eqSettings.bands.map(band => eqBandBiquad(band, sampleRate)), freq, sampleRate);
 }
 
 /**
- * Get cache statistics for debugging
+ * Clear the simulation, EQ and speaker caches and the mode tables (useful for
+ * debugging or memory management). Persisted simulations are kept unless
+ * `persisted` is set.
  */
-export function getCacheStats(): { size: number; keys: string[] } {
+export function clearResponseCache({ persisted = false }: { persisted?: boolean } = {}): void {
+  simulationCache.clear({ persisted });
+  eqCache.clear();
+  speakerCache.clear();
+  modeTableCache.clear();
+}
+
+/**
+ * Split a total memory budget (bytes) across the simulation, EQ, speaker and
+ * mode table caches; entries beyond a smaller budget are evicted right away.
+ */
+export function setCacheMemoryBudget(totalBytes: number): void {
+  simulationCache.resize(totalBytes * CACHE_BUDGET_SHARES.simulation);
+  eqCache.resize(totalBytes * CACHE_BUDGET_SHARES.eq);
+  speakerCache.resize(totalBytes * CACHE_BUDGET_SHARES.speaker);
+  modeTableCache.resize(totalBytes * CACHE_BUDGET_SHARES.modeTable);
+  console.log(`🧮 Cache memory budget set to ${(totalBytes / 2 ** 20).toFixed(1)}MB`);
+}
+
+/**
+ * Get cache statistics for debugging: entries of the simulation cache, then
+ * hit/miss/eviction counters of every cache and of the mode tables.
+ */
+export function getCacheStats(): { size: number; keys: string[]; caches: LRUCacheStats[]; modeTables: ModeTableStats } {
   return {
-    size: responseCache.size,
-    keys: Array.from(responseCache.keys())
+    size: simulationCache.stats().entries,
+    keys: simulationCache.keys(),
+    caches: getAllCacheStats(),
+    modeTables: getModeTableStats()
   };
 }
 
@@ -1762,35 +2699,96 @@ export function testEQImprovements(): void {
   });
 }
 
-/**
- * Analyze error between current response and target curve
- */
-export function analyzeTargetError(
-  currentResponse: ModeResponse[],
-  targetResponse: ModeResponse[]
-): {
+export interface TargetErrorAnalysis {
   rmsError: number;
   maxError: number;
   avgError: number;
   errorByFrequency: Array<{ freq: number; error: number; currentDb: number; targetDb: number }>;
+  // Only present when several seat responses were analyzed
+  seatErrors?: Array<{ seatIndex: number; rmsError: number; maxError: number; avgError: number }>;
+  averageSeatRmsError?: number; // Mean of the per-seat RMS errors
+}
+
+/**
+ * Spatial average and seat-to-seat standard deviation of several seat responses.
+ * The average is an energy (power) average; the standard deviation is taken on the dB values.
+ * Responses on other frequency grids are interpolated onto the first one.
+ */
+export function calculateSeatStatistics(seatResponses: ModeResponse[][]): {
+  average: ModeResponse[];
+  standardDeviation: ModeResponse[];
 } {
-  const errors: Array<{ freq: number; error: number; currentDb: number; targetDb: number }> = [];
+  if (seatResponses.length === 0) {
+    return { average: [], standardDeviation: [] };
+  }
+
+  const reference = seatResponses[0];
+  const average: ModeResponse[] = [];
+  const standardDeviation: ModeResponse[] = [];
+
+  reference.forEach((point, i) => {
+    const levels = seatResponses.map(response => (
+      response[i]?.freq === point.freq ? response[i].db : interpolateResponseDb(response, point.freq) ?? point.db
+    ));
+    const meanPower = levels.reduce((sum, db) => sum + 10 ** (db / 10), 0) / levels.length;
+    const meanDb = levels.reduce((sum, db) => sum + db, 0) / levels.length;
+    const variance = levels.reduce((sum, db) => sum + (db - meanDb) ** 2, 0) / levels.length;
+
+    average.push({ freq: point.freq, db: 10 * Math.log10(Math.max(1e-20, meanPower)) });
+    standardDeviation.push({ freq: point.freq, db: Math.sqrt(variance) });
+  });
+
+  return { average, standardDeviation };
+}
+
+/**
+ * Analyze error between current response and target curve.
+ * Pass an array of seat responses to get per-seat errors as well; the
+ * headline figures are then computed on the spatial average.
+ * The target is interpolated at the response frequencies, so the two may use
+ * different grids; with `frequencyGrid` both are resampled onto it first.
+ */
+export function analyzeTargetError(
+  currentResponse: ModeResponse[] | ModeResponse[][],
+  targetResponse: ModeResponse[],
+  frequencyGrid?: FrequencyGrid
+): TargetErrorAnalysis {
+  if (currentResponse.length > 0 && Array.isArray(currentResponse[0])) {
+    const seatResponses = (currentResponse as ModeResponse[][])
+      .map(response => (frequencyGrid ? resampleResponse(response, frequencyGrid) : response));
+    const seatErrors = seatResponses.map((response, seatIndex) => {
+      const { rmsError, maxError, avgError } = analyzeTargetError(response, targetResponse);
+      return { seatIndex, rmsError, maxError, avgError };
+    });
+    const { average } = calculateSeatStatistics(seatResponses);
+
+    return {
+      ...analyzeTargetError(average, targetResponse),
+      seatErrors,
+      averageSeatRmsError: seatErrors.reduce((sum, e) => sum + e.rmsError, 0) / seatErrors.length
+    };
+  }
+
+  const errors: TargetErrorAnalysis['errorByFrequency'] = [];
   let sumSquaredError = 0;
   let maxError = 0;
   let sumError = 0;
   let validPoints = 0;
 
-  for (const currentPoint of currentResponse) {
-    const targetPoint = targetResponse.find(t => Math.abs(t.freq - currentPoint.freq) < 1);
-    if (targetPoint) {
-      const error = currentPoint.db - targetPoint.db;
+  const response = frequencyGrid
+    ? resampleResponse(currentResponse as ModeResponse[], frequencyGrid)
+    : currentResponse as ModeResponse[];
+  for (const currentPoint of response) {
+    const targetDb = interpolateResponseDb(targetResponse, currentPoint.freq);
+    if (targetDb !== null) {
+      const error = currentPoint.db - targetDb;
       const absError = Math.abs(error);
       
       errors.push({
         freq: currentPoint.freq,
         error: error,
         currentDb: currentPoint.db,
-        targetDb: targetPoint.db
+        targetDb
       });
       
       sumSquaredError += error * error;
@@ -1811,6 +2809,157 @@ export function analyzeTargetError(
   };
 }
 
+/* ---------- Multi-seat EQ ---------- */
+
+/** One listening position for multi-seat EQ */
+export interface SeatEQResponse {
+  response: ModeResponse[];
+  weight?: number; // Relative weight in the combined error, default 1
+}
+
+export interface CombinedSeatResponse {
+  response: ModeResponse[]; // Target plus the weighted mean seat error, on the first seat's grid
+  localNullFreqs: number[]; // Points where only some seats sit in a null: the EQ must not boost here
+}
+
+export interface SeatEQError {
+  rmsError: number;       // Weighted mean of the per-seat RMS errors
+  maxError: number;       // Largest error at any seat
+  seatRmsErrors: number[];
+}
+
+const LOCAL_NULL_THRESHOLD_DB = 6;      // Below the target by this much counts as a null
+const LOCAL_NULL_BOOST_TOLERANCE_DB = 0.5;
+const MAX_BOOST_LIMIT_STEPS = 200;
+
+/** A single response becomes one seat of weight 1 */
+export function toSeatResponses(responses: ModeResponse[] | SeatEQResponse[]): SeatEQResponse[] {
+  if (responses.length > 0 && 'response' in responses[0]) return responses as SeatEQResponse[];
+  return [{ response: responses as ModeResponse[], weight: 1 }];
+}
+
+/**
+ * Collapse several seats into one response to fit an EQ to. For a common EQ curve the
+ * weighted squared error across seats is smallest at the weighted mean seat error, so
+ * the EQ is fitted to target + mean error. A null at only some seats counts no deeper
+ * than the null threshold (it would otherwise pull the mean into a boost) and is
+ * reported in localNullFreqs; a null shared by every seat is left as is.
+ */
+export function combineSeatResponses(
+  seats: SeatEQResponse[],
+  targetResponse: ModeResponse[],
+  nullThresholdDb: number = LOCAL_NULL_THRESHOLD_DB
+): CombinedSeatResponse {
+  const active = seats.filter(seat => (seat.weight ?? 1) > 0 && seat.response.length > 0);
+  if (active.length === 0) return { response: [], localNullFreqs: [] };
+
+  const reference = active[0].response;
+  const weights = active.map(seat => seat.weight ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const localNullFreqs: number[] = [];
+
+  const response = reference.map((point, i) => {
+    const levels = active.map(seat => (
+      seat.response[i]?.freq === point.freq ? seat.response[i].db : interpolateResponseDb(seat.response, point.freq) ?? point.db
+    ));
+    const targetDb = interpolateResponseDb(targetResponse, point.freq);
+    if (targetDb === null) {
+      return { freq: point.freq, db: levels.reduce((sum, db, s) => sum + weights[s] * db, 0) / totalWeight };
+    }
+
+    const errors = levels.map(db => db - targetDb);
+    const nulled = errors.filter(error => error < -nullThresholdDb).length;
+    const isLocalNull = nulled > 0 && nulled < errors.length;
+    if (isLocalNull) localNullFreqs.push(point.freq);
+
+    const meanError = errors.reduce((sum, error, s) => (
+      sum + weights[s] * (isLocalNull ? Math.max(error, -nullThresholdDb) : error)
+    ), 0) / totalWeight;
+    return { freq: point.freq, db: targetDb + meanError };
+  });
+
+  return { response, localNullFreqs };
+}
+
+/**
+ * Round the boosts a limiter turned down to 0.1 dB (downwards) and drop those left
+ * without a boost. `reduced` holds the same bands as `original`, in the same order.
+ */
+export function settleReducedBoosts(original: EQBand[], reduced: EQBand[]): EQBand[] {
+  return reduced
+    .map((band, i) => (band.gain < original[i].gain ? { ...band, gain: Math.floor(band.gain * 10) / 10 } : band))
+    .filter((band, i) => !(original[i].gain > 0 && band.gain < 0.1));
+}
+
+/**
+ * Turn down boosting bands until the summed EQ stays within a small tolerance at
+ * every single-seat null, so no seat's null is filled at the cost of the others.
+ * Each step reduces the band boosting most at the worst point by the excess.
+ */
+export function limitBoostIntoLocalNulls(
+  bands: EQBand[],
+  localNullFreqs: number[],
+  sampleRate: number = DEFAULT_SAMPLE_RATE,
+  toleranceDb: number = LOCAL_NULL_BOOST_TOLERANCE_DB
+): EQBand[] {
+  if (localNullFreqs.length === 0) return bands;
+  const limited = bands.map(band => ({ ...band }));
+  const eqDbAt = (freq: number) => limited.reduce((sum, band) => sum + calculateBandResponse(freq, band, sampleRate), 0);
+
+  for (let step = 0; step < MAX_BOOST_LIMIT_STEPS; step++) {
+    let worstFreq = 0;
+    let worstDb = toleranceDb;
+    for (const freq of localNullFreqs) {
+      const db = eqDbAt(freq);
+      if (db > worstDb) {
+        worstDb = db;
+        worstFreq = freq;
+      }
+    }
+    if (worstDb <= toleranceDb) break;
+
+    let culprit: EQBand | null = null;
+    let culpritDb = 0;
+    for (const band of limited) {
+      const db = band.gain > 0 ? calculateBandResponse(worstFreq, band, sampleRate) : 0;
+      if (db > culpritDb) {
+        culprit = band;
+        culpritDb = db;
+      }
+    }
+    if (!culprit) break; // The boost does not come from a gain band
+    culprit.gain = Math.max(0, culprit.gain * (1 - (worstDb - toleranceDb + 0.05) / culpritDb));
+  }
+
+  const result = settleReducedBoosts(bands, limited);
+  const reduced = limited.filter((band, i) => band.gain < bands[i].gain).length;
+  if (reduced > 0) console.log(`💺 Turned down ${reduced} boost bands at single-seat nulls, ${bands.length - result.length} removed`);
+  return result;
+}
+
+/**
+ * Error of every seat against the target, optionally after an EQ, and the
+ * seat-weighted mean of the RMS errors.
+ */
+export function analyzeSeatEQError(
+  seats: SeatEQResponse[],
+  targetResponse: ModeResponse[],
+  eqSettings?: EQSettings
+): SeatEQError {
+  const errors = seats.map(seat => analyzeTargetError(
+    eqSettings ? applyEQToResponse(seat.response, eqSettings) : seat.response,
+    targetResponse
+  ));
+  const weights = seats.map(seat => seat.weight ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return {
+    rmsError: totalWeight > 0 ? errors.reduce((sum, error, s) => sum + weights[s] * error.rmsError, 0) / totalWeight : 0,
+    maxError: errors.reduce((max, error) => Math.max(max, error.maxError), 0),
+    seatRmsErrors: errors.map(error => error.rmsError),
+  };
+}
+
 /**
  * Generate correction EQ for remaining error between current and target response
  */
@@ -2037,7 +3186,7 @@ export function simulateRoomResponseForEQ(
   W: number, 
   H: number, 
   maxModeOrder = 10,
-  baseQFactor = DEFAULT_Q_FACTOR
+  baseQFactor: ModalDamping = DEFAULT_Q_FACTOR
 ): ModeResponse[] {
   // Call the main function with no spectral tilt (default behavior)
   return simulateRoomResponse(subPos, listenerPos, L, W, H, maxModeOrder, baseQFactor);
@@ -2053,7 +3202,9 @@ export interface RoomModeInfo {
   mMode: number;  // y-direction mode  
   lMode: number;  // z-direction mode
   coupling: number; // How strongly this mode couples between sub and listener
-  type: 'axial' | 'tangential' | 'oblique';
+  type: RoomModeType;
+  q: number;   // Modal Q from the damping model
+  t60: number; // Decay time to -60 dB in seconds
 }
 
 export function analyzeRoomModes(
@@ -2062,52 +3213,31 @@ export function analyzeRoomModes(
   L: number, 
   W: number, 
   H: number, 
-  maxModeOrder = 10
+  maxModeOrder = 10,
+  damping: ModalDamping = DEFAULT_Q_FACTOR
 ): RoomModeInfo[] {
   const modes: RoomModeInfo[] = [];
-  
-  for (let n = 0; n <= maxModeOrder; n++) {
-    for (let m = 0; m <= maxModeOrder; m++) {
-      for (let l = 0; l <= maxModeOrder; l++) {
-        if (n === 0 && m === 0 && l === 0) continue; // Skip DC mode
-        if (L === 0 && n !== 0) continue;
-        if (W === 0 && m !== 0) continue; 
-        if (H === 0 && l !== 0) continue;
 
-        const termL = (L === 0) ? 0 : (n / L);
-        const termW = (W === 0) ? 0 : (m / W);
-        const termH = (H === 0) ? 0 : (l / H);
-
-        const fMode = (SPEED_OF_SOUND / 2) * Math.sqrt(
-          termL ** 2 + termW ** 2 + termH ** 2
-        );
-
-        if (fMode <= 0 || fMode > 300) continue; // Only analyze up to 300Hz
-
-        const subPressure = calculateModePressure(n, m, l, subPos, { L, W, H });
-        const listenerPressure = calculateModePressure(n, m, l, listenerPos, { L, W, H });
-        const coupling = subPressure * listenerPressure;
-
-        if (Math.abs(coupling) < 0.1) continue; // Skip weakly coupled modes
-
-        // Classify mode type
-        const nonZeroIndices = [n > 0 ? 1 : 0, m > 0 ? 1 : 0, l > 0 ? 1 : 0].reduce((a, b) => a + b, 0);
-        let type: 'axial' | 'tangential' | 'oblique';
-        if (nonZeroIndices === 1) type = 'axial';
-        else if (nonZeroIndices === 2) type = 'tangential';
-        else type = 'oblique';
-
-        modes.push({
-          frequency: fMode,
-          amplitude: Math.abs(coupling),
-          nMode: n,
-          mMode: m,
-          lMode: l,
-          coupling,
-          type
-        });
-      }
-    }
+  for (const { n, m, l, frequency: fMode, shape, q, t60, type } of getModeTable({ L, W, H }, maxModeOrder, damping, 300).modes) {
+    if (fMode > 300) continue; // Only analyze up to 300Hz
+
+    const subPressure = modeShapePressure(shape, subPos, { L, W, H });
+    const listenerPressure = modeShapePressure(shape, listenerPos, { L, W, H });
+    const coupling = subPressure * listenerPressure;
+
+    if (Math.abs(coupling) < 0.1) continue; // Skip weakly coupled modes
+
+    modes.push({
+      frequency: fMode,
+      amplitude: Math.abs(coupling),
+      nMode: n,
+      mMode: m,
+      lMode: l,
+      coupling,
+      type,
+      q,
+      t60
+    });
   }
 
   return modes.sort((a, b) => a.frequency - b.frequency);
@@ -2406,16 +3536,22 @@ function interpolateResponse(
 }
 
 /**
- * Apply EQ settings to a response curve
+ * Apply EQ settings to a response curve, resampled onto `frequencyGrid` when given
  */
 export function applyEQToResponse(
-  originalResponse: ModeResponse[],
-  eqSettings: EQSettings
+  inputResponse: ModeResponse[],
+  eqSettings: EQSettings,
+  frequencyGrid?: FrequencyGrid
 ): ModeResponse[] {
+  const originalResponse = frequencyGrid ? resampleResponse(inputResponse, frequencyGrid) : inputResponse;
   if (!eqSettings.enabled || !eqSettings.bands.length) {
     return originalResponse;
   }
 
+  const cacheKey = stableHash({ response: originalResponse, bands: eqSettings.bands, sampleRate: eqSettings.sampleRate });
+  const cached = eqCache.get(cacheKey);
+  if (cached) return cached;
+
   console.log('🎛️ Applying EQ to response:', {
     originalPoints: originalResponse.length,
     bands: eqSettings.bands.length,
@@ -2430,13 +3566,13 @@ export function applyEQToResponse(
     console.log('🔧 Troubleshooting bands near 34Hz:', troubleshootBands);
   }
 
-  return originalResponse.map((point, index) => {
+  const equalizedResponse = originalResponse.map((point, index) => {
     let totalGain = 0;
     const individualGains: Array<{band: EQBand, gain: number}> = [];
 
     // Apply each EQ band
     for (const band of eqSettings.bands) {
-      const gain = calculateBandResponse(point.freq, band);
+      const gain = calculateBandResponse(point.freq, band, eqSettings.sampleRate);
       
       // Safety check for invalid gains
       if (isNaN(gain) || !isFinite(gain)) {
@@ -2486,6 +3622,9 @@ export function applyEQToResponse(
       db: clampedDb
     };
   });
+
+  eqCache.set(cacheKey, equalizedResponse);
+  return equalizedResponse;
 }
 
 /**
@@ -2498,7 +3637,8 @@ export function exportEQToText(eqSettings: EQSettings): string {
 
   let output = "# Parametric EQ Settings\n";
   output += `# Generated by Sonic Room\n`;
-  output += `# Max Boost: ${eqSettings.maxBoost}dB, Max Cut: ${eqSettings.maxCut}dB\n\n`;
+  output += `# Max Boost: ${eqSettings.maxBoost}dB, Max Cut: ${eqSettings.maxCut}dB\n`;
+  output += `# Sample Rate: ${eqSettings.sampleRate ?? DEFAULT_SAMPLE_RATE}Hz (RBJ biquads)\n\n`;
   output += "Band\tFreq(Hz)\tGain(dB)\tQ\tType\n";
   
   eqSettings.bands.forEach((band, index) => {
@@ -2517,11 +3657,24 @@ export function exportEQToREW(eqSettings: EQSettings): string {
   }
 
   let output = "# Parametric EQ Settings\n";
-  output += "# Generated by Sonic Room\n\n";
+  output += "# Generated by Sonic Room\n";
+  output += `# Sample Rate: ${eqSettings.sampleRate ?? DEFAULT_SAMPLE_RATE}Hz\n\n`;
+
+  const rewTypes: Record<EQBand['type'], string> = {
+    peak: 'PK',
+    shelf: 'LSQ',
+    lowshelf: 'LSQ',
+    highshelf: 'HSQ',
+    highpass: 'HPQ',
+    lowpass: 'LPQ',
+    notch: 'NO',
+    allpass: 'AP',
+  };
   
   eqSettings.bands.forEach((band, index) => {
     // REW format: Filter N: ON PK Fc XXXX Hz Gain XX.X dB Q XX.X
-    output += `Filter ${index + 1}: ON PK Fc ${band.frequency} Hz Gain ${band.gain} dB Q ${band.q}\n`;
+    const gain = ['PK', 'LSQ', 'HSQ'].includes(rewTypes[band.type]) ? ` Gain ${band.gain} dB` : '';
+    output += `Filter ${index + 1}: ON ${rewTypes[band.type]} Fc ${band.frequency} Hz${gain} Q ${band.q}\n`;
   });
   
   return output;
@@ -2914,12 +4067,19 @@ export async function generateEQPass3(
   return { eqSettings: finalEQSettings, correctedResponse: finalCorrectedResponse };
 }
 
+// EQ generation stopped by its isCancelled check rejects with an AbortError
+export const eqCancelledError = () => new DOMException('EQ generation cancelled', 'AbortError');
+
+export const isEQCancelledError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
 /**
  * Generate optimal EQ with visual feedback callbacks for smooth animations
  * Enhanced version that provides real-time updates for visual effects
+ * Accepts several weighted seat responses like generateOptimalEQ; the callbacks then see the combined response.
+ * isCancelled is checked between the passes.
  */
 export function generateOptimalEQWithVisuals(
-  roomResponseWithTilt: ModeResponse[],
+  roomResponseWithTilt: ModeResponse[] | SeatEQResponse[],
   targetResponse: ModeResponse[],
   options: {
     numBands?: number;
@@ -2929,13 +4089,15 @@ export function generateOptimalEQWithVisuals(
     minQ?: number;
     maxQ?: number;
     schroederFreq?: number;
+    sampleRate?: number;
   } = {},
   visualCallbacks?: {
     onPassStart?: (passNumber: number, passName: string) => void;
     onBandsGenerated?: (passNumber: number, newBands: EQBand[], activeBandFreqs: number[]) => void;
     onPassComplete?: (passNumber: number, totalBands: number, correctedResponse: ModeResponse[]) => void;
     onProgressUpdate?: (message: string) => void;
-  }
+  },
+  isCancelled?: () => boolean
 ): Promise<EQSettings> {
   const {
     numBands = 25, // Updated default
@@ -2944,25 +4106,42 @@ export function generateOptimalEQWithVisuals(
     smoothing = 0.02,
     minQ = 0.7,
     maxQ = 10.0,
-    schroederFreq = 200
+    schroederFreq = 200,
+    sampleRate = DEFAULT_SAMPLE_RATE
   } = options;
 
-  if (!roomResponseWithTilt.length || !targetResponse.length) {
+  const seats = toSeatResponses(roomResponseWithTilt);
+  if (seats.length > 1) {
+    const { response, localNullFreqs } = combineSeatResponses(seats, targetResponse);
+    visualCallbacks?.onProgressUpdate?.(`💺 Fitting one EQ to ${seats.length} seats, no boost into ${localNullFreqs.length} single-seat null points`);
+    return generateOptimalEQWithVisuals(response, targetResponse, options, visualCallbacks, isCancelled)
+      .then(eq => ({ ...eq, bands: limitBoostIntoLocalNulls(eq.bands, localNullFreqs, sampleRate) }));
+  }
+  const roomResponse = seats[0].response;
+
+  if (!roomResponse.length || !targetResponse.length) {
     return Promise.resolve({
       bands: [],
       enabled: false,
       maxBoost,
       maxCut,
-      smoothing
+      smoothing,
+      sampleRate
     });
   }
 
   console.log(`🎯 Starting ULTRA-AGGRESSIVE 4-PASS EQ with VISUAL EFFECTS (max ${numBands} bands)`);
   visualCallbacks?.onProgressUpdate?.('🎯 Starting 4-Pass EQ Generation with Visual Effects...');
   
-  const analysisResponse = roomResponseWithTilt;
+  const analysisResponse = roomResponse;
+
+  return new Promise((resolve, reject) => {
+    // Visual delay between the passes, where a cancelled run stops
+    const pause = async () => {
+      await new Promise(resolveDelay => setTimeout(resolveDelay, 250));
+      if (isCancelled?.()) throw eqCancelledError();
+    };
 
-  return new Promise((resolve) => {
     const executeVisualPasses = async () => {
       // PASS 1: Aggressive broad corrections (30% of bands)
       const pass1MaxBands = Math.ceil(numBands * 0.3);
@@ -2994,7 +4173,8 @@ export function generateOptimalEQWithVisuals(
         enabled: true,
         maxBoost,
         maxCut,
-        smoothing
+        smoothing,
+        sampleRate
       };
       
       const responseAfterPass1 = applyEQToResponse(analysisResponse, pass1EQSettings);
@@ -3017,7 +4197,7 @@ export function generateOptimalEQWithVisuals(
       visualCallbacks?.onProgressUpdate?.(`✅ Pass 1 Complete: ${pass1Bands.length} bands applied`);
       
       // Visual delay
-      await new Promise(resolve => setTimeout(resolve, 250));
+      await pause();
 
       // PASS 2: ULTRA-targeted refinement (30% of bands)
       const pass2MaxBands = Math.ceil(numBands * 0.3);
@@ -3051,7 +4231,8 @@ export function generateOptimalEQWithVisuals(
         enabled: true,
         maxBoost,
         maxCut,
-        smoothing
+        smoothing,
+        sampleRate
       };
       
       const responseAfterPass2 = applyEQToResponse(analysisResponse, pass2EQSettings);
@@ -3060,7 +4241,7 @@ export function generateOptimalEQWithVisuals(
       visualCallbacks?.onProgressUpdate?.(`✅ Pass 2 Complete: ${pass2Bands.length} additional bands applied`);
       
       // Visual delay
-      await new Promise(resolve => setTimeout(resolve, 250));
+      await pause();
 
       // PASS 3: PRECISION polishing (25% of bands)
       const pass3MaxBands = Math.ceil(numBands * 0.25);
@@ -3095,7 +4276,8 @@ export function generateOptimalEQWithVisuals(
           enabled: true,
           maxBoost,
           maxCut,
-          smoothing
+          smoothing,
+          sampleRate
         };
         
         const responseAfterPass3 = applyEQToResponse(analysisResponse, pass3EQSettings);
@@ -3104,7 +4286,7 @@ export function generateOptimalEQWithVisuals(
         visualCallbacks?.onProgressUpdate?.(`✅ Pass 3 Complete: ${pass3Bands.length} additional bands applied`);
         
         // Visual delay
-        await new Promise(resolve => setTimeout(resolve, 250));
+        await pause();
 
         // PASS 4: ULTRA-FINE detail corrections (remaining bands)
         const remainingAfterPass3 = numBands - pass1Bands.length - pass2Bands.length - pass3Bands.length;
@@ -3138,7 +4320,8 @@ export function generateOptimalEQWithVisuals(
             enabled: true,
             maxBoost,
             maxCut,
-            smoothing
+            smoothing,
+            sampleRate
           };
           
           const finalResponse = applyEQToResponse(analysisResponse, finalEQSettings);
@@ -3156,7 +4339,8 @@ export function generateOptimalEQWithVisuals(
             enabled: true,
             maxBoost,
             maxCut,
-            smoothing
+            smoothing,
+            sampleRate
           });
         }
       } else {
@@ -3168,12 +4352,17 @@ export function generateOptimalEQWithVisuals(
           enabled: true,
           maxBoost,
           maxCut,
-          smoothing
+          smoothing,
+          sampleRate
         });
       }
     };
 
     executeVisualPasses().catch(error => {
+      if (isEQCancelledError(error)) {
+        reject(error);
+        return;
+      }
       console.error('Error in visual EQ passes:', error);
       visualCallbacks?.onProgressUpdate?.('❌ EQ generation failed');
       resolve({
@@ -3181,7 +4370,8 @@ export function generateOptimalEQWithVisuals(
         enabled: false,
         maxBoost,
         maxCut,
-        smoothing
+        smoothing,
+        sampleRate
       });
     });
   });
@@ -0,0 +1,188 @@
+/* Speaker-boundary interference (SBIR) of the mains: notches from the nearest walls, floor and ceiling */
+import {
+  ModeResponse,
+  Point,
+  RoomDimensions,
+  RoomSurface,
+  SPEED_OF_SOUND,
+  SpeakerData,
+  SurfaceAbsorptions,
+  complexToDb,
+  speakerCurveGainLinear,
+} from './roomModeCalculations';
+import { AbsorptionSpectrum } from './acousticMaterials';
+import { computeImageSources, logFrequencyGrid, surfaceReflectionMagnitude } from './imageSourceModel';
+
+const MIN_DISTANCE_M = 0.05;
+const MIN_CLEARANCE_M = 0.1; // Closest a speaker is placed to any boundary
+
+export interface SbirNotch {
+  freq: number;
+  depthDb: number; // Level of direct + reflection relative to the direct sound alone
+}
+
+export interface SbirBoundary {
+  surface: RoomSurface;
+  distance: number;       // Speaker to boundary, m
+  pathDifference: number; // Reflected minus direct path to the listener, m
+  reflectionDb: number;   // Reflection relative to the direct sound at the first notch
+  notches: SbirNotch[];
+}
+
+/**
+ * Speaker-to-boundary distances that keep the quarter-wave notch c / 4d out of the band:
+ * closer than `closeDistance` puts it above the band, further than `farDistance` below.
+ */
+export interface SbirSuggestion {
+  surface: RoomSurface;
+  currentDistance: number;
+  closeDistance: number;
+  farDistance: number | null; // Null when the room is too small for it
+  closePosition: Point;
+  farPosition: Point | null;
+}
+
+export interface SbirOptions {
+  absorption: SurfaceAbsorptions;
+  absorptionSpectra?: Partial<Record<RoomSurface, AbsorptionSpectrum>>;
+  speakerData?: SpeakerData | null; // Directivity of the speaker, omnidirectional when missing
+  bandLow?: number;   // e.g. the crossover frequency, below which the subs take over
+  bandHigh?: number;  // Above this the speaker is directional enough to not care
+  notchCount?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  pointsPerOctave?: number;
+}
+
+export interface SbirAnalysis {
+  boundaries: SbirBoundary[];       // Nearest boundary first
+  suggestions: SbirSuggestion[];
+  response: ModeResponse[];         // Direct sound with all six first reflections, relative to the direct sound
+  worstNotch: (SbirNotch & { surface: RoomSurface }) | null; // Deepest first notch inside the band
+}
+
+/** Distance from a point to one boundary of the room */
+function boundaryDistance(point: Point, room: RoomDimensions, surface: RoomSurface): number {
+  switch (surface) {
+    case 'front': return point.y;
+    case 'back': return room.W - point.y;
+    case 'left': return point.x;
+    case 'right': return room.L - point.x;
+    case 'floor': return point.z;
+    case 'ceiling': return room.H - point.z;
+  }
+}
+
+/** The point moved so that it sits `distance` from the boundary */
+function withBoundaryDistance(point: Point, room: RoomDimensions, surface: RoomSurface, distance: number): Point {
+  switch (surface) {
+    case 'front': return { ...point, y: distance };
+    case 'back': return { ...point, y: room.W - distance };
+    case 'left': return { ...point, x: distance };
+    case 'right': return { ...point, x: room.L - distance };
+    case 'floor': return { ...point, z: distance };
+    case 'ceiling': return { ...point, z: room.H - distance };
+  }
+}
+
+function roomExtent(room: RoomDimensions, surface: RoomSurface): number {
+  if (surface === 'left' || surface === 'right') return room.L;
+  if (surface === 'front' || surface === 'back') return room.W;
+  return room.H;
+}
+
+/**
+ * Speaker response towards a boundary relative to on-axis. The wall behind the speaker sees
+ * roughly the sound power, the side walls, floor and ceiling the early reflections.
+ */
+function boundaryDirectivity(speakerData: SpeakerData | null, surface: RoomSurface, facing: RoomSurface) {
+  const curve = surface === facing && speakerData?.responses?.SoundPower ? 'SoundPower' : 'EarlyReflections';
+  return (freq: number) =>
+    speakerCurveGainLinear(speakerData, curve, freq) / Math.max(1e-12, speakerCurveGainLinear(speakerData, 'OnAxis', freq));
+}
+
+/**
+ * Boundary interference of one speaker at the listener. Each first-order image interferes
+ * with the direct sound; with |R| real and positive the notches of a boundary fall at
+ * (2k + 1) · c / 2Δ for a path difference Δ, with depth 20·log10(1 − a) for a reflection
+ * of relative amplitude a (absorption, directivity and the extra distance).
+ */
+export function analyzeSbir(speaker: Point, listener: Point, room: RoomDimensions, options: SbirOptions): SbirAnalysis {
+  const {
+    absorption,
+    absorptionSpectra = {},
+    speakerData = null,
+    bandLow = 80,
+    bandHigh = 300,
+    notchCount = 3,
+    minFrequency = 20,
+    maxFrequency = 1000,
+    pointsPerOctave = 96,
+  } = options;
+
+  // The speaker faces away from the boundary it is closest to among the front and back walls
+  const facing: RoomSurface = speaker.y <= room.W / 2 ? 'front' : 'back';
+  const distanceTo = (p: Point) => Math.max(MIN_DISTANCE_M, Math.hypot(p.x - listener.x, p.y - listener.y, p.z - listener.z));
+
+  const images = computeImageSources(speaker, room, 1);
+  const directDistance = distanceTo(speaker);
+  const reflections = images
+    .filter(image => image.order === 1)
+    .map(image => {
+      const surface = (Object.keys(image.hits) as RoomSurface[]).find(s => image.hits[s] > 0) as RoomSurface;
+      const imageDistance = distanceTo(image.position);
+      const directivity = boundaryDirectivity(speakerData, surface, facing);
+      // Relative amplitude of the reflection against the direct sound
+      const amplitudeAt = (freq: number) =>
+        surfaceReflectionMagnitude(surface, freq, absorption, absorptionSpectra) * directivity(freq) * (directDistance / imageDistance);
+      return { surface, imageDistance, amplitudeAt };
+    });
+
+  const boundaries: SbirBoundary[] = reflections.map(({ surface, imageDistance, amplitudeAt }) => {
+    const pathDifference = Math.max(1e-6, imageDistance - directDistance);
+    const notches = Array.from({ length: notchCount }, (_, k) => {
+      const freq = ((2 * k + 1) * SPEED_OF_SOUND) / (2 * pathDifference);
+      return { freq, depthDb: 20 * Math.log10(Math.max(1e-6, Math.abs(1 - amplitudeAt(freq)))) };
+    });
+    return {
+      surface,
+      distance: boundaryDistance(speaker, room, surface),
+      pathDifference,
+      reflectionDb: 20 * Math.log10(Math.max(1e-6, amplitudeAt(notches[0].freq))),
+      notches,
+    };
+  }).sort((a, b) => a.distance - b.distance);
+
+  const suggestions: SbirSuggestion[] = boundaries.map(boundary => {
+    const closeDistance = Math.max(MIN_CLEARANCE_M, SPEED_OF_SOUND / (4 * bandHigh));
+    const farDistance = SPEED_OF_SOUND / (4 * bandLow);
+    const farPossible = farDistance <= roomExtent(room, boundary.surface) - MIN_CLEARANCE_M;
+    return {
+      surface: boundary.surface,
+      currentDistance: boundary.distance,
+      closeDistance,
+      farDistance: farPossible ? farDistance : null,
+      closePosition: withBoundaryDistance(speaker, room, boundary.surface, closeDistance),
+      farPosition: farPossible ? withBoundaryDistance(speaker, room, boundary.surface, farDistance) : null,
+    };
+  });
+
+  const response = logFrequencyGrid(minFrequency, maxFrequency, pointsPerOctave).map(freq => {
+    let re = 1;
+    let im = 0;
+    reflections.forEach(({ imageDistance, amplitudeAt }) => {
+      const phase = (-2 * Math.PI * freq * (imageDistance - directDistance)) / SPEED_OF_SOUND;
+      const amplitude = amplitudeAt(freq);
+      re += amplitude * Math.cos(phase);
+      im += amplitude * Math.sin(phase);
+    });
+    return { freq, db: complexToDb(re, im) };
+  });
+
+  const worstNotch = boundaries
+    .map(boundary => ({ ...boundary.notches[0], surface: boundary.surface }))
+    .filter(notch => notch.freq >= bandLow && notch.freq <= bandHigh)
+    .reduce<(SbirNotch & { surface: RoomSurface }) | null>((worst, notch) => (!worst || notch.depthDb < worst.depthDb ? notch : worst), null);
+
+  return { boundaries, suggestions, response, worstNotch };
+}
@@ -0,0 +1,193 @@
+/* Time-domain views of the room model: impulse and step response */
+import { ComplexResponsePoint, EQSettings, calculateEQComplexResponse } from './roomModeCalculations';
+
+// Band-limiting window applied to the spectrum before the inverse FFT
+export type SpectrumWindow = 'rectangular' | 'tukey' | 'hann' | 'blackman';
+
+export interface ImpulseResponseOptions {
+  sampleRate?: number;   // Hz, must be above twice the highest simulated frequency
+  fftSize?: number;      // Power of two; frequency resolution = sampleRate / fftSize
+  window?: SpectrumWindow;
+  durationMs?: number;   // Length of the returned response
+  eqSettings?: EQSettings | null; // Biquad response (magnitude and phase) applied when enabled
+}
+
+export interface TimeDomainPoint {
+  timeMs: number;
+  impulse: number; // Normalized to the impulse peak
+  step: number;    // Normalized to the step peak magnitude
+}
+
+/**
+ * In-place radix-2 FFT. With inverse = true the result is scaled by 1/N.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+  if (n === 0 || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (sign * 2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * Window weight at position t (0..1) across the simulated band.
+ * Tukey only tapers the outer 25% on each side, the others span the whole band.
+ */
+function spectrumWindowWeight(window: SpectrumWindow, t: number): number {
+  switch (window) {
+    case 'hann':
+      return 0.5 - 0.5 * Math.cos(2 * Math.PI * t);
+    case 'blackman':
+      return 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+    case 'tukey': {
+      const alpha = 0.5;
+      if (t < alpha / 2) return 0.5 - 0.5 * Math.cos((2 * Math.PI * t) / alpha);
+      if (t > 1 - alpha / 2) return 0.5 - 0.5 * Math.cos((2 * Math.PI * (1 - t)) / alpha);
+      return 1;
+    }
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Impulse and step response at the listener from the complex frequency response.
+ * The spectrum is interpolated onto the FFT bins, band-limited with the chosen
+ * window and transformed back with an inverse FFT.
+ */
+export function calculateImpulseResponse(
+  response: ComplexResponsePoint[],
+  options: ImpulseResponseOptions = {}
+): TimeDomainPoint[] {
+  const {
+    sampleRate = 1024,
+    fftSize = 2048,
+    window = 'tukey',
+    durationMs = 500,
+    eqSettings = null,
+  } = options;
+
+  if (response.length < 2) return [];
+
+  const startTime = performance.now();
+  const fMin = response[0].freq;
+  const fMax = response[response.length - 1].freq;
+  const binWidth = sampleRate / fftSize;
+
+  const applyEQ = !!eqSettings && eqSettings.enabled && eqSettings.bands.length > 0;
+
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  let lower = 0;
+
+  for (let k = 1; k < fftSize / 2; k++) {
+    const freq = k * binWidth;
+    if (freq < fMin || freq > fMax) continue;
+
+    // Linear interpolation of the complex response between neighbouring points
+    while (lower < response.length - 2 && response[lower + 1].freq < freq) lower++;
+    const a = response[lower];
+    const b = response[lower + 1];
+    const frac = b.freq > a.freq ? (freq - a.freq) / (b.freq - a.freq) : 0;
+    let binRe = a.re + (b.re - a.re) * frac;
+    let binIm = a.im + (b.im - a.im) * frac;
+
+    // EQ as the complex response of its biquads, so its phase shifts the impulse too
+    if (applyEQ) {
+      const eq = calculateEQComplexResponse(freq, eqSettings);
+      [binRe, binIm] = [binRe * eq.re - binIm * eq.im, binRe * eq.im + binIm * eq.re];
+    }
+
+    const weight = spectrumWindowWeight(window, (freq - fMin) / (fMax - fMin));
+    binRe *= weight;
+    binIm *= weight;
+
+    // Conjugate-symmetric spectrum for a real-valued impulse response
+    re[k] = binRe;
+    im[k] = binIm;
+    re[fftSize - k] = binRe;
+    im[fftSize - k] = -binIm;
+  }
+
+  fft(re, im, true);
+
+  const samples = Math.min(fftSize, Math.round((durationMs / 1000) * sampleRate));
+  let impulsePeak = 0;
+  let stepPeak = 0;
+  let stepSum = 0;
+  const steps: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    impulsePeak = Math.max(impulsePeak, Math.abs(re[i]));
+    stepSum += re[i];
+    steps.push(stepSum);
+    stepPeak = Math.max(stepPeak, Math.abs(stepSum));
+  }
+
+  const result = steps.map((step, i) => ({
+    timeMs: (i / sampleRate) * 1000,
+    impulse: impulsePeak > 0 ? re[i] / impulsePeak : 0,
+    step: stepPeak > 0 ? step / stepPeak : 0,
+  }));
+
+  console.log(`⏱️ Impulse response (${fftSize}-point IFFT, ${window} window${applyEQ ? ', EQ applied' : ''}) in ${(performance.now() - startTime).toFixed(1)}ms`);
+  return result;
+}
+
+/**
+ * Time after the impulse peak at which the envelope last exceeds the given level
+ * (dB below the peak). Used to compare how long the low-frequency tail rings.
+ */
+export function calculateDecayTime(points: TimeDomainPoint[], levelDb = -40): number {
+  if (points.length === 0) return 0;
+  const threshold = 10 ** (levelDb / 20);
+  let peakIndex = 0;
+  points.forEach((point, i) => {
+    if (Math.abs(point.impulse) > Math.abs(points[peakIndex].impulse)) peakIndex = i;
+  });
+  let lastIndex = peakIndex;
+  for (let i = peakIndex; i < points.length; i++) {
+    if (Math.abs(points[i].impulse) >= threshold) lastIndex = i;
+  }
+  return points[lastIndex].timeMs - points[peakIndex].timeMs;
+}
@@ -0,0 +1,78 @@
+/* Web Worker running the modal solver and the EQ generation off the main thread */
+import { setCacheMemoryBudget } from '@/utils/roomModeCalculations';
+import {
+  RoomWorkerRequest,
+  RoomWorkerResponse,
+  RoomWorkerTasks,
+  runEQGeneration,
+  runRoomSimulation,
+} from './roomSimulationTasks';
+
+const ctx = self as unknown as Worker;
+
+// Simulations wait here, so the ones superseded while waiting are dropped before they start
+const queue: Extract<RoomWorkerRequest, { type: 'run' }>[] = [];
+const active = new Set<number>(); // Queued or running
+const cancelled = new Set<number>();
+let isProcessing = false;
+
+const post = (message: RoomWorkerResponse) => ctx.postMessage(message);
+
+const finish = (id: number) => {
+  active.delete(id);
+  cancelled.delete(id);
+};
+
+function runEQ(request: Extract<RoomWorkerRequest, { type: 'run' }>) {
+  // Not queued: the passes yield between each other, so simulations keep running meanwhile
+  // A cancelled run stops at its next pass or iteration
+  const isCancelled = () => cancelled.has(request.id);
+  runEQGeneration(request.input as RoomWorkerTasks['generateEQ']['input'], progress => {
+    if (!isCancelled()) post({ type: 'progress', id: request.id, progress });
+  }, isCancelled)
+    .then(result => {
+      if (!isCancelled()) post({ type: 'result', id: request.id, result });
+    })
+    .catch(error => {
+      if (!isCancelled()) post({ type: 'error', id: request.id, error: error instanceof Error ? error.message : String(error) });
+    })
+    .finally(() => finish(request.id));
+}
+
+async function processQueue() {
+  if (isProcessing) return;
+  isProcessing = true;
+  while (queue.length > 0) {
+    const request = queue.shift()!;
+    if (!cancelled.has(request.id)) {
+      try {
+        post({ type: 'result', id: request.id, result: runRoomSimulation(request.input as RoomWorkerTasks['simulate']['input']) });
+      } catch (error) {
+        post({ type: 'error', id: request.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    finish(request.id);
+    // Let newer requests and cancellations arrive before picking the next one
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  isProcessing = false;
+}
+
+ctx.onmessage = (event: MessageEvent<RoomWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    if (active.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+  if (message.type === 'setCacheBudget') {
+    setCacheMemoryBudget(message.bytes);
+    return;
+  }
+  active.add(message.id);
+  if (message.kind === 'generateEQ') {
+    runEQ(message);
+    return;
+  }
+  queue.push(message);
+  setTimeout(processQueue, 0);
+};
@@ -0,0 +1,163 @@
+/* Simulation and EQ tasks run by the room simulation worker (or on the main thread as a fallback) */
+import {
+  ComplexResponsePoint,
+  CrossoverSettings,
+  EQBand,
+  EQSettings,
+  FrequencyGrid,
+  ModalDamping,
+  ModeResponse,
+  Point,
+  RoomDimensions,
+  SeatEQResponse,
+  SpeakerData,
+  SpeakerSystemResponse,
+  SubwooferSource,
+  analyzeSeatEQError,
+  applyEQToResponse,
+  calculateComplexResponse,
+  complexToDb,
+  generateOptimalEQWithVisuals,
+  getModeTableStats,
+  simulateSpeakerSystemResponse,
+  speakerGainLinear,
+  toSeatResponses,
+} from '@/utils/roomModeCalculations';
+import { EQMethod, optimizeEQLeastSquares } from '@/utils/eqOptimizer';
+import { EQBoostSettings, applyBoostMode } from '@/utils/eqHeadroom';
+
+export interface RoomSimulationInput {
+  room: RoomDimensions;
+  subwoofers: SubwooferSource[];
+  mains: SubwooferSource[] | null;      // Stereo mains through the crossover, null when not simulated
+  crossover: CrossoverSettings;
+  mainsSpeakerData: SpeakerData | null; // Anechoic response of the mains
+  listener: Point;                      // Primary seat
+  extraSeats: Point[];                  // Additional seats, raw responses only
+  damping: ModalDamping;
+  frequencyGrid: FrequencyGrid;
+}
+
+export interface RoomSimulationOutput {
+  subComplex: ComplexResponsePoint[];   // Subwoofers through the mode sum at the primary seat
+  subResponse: ModeResponse[];
+  speakerSystem: SpeakerSystemResponse | null;
+  extraSeatResponses: ModeResponse[][]; // Same order as extraSeats
+}
+
+export interface EQGenerationInput {
+  method: EQMethod;
+  response: ModeResponse[] | SeatEQResponse[]; // Several weighted seats fit one band set to all of them
+  target: ModeResponse[];
+  options: Parameters<typeof generateOptimalEQWithVisuals>[2];
+  boost: EQBoostSettings; // Cut-only and budgeted modes are enforced on the result of either method
+}
+
+export interface EQGenerationOutput {
+  eqSettings: EQSettings;
+  initialRmsError: number; // Against the target before and after the EQ, same measure for both methods
+  rmsError: number;         // Seat-weighted mean of the per-seat RMS errors with several seats
+}
+
+/** Visual callbacks of the EQ generation, sent back as messages */
+export type EQProgressEvent =
+  | { event: 'passStart'; passNumber: number; passName: string }
+  | { event: 'bandsGenerated'; passNumber: number; newBands: EQBand[]; activeBandFreqs: number[] }
+  | { event: 'passComplete'; passNumber: number; totalBands: number; correctedResponse: ModeResponse[] }
+  | { event: 'progressUpdate'; message: string };
+
+export interface RoomWorkerTasks {
+  simulate: { input: RoomSimulationInput; output: RoomSimulationOutput; progress: never };
+  generateEQ: { input: EQGenerationInput; output: EQGenerationOutput; progress: EQProgressEvent };
+}
+
+export type RoomWorkerTaskKind = keyof RoomWorkerTasks;
+
+/** Messages from the main thread */
+export type RoomWorkerRequest =
+  | { type: 'run'; id: number; kind: RoomWorkerTaskKind; input: RoomWorkerTasks[RoomWorkerTaskKind]['input'] }
+  | { type: 'cancel'; id: number }
+  | { type: 'setCacheBudget'; bytes: number }; // Total memory of the worker's caches
+
+/** Messages from the worker */
+export type RoomWorkerResponse =
+  | { type: 'progress'; id: number; progress: RoomWorkerTasks[RoomWorkerTaskKind]['progress'] }
+  | { type: 'result'; id: number; result: RoomWorkerTasks[RoomWorkerTaskKind]['output'] }
+  | { type: 'error'; id: number; error: string };
+
+/**
+ * Modal response of the subwoofers, the speaker system when the mains are on,
+ * and the raw responses of the additional seats.
+ */
+export function runRoomSimulation(input: RoomSimulationInput): RoomSimulationOutput {
+  const { room, subwoofers, mains, crossover, mainsSpeakerData, listener, extraSeats, damping, frequencyGrid } = input;
+  const { L, W, H } = room;
+  const startTime = performance.now();
+  const statsBefore = getModeTableStats();
+
+  const mainsGainLinear = mainsSpeakerData ? (freq: number) => speakerGainLinear(mainsSpeakerData, freq) : undefined;
+  const simulateSystem = (position: Point) => simulateSpeakerSystemResponse(
+    { subwoofers, mains: mains ?? [], crossover, mainsGainLinear },
+    position, L, W, H, 10, damping, frequencyGrid
+  );
+  const simulateSubs = (position: Point) => calculateComplexResponse(subwoofers, position, L, W, H, 10, damping, frequencyGrid);
+  const toDb = (points: ComplexResponsePoint[]) => points.map(point => ({ freq: point.freq, db: complexToDb(point.re, point.im) }));
+
+  const subComplex = simulateSubs(listener);
+  const result = {
+    subComplex,
+    subResponse: toDb(subComplex),
+    speakerSystem: mains ? simulateSystem(listener) : null,
+    extraSeatResponses: extraSeats.map(seat => (mains ? simulateSystem(seat).total : toDb(simulateSubs(seat)))),
+  };
+
+  const stats = getModeTableStats();
+  console.log(`🧵 Room simulation: ${subwoofers.length} subs${mains ? ` + ${mains.length} mains` : ''}, ${1 + extraSeats.length} seat(s) in ${(performance.now() - startTime).toFixed(1)}ms`);
+  console.log(`📐 Mode tables: ${stats.misses - statsBefore.misses} built (${(stats.buildTimeMs - statsBefore.buildTimeMs).toFixed(1)}ms), ${stats.hits - statsBefore.hits} reused; coupling terms ${(stats.couplingTimeMs - statsBefore.couplingTimeMs).toFixed(1)}ms over ${stats.couplingRuns - statsBefore.couplingRuns} run(s)`);
+  return result;
+}
+
+const LEAST_SQUARES_PROGRESS_EVERY = 5; // Iterations between band updates in the UI
+
+/**
+ * EQ generation with the heuristic passes or the least-squares fit, reporting
+ * the visual callbacks as progress events and the RMS error before and after.
+ * Rejects with an AbortError (isEQCancelledError) once isCancelled returns true.
+ */
+export async function runEQGeneration(
+  input: EQGenerationInput,
+  onProgress: (event: EQProgressEvent) => void,
+  isCancelled?: () => boolean
+): Promise<EQGenerationOutput> {
+  const { method, response, target, boost } = input;
+  const options = boost.mode === 'cut-only' ? { ...input.options, maxBoost: 0 } : input.options;
+  const seats = toSeatResponses(response);
+  const rmsErrors = (eqSettings: EQSettings) => ({
+    initialRmsError: analyzeSeatEQError(seats, target).rmsError,
+    rmsError: analyzeSeatEQError(seats, target, eqSettings).rmsError,
+  });
+
+  if (method === 'least-squares') {
+    onProgress({ event: 'passStart', passNumber: 1, passName: 'Least-Squares Fit' });
+    const result = await optimizeEQLeastSquares(response, target, options, (iteration, bands) => {
+      if (iteration.iteration % LEAST_SQUARES_PROGRESS_EVERY !== 1) return;
+      onProgress({ event: 'bandsGenerated', passNumber: 1, newBands: bands, activeBandFreqs: bands.map(band => band.frequency) });
+      onProgress({ event: 'progressUpdate', message: `📐 Iteration ${iteration.iteration}: ${iteration.rmsError.toFixed(2)} dB weighted RMS` });
+    }, isCancelled);
+    const eqSettings = applyBoostMode(result.eqSettings, boost);
+    onProgress({ event: 'passComplete', passNumber: 1, totalBands: eqSettings.bands.length, correctedResponse: applyEQToResponse(seats[0].response, eqSettings) });
+    return { eqSettings, ...rmsErrors(eqSettings) };
+  }
+
+  const generated = await generateOptimalEQWithVisuals(response, target, options, {
+    onPassStart: (passNumber, passName) => onProgress({ event: 'passStart', passNumber, passName }),
+    onBandsGenerated: (passNumber, newBands, activeBandFreqs) => onProgress({ event: 'bandsGenerated', passNumber, newBands, activeBandFreqs }),
+    onPassComplete: (passNumber, totalBands, correctedResponse) => onProgress({ event: 'passComplete', passNumber, totalBands, correctedResponse }),
+    onProgressUpdate: message => onProgress({ event: 'progressUpdate', message }),
+  }, isCancelled);
+  const eqSettings = applyBoostMode(generated, boost);
+  if (boost.mode !== 'unrestricted') {
+    onProgress({ event: 'progressUpdate', message: boost.mode === 'cut-only' ? '✂️ Cut-only: boosts removed' : `🔋 Boosts held to ${boost.budgetDbOct} dB·oct` });
+  }
+  return { eqSettings, ...rmsErrors(eqSettings) };
+}